@@ -5,11 +5,40 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
+interface IAPPToken is IERC20 {
+    function getPastBalance(address account, uint256 timepoint) external view returns (uint256);
+    function getPastTotalSupply(uint256 timepoint) external view returns (uint256);
+}
+
 /**
  * @title APPDistribution
  * @notice Appreciation/Exit event distribution contract for SSF RWA project
  * @dev Treasury deposits USDC on exit/refinancing events, APP-PREF holders claim pro-rata
  * 
+ * SNAPSHOT: Claims use APP-PREF balances checkpointed at the block before
+ * finalizeEvent(), so tokens transferred after finalization cannot claim twice.
+ * The weight token must implement getPastBalance/getPastTotalSupply; the
+ * constructor probes both and reverts with UnsupportedWeightToken otherwise.
+ * 
+ * WATERFALL MODE (optional, per event):
+ *   1. Preferred return: first USDC up to the hurdle goes to APP-PREF holders
+ *   2. Return of capital: next USDC up to contributed capital goes to APP-PREF holders
+ *   3. Residual: carryBps to the sponsor (carried interest), rest to APP-PREF holders
+ * Holders claim pro-rata of tranches 1 + 2 + investor residual; sponsor claims carry.
+ * 
+ * CONCURRENT EVENTS: deposits, waterfall setup and finalization target an explicit
+ * eventId, so overlapping events (e.g. refinance + partial disposition) can stay open
+ * together. An unfinalized event can be cancelled, refunding its deposits to treasury.
+ * 
+ * DOCUMENT ANCHORING: each event can be tied to its closing statement or refinance
+ * docs via a sha256 content hash and URI, fixed once the event is finalized.
+ * See scripts/anchor-document.ts
+ * 
+ * MULTI-ASSET PAYOUTS: each event pays out in one token from a treasury-managed
+ * allowlist (USDC by default). An exit settling in two stablecoins is modelled as
+ * two concurrent events. Waterfall amounts are in the event's payout token units.
+ * getClaimable() reports the payout token with the amount.
+ * 
  * IMMUTABLE CONTRACT - No proxy upgradeability.
  * Future iterations via versioned deployments (V1/V2/...).
  * Old versions remain readable/claimable but disabled for new events.
@@ -18,15 +47,19 @@ contract APPDistribution is Ownable {
     using SafeERC20 for IERC20;
 
     // ============ VERSION ============
-    string public constant VERSION = "APPDistribution@1.0.0";
+    string public constant VERSION = "APPDistribution@2.4.1";
+    
+    // ============ CONSTANTS ============
+    uint64 public constant MAX_CLAIM_WINDOW = 10 * 365 days;
     
     // ============ IMMUTABLES ============
-    IERC20 public immutable usdc;
-    IERC20 public immutable appToken; // APP-PREF token
+    IERC20 public immutable usdc;          // Default payout token
+    IAPPToken public immutable appToken; // APP-PREF token
     
     // ============ STATE ============
     address public treasury;
     bool public acceptingDeposits = true;  // Retire mechanism
+    uint64 public claimWindow;             // Seconds after finalization before claims expire (0 = never)
     
     enum EventType { EXIT, REFINANCE, DISPOSITION, OTHER }
     
@@ -38,11 +71,38 @@ contract APPDistribution is Ownable {
         uint256 snapshotSupply;    // APP-PREF total supply at event time
         uint64 timestamp;
         bool finalized;
+        uint64 claimDeadline;      // 0 = claims never expire
+        bool swept;                // Unclaimed remainder returned to treasury
+        bool cancelled;            // Deposits refunded to treasury, never claimable
+        bytes32 contentHash;       // sha256 of the anchored document (0 = none)
+        string documentURI;        // Where the anchored document can be fetched
+        address payoutToken;       // Token deposits and claims are paid in
+    }
+    
+    struct WaterfallConfig {
+        bool enabled;
+        address sponsor;           // Receives carried interest
+        uint256 preferredReturn;   // Tranche 1 hurdle (USDC, 6 decimals)
+        uint256 returnOfCapital;   // Tranche 2 cap (USDC, 6 decimals)
+        uint16 carryBps;           // Sponsor share of the residual
+        bool carryClaimed;
+    }
+    
+    struct Tranches {
+        uint256 preferredReturn;   // Paid to APP-PREF holders
+        uint256 returnOfCapital;   // Paid to APP-PREF holders
+        uint256 investorResidual;  // Paid to APP-PREF holders
+        uint256 sponsorCarry;      // Paid to sponsor
     }
     
     uint256 public currentEventId;
     mapping(uint256 => ExitEvent) public exitEvents;
+    mapping(uint256 => WaterfallConfig) public waterfalls;
+    mapping(uint256 => uint256) public snapshotBlocks;    // Balances are read at the end of this block
     mapping(uint256 => mapping(address => bool)) public hasClaimed;
+    mapping(address => bool) public allowedPayoutTokens;
+    mapping(address => uint256) public totalDepositedByToken;
+    mapping(address => uint256) public totalClaimedByToken;
     
     // ============ EVENTS ============
     event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
@@ -51,7 +111,28 @@ contract APPDistribution is Ownable {
     event EventCreated(uint256 indexed eventId, EventType eventType, string description);
     event EventFinalized(uint256 indexed eventId, uint256 totalAmount);
     event Deposited(uint256 indexed eventId, uint256 amount);
+    event DocumentAnchored(uint256 indexed eventId, bytes32 contentHash, string documentURI);
+    event PayoutTokenAllowed(address indexed token, bool allowed);
+    event PayoutTokenSet(uint256 indexed eventId, address indexed token);
+    event EventCancelled(uint256 indexed eventId, address indexed treasury, uint256 refundedAmount);
     event Claimed(uint256 indexed eventId, address indexed holder, uint256 amount);
+    event WaterfallConfigured(
+        uint256 indexed eventId,
+        address indexed sponsor,
+        uint256 preferredReturn,
+        uint256 returnOfCapital,
+        uint16 carryBps
+    );
+    event CarryClaimed(uint256 indexed eventId, address indexed sponsor, uint256 amount);
+    event ClaimWindowUpdated(uint64 claimWindow);
+    event ClaimDeadlineUpdated(uint256 indexed eventId, uint64 claimDeadline);
+    event UnclaimedSwept(
+        uint256 indexed eventId,
+        address indexed treasury,
+        uint256 amount,
+        uint256 totalAmount,
+        uint256 totalClaimed
+    );
     
     // ============ ERRORS ============
     error ZeroAddress();
@@ -60,7 +141,22 @@ contract APPDistribution is Ownable {
     error NoClaimable();
     error OnlyTreasury();
     error EventAlreadyFinalized();
+    error EventIsCancelled();
     error ContractRetired();
+    error InvalidRange();
+    error EventNotFound();
+    error InvalidCarryBps();
+    error NotSponsor();
+    error ClaimExpired();
+    error ClaimWindowOpen();
+    error NoClaimDeadline();
+    error InvalidClaimDeadline();
+    error InvalidClaimWindow();
+    error AlreadySwept();
+    error EmptyContentHash();
+    error PayoutTokenNotAllowed();
+    error EventHasDeposits();
+    error UnsupportedWeightToken();
     
     // ============ CONSTRUCTOR ============
     constructor(
@@ -72,9 +168,13 @@ contract APPDistribution is Ownable {
         if (_usdc == address(0) || _appToken == address(0) || _treasury == address(0)) {
             revert ZeroAddress();
         }
+        if (!_supportsSnapshots(_appToken)) {
+            revert UnsupportedWeightToken();
+        }
         usdc = IERC20(_usdc);
-        appToken = IERC20(_appToken);
+        appToken = IAPPToken(_appToken);
         treasury = _treasury;
+        allowedPayoutTokens[_usdc] = true;
         
         emit Deployed(VERSION, block.chainid, msg.sender, block.timestamp);
     }
@@ -111,11 +211,53 @@ contract APPDistribution is Ownable {
         treasury = newTreasury;
     }
     
+    /**
+     * @notice Set the claim window applied to events finalized from now on
+     * @dev Capped at MAX_CLAIM_WINDOW so the deadline computed at finalization cannot overflow
+     * @param newClaimWindow Seconds after finalization before claims expire (0 = never)
+     */
+    function setClaimWindow(uint64 newClaimWindow) external onlyOwner {
+        if (newClaimWindow > MAX_CLAIM_WINDOW) revert InvalidClaimWindow();
+        claimWindow = newClaimWindow;
+        emit ClaimWindowUpdated(newClaimWindow);
+    }
+    
+    /**
+     * @notice Extend the claim deadline of a finalized event
+     * @dev Deadlines can only be extended, never shortened; events finalized
+     *      without a deadline never expire and cannot be given one
+     * @param eventId The event ID to update
+     * @param newDeadline New deadline (unix seconds UTC), must be later than the current one
+     */
+    function setClaimDeadline(uint256 eventId, uint64 newDeadline) external onlyOwner {
+        ExitEvent storage evt = exitEvents[eventId];
+        if (!evt.finalized) revert EventNotFinalized();
+        if (evt.swept) revert AlreadySwept();
+        if (evt.claimDeadline == 0) revert NoClaimDeadline();
+        if (newDeadline <= block.timestamp || newDeadline < evt.claimDeadline) revert InvalidClaimDeadline();
+        
+        evt.claimDeadline = newDeadline;
+        emit ClaimDeadlineUpdated(eventId, newDeadline);
+    }
+    
     // ============ TREASURY FUNCTIONS ============
     
+    /**
+     * @notice Add or remove a token from the payout allowlist
+     * @dev Removing a token blocks new deposits in it; existing events stay claimable
+     * @param token ERC-20 payout token (e.g. USDC, EURC, USDT)
+     * @param allowed Whether events may pay out in this token
+     */
+    function setPayoutTokenAllowed(address token, bool allowed) external onlyTreasury {
+        if (token == address(0)) revert ZeroAddress();
+        allowedPayoutTokens[token] = allowed;
+        emit PayoutTokenAllowed(token, allowed);
+    }
+    
     /**
      * @notice Create a new exit/appreciation event
-     * @dev Only callable when contract is not retired
+     * @dev Only callable when contract is not retired.
+     *      Pays out in USDC unless changed with setPayoutToken() before the first deposit.
      * @param eventType Type of event (EXIT, REFINANCE, DISPOSITION, OTHER)
      * @param description Human-readable description of the event
      */
@@ -125,42 +267,160 @@ contract APPDistribution is Ownable {
         evt.eventType = eventType;
         evt.description = description;
         evt.timestamp = uint64(block.timestamp);
+        evt.payoutToken = address(usdc);
         
         emit EventCreated(currentEventId, eventType, description);
     }
     
     /**
-     * @notice Deposit USDC for the current event
-     * @param amount Amount of USDC to deposit (6 decimals)
+     * @notice Configure a preferred-return waterfall for an event
+     * @dev Must be set before finalization. Tranches are filled in order:
+     *      preferred return, return of capital, then residual split by carryBps.
+     * @param eventId The event ID to configure
+     * @param sponsor Address receiving carried interest
+     * @param preferredReturn Tranche 1 hurdle (payout token units)
+     * @param returnOfCapital Tranche 2 cap (payout token units)
+     * @param carryBps Sponsor share of the residual (basis points)
      */
-    function deposit(uint256 amount) external onlyTreasury notRetired {
-        ExitEvent storage evt = exitEvents[currentEventId];
-        if (evt.finalized) revert EventAlreadyFinalized();
+    function setWaterfall(
+        uint256 eventId,
+        address sponsor,
+        uint256 preferredReturn,
+        uint256 returnOfCapital,
+        uint16 carryBps
+    ) external onlyTreasury {
+        _pendingEvent(eventId);
+        if (sponsor == address(0)) revert ZeroAddress();
+        if (carryBps > 10_000) revert InvalidCarryBps();
         
-        usdc.safeTransferFrom(msg.sender, address(this), amount);
+        waterfalls[eventId] = WaterfallConfig({
+            enabled: true,
+            sponsor: sponsor,
+            preferredReturn: preferredReturn,
+            returnOfCapital: returnOfCapital,
+            carryBps: carryBps,
+            carryClaimed: false
+        });
+        
+        emit WaterfallConfigured(eventId, sponsor, preferredReturn, returnOfCapital, carryBps);
+    }
+    
+    /**
+     * @notice Choose the payout token of an open event
+     * @dev Only before the first deposit
+     * @param eventId The event ID to configure
+     * @param token Allowlisted payout token
+     */
+    function setPayoutToken(uint256 eventId, address token) external onlyTreasury {
+        ExitEvent storage evt = _pendingEvent(eventId);
+        if (!allowedPayoutTokens[token]) revert PayoutTokenNotAllowed();
+        if (evt.totalAmount != 0) revert EventHasDeposits();
+        
+        evt.payoutToken = token;
+        emit PayoutTokenSet(eventId, token);
+    }
+    
+    /**
+     * @notice Deposit the payout token for an open event
+     * @param eventId The event ID to fund
+     * @param amount Amount to deposit, in the event's payout token units
+     */
+    function deposit(uint256 eventId, uint256 amount) external onlyTreasury notRetired {
+        ExitEvent storage evt = _pendingEvent(eventId);
+        if (!allowedPayoutTokens[evt.payoutToken]) revert PayoutTokenNotAllowed();
+        
+        IERC20(evt.payoutToken).safeTransferFrom(msg.sender, address(this), amount);
         evt.totalAmount += amount;
+        totalDepositedByToken[evt.payoutToken] += amount;
         
-        emit Deposited(currentEventId, amount);
+        emit Deposited(eventId, amount);
     }
     
     /**
-     * @notice Finalize the current event, snapshot token supply
-     * @dev Can be called even after retire (to finalize last event)
+     * @notice Anchor the closing statement or refinance docs backing an event
+     * @dev Can be replaced until the event is finalized, immutable afterwards
+     * @param eventId The event ID to anchor
+     * @param contentHash sha256 of the document
+     * @param documentURI IPFS CID or URL of the document
      */
-    function finalizeEvent() external onlyTreasury {
-        ExitEvent storage evt = exitEvents[currentEventId];
-        if (evt.finalized) revert EventAlreadyFinalized();
+    function anchorDocument(
+        uint256 eventId,
+        bytes32 contentHash,
+        string calldata documentURI
+    ) external onlyTreasury {
+        if (contentHash == bytes32(0)) revert EmptyContentHash();
+        ExitEvent storage evt = _pendingEvent(eventId);
         
-        evt.snapshotSupply = appToken.totalSupply();
+        evt.contentHash = contentHash;
+        evt.documentURI = documentURI;
+        emit DocumentAnchored(eventId, contentHash, documentURI);
+    }
+    
+    /**
+     * @notice Finalize an open event, snapshot token balances and supply
+     * @dev Can be called even after retire (to finalize last events).
+     *      Snapshot is taken at the previous block so it is immediately queryable.
+     * @param eventId The event ID to finalize
+     */
+    function finalizeEvent(uint256 eventId) external onlyTreasury {
+        ExitEvent storage evt = _pendingEvent(eventId);
+        uint256 snapshotBlock = block.number - 1;
+        
+        snapshotBlocks[eventId] = snapshotBlock;
+        evt.snapshotSupply = appToken.getPastTotalSupply(snapshotBlock);
         evt.finalized = true;
+        if (claimWindow != 0) {
+            evt.claimDeadline = uint64(block.timestamp) + claimWindow;
+        }
+        
+        emit EventFinalized(eventId, evt.totalAmount);
+    }
+    
+    /**
+     * @notice Cancel an open event and refund its deposits to treasury
+     * @dev Only before finalization. Can be called even after retire.
+     * @param eventId The event ID to cancel
+     */
+    function cancelEvent(uint256 eventId) external onlyTreasury {
+        ExitEvent storage evt = _pendingEvent(eventId);
+        
+        uint256 refund = evt.totalAmount;
+        evt.cancelled = true;
+        evt.totalAmount = 0;
+        if (refund > 0) {
+            totalDepositedByToken[evt.payoutToken] -= refund;
+            IERC20(evt.payoutToken).safeTransfer(treasury, refund);
+        }
         
-        emit EventFinalized(currentEventId, evt.totalAmount);
+        emit EventCancelled(eventId, treasury, refund);
+    }
+    
+    /**
+     * @notice Return the unclaimed payout token of an expired event to treasury
+     * @dev Only after the claim deadline; sweeps totalAmount - totalClaimed once.
+     *      Emits UnclaimedSwept for reconciliation tooling.
+     * @param eventId The event ID to sweep
+     */
+    function sweepUnclaimed(uint256 eventId) external onlyTreasury {
+        ExitEvent storage evt = exitEvents[eventId];
+        if (!evt.finalized) revert EventNotFinalized();
+        if (evt.swept) revert AlreadySwept();
+        if (evt.claimDeadline == 0) revert NoClaimDeadline();
+        if (block.timestamp <= evt.claimDeadline) revert ClaimWindowOpen();
+        
+        uint256 amount = evt.totalAmount - evt.totalClaimed;
+        evt.swept = true;
+        if (amount > 0) {
+            IERC20(evt.payoutToken).safeTransfer(treasury, amount);
+        }
+        
+        emit UnclaimedSwept(eventId, treasury, amount, evt.totalAmount, evt.totalClaimed);
     }
     
     // ============ USER FUNCTIONS ============
     
     /**
-     * @notice Claim USDC from a finalized event
+     * @notice Claim the payout token from a finalized event
      * @dev Always available (even after retire) for historical events
      * @param eventId The event ID to claim from
      */
@@ -168,36 +428,175 @@ contract APPDistribution is Ownable {
         ExitEvent storage evt = exitEvents[eventId];
         if (!evt.finalized) revert EventNotFinalized();
         if (hasClaimed[eventId][msg.sender]) revert AlreadyClaimed();
+        if (isExpired(eventId)) revert ClaimExpired();
         
-        uint256 claimable = getClaimable(msg.sender, eventId);
+        uint256 claimable = _claimable(msg.sender, eventId);
         if (claimable == 0) revert NoClaimable();
         
         hasClaimed[eventId][msg.sender] = true;
         evt.totalClaimed += claimable;
-        usdc.safeTransfer(msg.sender, claimable);
+        totalClaimedByToken[evt.payoutToken] += claimable;
+        IERC20(evt.payoutToken).safeTransfer(msg.sender, claimable);
         
         emit Claimed(eventId, msg.sender, claimable);
     }
     
+    /**
+     * @notice Claim from several finalized events in one transaction
+     * @dev Skips events that are not finalized, already claimed or empty.
+     *      Reverts only if nothing at all is claimable. Pays one transfer per payout token.
+     * @param eventIds The event IDs to claim from
+     */
+    function claimMany(uint256[] calldata eventIds) external {
+        address[] memory tokens = new address[](eventIds.length);
+        uint256[] memory amounts = new uint256[](eventIds.length);
+        uint256 tokenCount;
+        for (uint256 i = 0; i < eventIds.length; i++) {
+            uint256 eventId = eventIds[i];
+            uint256 claimable = _claimable(msg.sender, eventId);
+            if (claimable == 0) continue;
+            
+            hasClaimed[eventId][msg.sender] = true;
+            exitEvents[eventId].totalClaimed += claimable;
+            tokenCount = _accrue(tokens, amounts, tokenCount, exitEvents[eventId].payoutToken, claimable);
+            emit Claimed(eventId, msg.sender, claimable);
+        }
+        if (tokenCount == 0) revert NoClaimable();
+        
+        for (uint256 i = 0; i < tokenCount; i++) {
+            totalClaimedByToken[tokens[i]] += amounts[i];
+            IERC20(tokens[i]).safeTransfer(msg.sender, amounts[i]);
+        }
+    }
+    
+    /**
+     * @notice Sponsor claims carried interest from a finalized waterfall event
+     * @param eventId The event ID to claim from
+     */
+    function claimCarry(uint256 eventId) external {
+        ExitEvent storage evt = exitEvents[eventId];
+        WaterfallConfig storage waterfall = waterfalls[eventId];
+        if (!evt.finalized) revert EventNotFinalized();
+        if (msg.sender != waterfall.sponsor) revert NotSponsor();
+        if (waterfall.carryClaimed) revert AlreadyClaimed();
+        if (isExpired(eventId)) revert ClaimExpired();
+        
+        uint256 carry = getTranches(eventId).sponsorCarry;
+        if (carry == 0) revert NoClaimable();
+        
+        waterfall.carryClaimed = true;
+        evt.totalClaimed += carry;
+        totalClaimedByToken[evt.payoutToken] += carry;
+        IERC20(evt.payoutToken).safeTransfer(msg.sender, carry);
+        
+        emit CarryClaimed(eventId, msg.sender, carry);
+    }
+    
     // ============ VIEW FUNCTIONS ============
     
     /**
      * @notice Calculate claimable amount for a holder
+     * @dev Uses the holder's balance at the event snapshot, not the current balance
      * @param holder Address of the APP-PREF holder
      * @param eventId The event ID to check
-     * @return Amount of USDC claimable (6 decimals)
+     * @return token The event's payout token
+     * @return amount Amount claimable, in token units
      */
-    function getClaimable(address holder, uint256 eventId) public view returns (uint256) {
-        ExitEvent storage evt = exitEvents[eventId];
-        if (!evt.finalized || evt.snapshotSupply == 0) return 0;
-        if (hasClaimed[eventId][holder]) return 0;
+    function getClaimable(address holder, uint256 eventId) external view returns (address token, uint256 amount) {
+        token = exitEvents[eventId].payoutToken;
+        amount = _claimable(holder, eventId);
+    }
+    
+    /**
+     * @notice Allocate an event's totalAmount across waterfall tranches
+     * @dev Without a waterfall, the whole amount is investor residual (plain pro-rata)
+     * @param eventId The event ID to query
+     */
+    function getTranches(uint256 eventId) public view returns (Tranches memory tranches) {
+        uint256 remaining = exitEvents[eventId].totalAmount;
+        WaterfallConfig storage waterfall = waterfalls[eventId];
+        if (!waterfall.enabled) {
+            tranches.investorResidual = remaining;
+            return tranches;
+        }
+        
+        tranches.preferredReturn = remaining < waterfall.preferredReturn ? remaining : waterfall.preferredReturn;
+        remaining -= tranches.preferredReturn;
+        
+        tranches.returnOfCapital = remaining < waterfall.returnOfCapital ? remaining : waterfall.returnOfCapital;
+        remaining -= tranches.returnOfCapital;
+        
+        tranches.sponsorCarry = (remaining * waterfall.carryBps) / 10_000;
+        tranches.investorResidual = remaining - tranches.sponsorCarry;
+    }
+    
+    /**
+     * @notice Calculate claimable amounts for a holder over an event ID range
+     * @param holder Address of the APP-PREF holder
+     * @param fromEventId First event ID (inclusive)
+     * @param toEventId Last event ID (inclusive)
+     * @return amounts Claimable amount per event, indexed from fromEventId
+     * @return total Sum of amounts (only meaningful if all events share a payout token)
+     */
+    function getClaimableRange(
+        address holder,
+        uint256 fromEventId,
+        uint256 toEventId
+    ) external view returns (uint256[] memory amounts, uint256 total) {
+        if (fromEventId > toEventId) revert InvalidRange();
+        
+        amounts = new uint256[](toEventId - fromEventId + 1);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            amounts[i] = _claimable(holder, fromEventId + i);
+            total += amounts[i];
+        }
+    }
+    
+    /**
+     * @notice Calculate claimable amounts for a holder over an event ID range, per payout token
+     * @param holder Address of the APP-PREF holder
+     * @param fromEventId First event ID (inclusive)
+     * @param toEventId Last event ID (inclusive)
+     * @return tokens Payout tokens with a non-zero claimable amount
+     * @return amounts Claimable amount per token, aligned with tokens
+     */
+    function getClaimableByToken(
+        address holder,
+        uint256 fromEventId,
+        uint256 toEventId
+    ) external view returns (address[] memory tokens, uint256[] memory amounts) {
+        if (fromEventId > toEventId) revert InvalidRange();
+        
+        uint256 length = toEventId - fromEventId + 1;
+        address[] memory seen = new address[](length);
+        uint256[] memory totals = new uint256[](length);
+        uint256 tokenCount;
+        for (uint256 eventId = fromEventId; eventId <= toEventId; eventId++) {
+            uint256 claimable = _claimable(holder, eventId);
+            if (claimable == 0) continue;
+            tokenCount = _accrue(seen, totals, tokenCount, exitEvents[eventId].payoutToken, claimable);
+        }
         
-        // Pro-rata based on APP-PREF balance
-        return (evt.totalAmount * appToken.balanceOf(holder)) / evt.snapshotSupply;
+        tokens = new address[](tokenCount);
+        amounts = new uint256[](tokenCount);
+        for (uint256 i = 0; i < tokenCount; i++) {
+            tokens[i] = seen[i];
+            amounts[i] = totals[i];
+        }
+    }
+    
+    /**
+     * @notice Check whether claims for an event have expired
+     * @param eventId The event ID to check
+     */
+    function isExpired(uint256 eventId) public view returns (bool) {
+        uint64 deadline = exitEvents[eventId].claimDeadline;
+        return deadline != 0 && block.timestamp > deadline;
     }
     
     /**
      * @notice Get event details
+     * @dev Includes the waterfall breakdown of totalAmount (see getTranches)
      * @param eventId The event ID to query
      */
     function getEvent(uint256 eventId) external view returns (
@@ -207,17 +606,83 @@ contract APPDistribution is Ownable {
         uint256 totalClaimed,
         uint256 snapshotSupply,
         uint64 timestamp,
-        bool finalized
+        bool finalized,
+        Tranches memory tranches
     ) {
         ExitEvent storage evt = exitEvents[eventId];
-        return (
-            evt.eventType,
-            evt.description,
-            evt.totalAmount,
-            evt.totalClaimed,
-            evt.snapshotSupply,
-            evt.timestamp,
-            evt.finalized
+        eventType = evt.eventType;
+        description = evt.description;
+        totalAmount = evt.totalAmount;
+        totalClaimed = evt.totalClaimed;
+        snapshotSupply = evt.snapshotSupply;
+        timestamp = evt.timestamp;
+        finalized = evt.finalized;
+        tranches = getTranches(eventId);
+    }
+    
+    // ============ INTERNAL ============
+    
+    /**
+     * @notice Claimable amount for a holder, in the event's payout token units
+     */
+    function _claimable(address holder, uint256 eventId) internal view returns (uint256) {
+        ExitEvent storage evt = exitEvents[eventId];
+        if (!evt.finalized || evt.snapshotSupply == 0) return 0;
+        if (hasClaimed[eventId][holder] || isExpired(eventId)) return 0;
+        
+        // Pro-rata based on APP-PREF balance, over the investor share of the waterfall
+        Tranches memory tranches = getTranches(eventId);
+        uint256 investorAmount = tranches.preferredReturn + tranches.returnOfCapital + tranches.investorResidual;
+        uint256 balance = appToken.getPastBalance(holder, snapshotBlocks[eventId]);
+        return (investorAmount * balance) / evt.snapshotSupply;
+    }
+    
+    /**
+     * @notice Add amount to token's running total in parallel memory arrays
+     * @return New number of distinct tokens
+     */
+    function _accrue(
+        address[] memory tokens,
+        uint256[] memory amounts,
+        uint256 tokenCount,
+        address token,
+        uint256 amount
+    ) internal pure returns (uint256) {
+        for (uint256 i = 0; i < tokenCount; i++) {
+            if (tokens[i] == token) {
+                amounts[i] += amount;
+                return tokenCount;
+            }
+        }
+        tokens[tokenCount] = token;
+        amounts[tokenCount] = amount;
+        return tokenCount + 1;
+    }
+    
+    /**
+     * @notice Probe a weight token for getPastBalance and getPastTotalSupply
+     * @dev A plain ERC20 would revert at finalizeEvent
+     */
+    function _supportsSnapshots(address token) internal view returns (bool) {
+        uint256 timepoint = block.number - 1;
+        (bool ok, bytes memory data) = token.staticcall(
+            abi.encodeCall(IAPPToken.getPastTotalSupply, (timepoint))
         );
+        if (!ok || data.length < 32) return false;
+        (ok, data) = token.staticcall(
+            abi.encodeCall(IAPPToken.getPastBalance, (address(0), timepoint))
+        );
+        return ok && data.length >= 32;
+    }
+    
+    /**
+     * @notice Return an event that still accepts deposits and configuration
+     * @dev Reverts unless the event exists, is not finalized and not cancelled
+     */
+    function _pendingEvent(uint256 eventId) internal view returns (ExitEvent storage evt) {
+        if (eventId == 0 || eventId > currentEventId) revert EventNotFound();
+        evt = exitEvents[eventId];
+        if (evt.finalized) revert EventAlreadyFinalized();
+        if (evt.cancelled) revert EventIsCancelled();
     }
 }
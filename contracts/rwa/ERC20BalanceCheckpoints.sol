@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+/**
+ * @title ERC20BalanceCheckpoints
+ * @notice ERC20 extension that records historic balances and total supply per block
+ * @dev Used by distribution contracts to compute claims against balances captured
+ *      at finalization instead of live balances. Timepoints are block numbers.
+ *      Unlike ERC20Votes, no delegation is required: every balance is checkpointed.
+ */
+abstract contract ERC20BalanceCheckpoints is ERC20 {
+    using Checkpoints for Checkpoints.Trace208;
+
+    // ============ STATE ============
+    mapping(address => Checkpoints.Trace208) private _balanceCheckpoints;
+    Checkpoints.Trace208 private _totalSupplyCheckpoints;
+
+    // ============ ERRORS ============
+    error FutureLookup(uint256 timepoint, uint48 clock);
+
+    // ============ VIEW FUNCTIONS ============
+
+    /**
+     * @notice Current timepoint (block number)
+     */
+    function clock() public view virtual returns (uint48) {
+        return SafeCast.toUint48(block.number);
+    }
+
+    /**
+     * @notice Balance of an account at the end of a past block
+     * @param account Address to query
+     * @param timepoint Block number, must be strictly in the past
+     */
+    function getPastBalance(address account, uint256 timepoint) public view virtual returns (uint256) {
+        return _balanceCheckpoints[account].upperLookupRecent(_validateBalanceTimepoint(timepoint));
+    }
+
+    /**
+     * @notice Total supply at the end of a past block
+     * @param timepoint Block number, must be strictly in the past
+     */
+    function getPastTotalSupply(uint256 timepoint) public view virtual returns (uint256) {
+        return _totalSupplyCheckpoints.upperLookupRecent(_validateBalanceTimepoint(timepoint));
+    }
+
+    // ============ INTERNAL ============
+
+    function _validateBalanceTimepoint(uint256 timepoint) internal view returns (uint48) {
+        uint48 currentTimepoint = clock();
+        if (timepoint >= currentTimepoint) revert FutureLookup(timepoint, currentTimepoint);
+        return SafeCast.toUint48(timepoint);
+    }
+
+    /**
+     * @dev Checkpoints sender, receiver and total supply after every balance change
+     */
+    function _update(address from, address to, uint256 value) internal virtual override {
+        super._update(from, to, value);
+
+        uint48 timepoint = clock();
+        if (from == address(0) || to == address(0)) {
+            _checkpointTotalSupply(timepoint);
+        }
+        if (from != address(0)) {
+            _balanceCheckpoints[from].push(timepoint, SafeCast.toUint208(balanceOf(from)));
+        }
+        if (to != address(0)) {
+            _balanceCheckpoints[to].push(timepoint, SafeCast.toUint208(balanceOf(to)));
+        }
+    }
+
+    /**
+     * @dev Records total supply after a mint or burn. Override with a no-op (and
+     *      getPastTotalSupply) when another extension such as ERC20Votes already does.
+     */
+    function _checkpointTotalSupply(uint48 timepoint) internal virtual {
+        _totalSupplyCheckpoints.push(timepoint, SafeCast.toUint208(totalSupply()));
+    }
+}
@@ -3,13 +3,15 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "./ERC20BalanceCheckpoints.sol";
 
 /**
  * @title MockAPPToken
  * @notice Mock APP-PREF token for testnet demo
- * @dev Mintable ERC20 for testing APPDistribution claims
+ * @dev Mintable ERC20 for testing APPDistribution claims.
+ *      Balances are checkpointed so claims can be computed at the finalization snapshot.
  */
-contract MockAPPToken is ERC20, Ownable {
+contract MockAPPToken is ERC20BalanceCheckpoints, Ownable {
     constructor(address initialOwner) 
         ERC20("APP-PREF Token", "APP-PREF") 
         Ownable(initialOwner) 
@@ -3,13 +3,15 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "./ERC20BalanceCheckpoints.sol";
 
 /**
  * @title MockRENTToken
  * @notice Mock RENT-SEN token for testnet demo
- * @dev Mintable ERC20 for testing RENTDistribution claims
+ * @dev Mintable ERC20 for testing RENTDistribution claims.
+ *      Balances are checkpointed so claims can be computed at the finalization snapshot.
  */
-contract MockRENTToken is ERC20, Ownable {
+contract MockRENTToken is ERC20BalanceCheckpoints, Ownable {
     constructor(address initialOwner) 
         ERC20("RENT-SEN Token", "RENT-SEN") 
         Ownable(initialOwner) 
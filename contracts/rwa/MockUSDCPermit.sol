@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockUSDCPermit
+ * @notice Mock USDC token with EIP-2612 permit, like USDC on Base (6 decimals)
+ */
+contract MockUSDCPermit is ERC20, ERC20Permit, Ownable {
+    constructor(address initialOwner) 
+        ERC20("USD Coin (Mock)", "USDC") 
+        ERC20Permit("USD Coin (Mock)")
+        Ownable(initialOwner) 
+    {}
+
+    /**
+     * @notice Returns 6 decimals to match real USDC
+     */
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    /**
+     * @notice Mint tokens to an address (owner only)
+     * @param to Recipient address
+     * @param amount Amount to mint (6 decimals)
+     */
+    function mint(address to, uint256 amount) external onlyOwner {
+        _mint(to, amount);
+    }
+}
@@ -4,42 +4,92 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+
+interface IRENTToken is IERC20 {
+    function getPastBalance(address account, uint256 timepoint) external view returns (uint256);
+    function getPastTotalSupply(uint256 timepoint) external view returns (uint256);
+}
 
 /**
  * @title RENTDistribution
  * @notice Rental income distribution contract for SSF RWA project
  * @dev Treasury deposits USDC, RENT-SEN holders claim pro-rata
  * 
+ * SNAPSHOT: Claims use RENT-SEN balances checkpointed at the block before
+ * finalizePeriod(), so shares transferred after finalization cannot claim twice.
+ * The weight token must implement getPastBalance/getPastTotalSupply; the
+ * constructor probes both and reverts with UnsupportedWeightToken otherwise.
+ * 
+ * PERIOD LIFECYCLE: NONE -> OPEN (startPeriod) -> FINALIZED (finalizePeriod)
+ *   - Deposits only into the OPEN current period
+ *   - A new period can only start once the current one is FINALIZED
+ * 
+ * CUSTODIAL / SMART-CONTRACT WALLETS:
+ *   - distributeTo(): treasury pushes claims to many holders in one transaction
+ *   - claimFor(): relayer submits a holder's EIP-712 (or ERC-1271) signature and pays gas;
+ *     the signature carries a deadline after which it cannot be used
+ * 
+ * DOCUMENT ANCHORING: treasury ties each period to its rent roll via a sha256
+ * content hash and URI (IPFS CID or https). Fixed once the period is finalized.
+ * See scripts/anchor-document.ts
+ * 
+ * MULTI-ASSET PAYOUTS: each period pays out in one token from a treasury-managed
+ * allowlist (USDC by default; e.g. EURC or USDT for some properties). Period
+ * totals are denominated in that token; per-token totals are tracked contract-wide.
+ * getClaimable() reports the payout token with the amount.
+ * 
  * IMMUTABLE CONTRACT - No proxy upgradeability.
  * Future iterations via versioned deployments (V1/V2/...).
  * Old versions remain readable/claimable but disabled for new deposits.
  */
-contract RENTDistribution is Ownable {
+contract RENTDistribution is Ownable, EIP712 {
     using SafeERC20 for IERC20;
 
     // ============ VERSION ============
-    string public constant VERSION = "RENTDistribution@1.0.0";
+    string public constant VERSION = "RENTDistribution@2.8.0";
+    
+    // ============ EIP-712 ============
+    bytes32 public constant CLAIM_FOR_TYPEHASH =
+        keccak256("ClaimFor(address holder,uint256 periodId,address recipient,uint256 deadline)");
+    
+    // ============ CONSTANTS ============
+    uint64 public constant MAX_CLAIM_WINDOW = 10 * 365 days;
     
     // ============ IMMUTABLES ============
-    IERC20 public immutable usdc;
-    IERC20 public immutable rentToken;
+    IERC20 public immutable usdc;          // Default payout token
+    IRENTToken public immutable rentToken;
     
     // ============ STATE ============
     address public treasury;
     bool public acceptingDeposits = true;  // Retire mechanism
+    uint64 public claimWindow;             // Seconds after finalization before claims expire (0 = never)
+    
+    enum PeriodState { NONE, OPEN, FINALIZED }
     
     struct Period {
         uint256 totalDeposited;
         uint256 totalClaimed;
         uint256 snapshotSupply;
+        uint256 snapshotBlock;     // Balances are read at the end of this block
         uint64 startTime;
         uint64 endTime;
         bool finalized;
+        uint64 claimDeadline;      // 0 = claims never expire
+        bool swept;                // Unclaimed remainder returned to treasury
+        bytes32 contentHash;       // sha256 of the anchored rent roll (0 = none)
+        string documentURI;        // Where the anchored document can be fetched
+        address payoutToken;       // Token deposits and claims are paid in
     }
     
     uint256 public currentPeriodId;
     mapping(uint256 => Period) public periods;
     mapping(uint256 => mapping(address => bool)) public hasClaimed;
+    mapping(address => bool) public allowedPayoutTokens;
+    mapping(address => uint256) public totalDepositedByToken;
+    mapping(address => uint256) public totalClaimedByToken;
     
     // ============ EVENTS ============
     event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
@@ -48,15 +98,45 @@ contract RENTDistribution is Ownable {
     event PeriodStarted(uint256 indexed periodId, uint64 startTime);
     event PeriodFinalized(uint256 indexed periodId, uint256 totalDeposited);
     event Deposited(uint256 indexed periodId, uint256 amount);
+    event DocumentAnchored(uint256 indexed periodId, bytes32 contentHash, string documentURI);
+    event PayoutTokenAllowed(address indexed token, bool allowed);
+    event PayoutTokenSet(uint256 indexed periodId, address indexed token);
     event Claimed(uint256 indexed periodId, address indexed holder, uint256 amount);
+    event ClaimedFor(uint256 indexed periodId, address indexed holder, address indexed recipient, uint256 amount);
+    event Distributed(uint256 indexed periodId, uint256 holderCount, uint256 totalAmount);
+    event ClaimWindowUpdated(uint64 claimWindow);
+    event ClaimDeadlineUpdated(uint256 indexed periodId, uint64 claimDeadline);
+    event UnclaimedSwept(
+        uint256 indexed periodId,
+        address indexed treasury,
+        uint256 amount,
+        uint256 totalDeposited,
+        uint256 totalClaimed
+    );
     
     // ============ ERRORS ============
     error ZeroAddress();
+    error NoActivePeriod();
+    error PeriodStillOpen();
     error PeriodNotFinalized();
+    error PeriodAlreadyFinalized();
     error AlreadyClaimed();
     error NoClaimable();
     error OnlyTreasury();
     error ContractRetired();
+    error InvalidRange();
+    error InvalidSignature();
+    error SignatureExpired();
+    error ClaimExpired();
+    error ClaimWindowOpen();
+    error NoClaimDeadline();
+    error InvalidClaimDeadline();
+    error InvalidClaimWindow();
+    error AlreadySwept();
+    error EmptyContentHash();
+    error PayoutTokenNotAllowed();
+    error PeriodHasDeposits();
+    error UnsupportedWeightToken();
     
     // ============ CONSTRUCTOR ============
     constructor(
@@ -64,13 +144,17 @@ contract RENTDistribution is Ownable {
         address _rentToken, 
         address _treasury, 
         address _owner
-    ) Ownable(_owner) {
+    ) Ownable(_owner) EIP712("RENTDistribution", "1") {
         if (_usdc == address(0) || _rentToken == address(0) || _treasury == address(0)) {
             revert ZeroAddress();
         }
+        if (!_supportsSnapshots(_rentToken)) {
+            revert UnsupportedWeightToken();
+        }
         usdc = IERC20(_usdc);
-        rentToken = IERC20(_rentToken);
+        rentToken = IRENTToken(_rentToken);
         treasury = _treasury;
+        allowedPayoutTokens[_usdc] = true;
         
         emit Deployed(VERSION, block.chainid, msg.sender, block.timestamp);
     }
@@ -107,73 +191,428 @@ contract RENTDistribution is Ownable {
         treasury = newTreasury;
     }
     
+    /**
+     * @notice Set the claim window applied to periods finalized from now on
+     * @dev Capped at MAX_CLAIM_WINDOW so the deadline computed at finalization cannot overflow
+     * @param newClaimWindow Seconds after finalization before claims expire (0 = never)
+     */
+    function setClaimWindow(uint64 newClaimWindow) external onlyOwner {
+        if (newClaimWindow > MAX_CLAIM_WINDOW) revert InvalidClaimWindow();
+        claimWindow = newClaimWindow;
+        emit ClaimWindowUpdated(newClaimWindow);
+    }
+    
+    /**
+     * @notice Extend the claim deadline of a finalized period
+     * @dev Deadlines can only be extended, never shortened; periods finalized
+     *      without a deadline never expire and cannot be given one
+     * @param periodId The period ID to update
+     * @param newDeadline New deadline (unix seconds UTC), must be later than the current one
+     */
+    function setClaimDeadline(uint256 periodId, uint64 newDeadline) external onlyOwner {
+        Period storage period = periods[periodId];
+        if (!period.finalized) revert PeriodNotFinalized();
+        if (period.swept) revert AlreadySwept();
+        if (period.claimDeadline == 0) revert NoClaimDeadline();
+        if (newDeadline <= block.timestamp || newDeadline < period.claimDeadline) revert InvalidClaimDeadline();
+        
+        period.claimDeadline = newDeadline;
+        emit ClaimDeadlineUpdated(periodId, newDeadline);
+    }
+    
     // ============ TREASURY FUNCTIONS ============
     
+    /**
+     * @notice Add or remove a token from the payout allowlist
+     * @dev Removing a token blocks new deposits in it; existing periods stay claimable
+     * @param token ERC-20 payout token (e.g. USDC, EURC, USDT)
+     * @param allowed Whether periods may pay out in this token
+     */
+    function setPayoutTokenAllowed(address token, bool allowed) external onlyTreasury {
+        if (token == address(0)) revert ZeroAddress();
+        allowedPayoutTokens[token] = allowed;
+        emit PayoutTokenAllowed(token, allowed);
+    }
+    
     /**
      * @notice Start a new distribution period
-     * @dev Only callable when contract is not retired
+     * @dev Only callable when contract is not retired and the current period is finalized.
+     *      Pays out in USDC unless changed with setPayoutToken() before the first deposit.
      */
     function startPeriod() external onlyTreasury notRetired {
+        if (currentPeriodId != 0 && !periods[currentPeriodId].finalized) revert PeriodStillOpen();
+        
         currentPeriodId++;
         periods[currentPeriodId].startTime = uint64(block.timestamp);
+        periods[currentPeriodId].payoutToken = address(usdc);
         emit PeriodStarted(currentPeriodId, uint64(block.timestamp));
     }
     
     /**
-     * @notice Deposit USDC for the current period
-     * @param amount Amount of USDC to deposit (6 decimals)
+     * @notice Choose the payout token of the current period
+     * @dev Only before the first deposit
+     * @param token Allowlisted payout token
+     */
+    function setPayoutToken(address token) external onlyTreasury {
+        Period storage period = _openPeriod();
+        if (!allowedPayoutTokens[token]) revert PayoutTokenNotAllowed();
+        if (period.totalDeposited != 0) revert PeriodHasDeposits();
+        
+        period.payoutToken = token;
+        emit PayoutTokenSet(currentPeriodId, token);
+    }
+    
+    /**
+     * @notice Deposit the payout token for the current period
+     * @param amount Amount to deposit, in the period's payout token units
      */
     function deposit(uint256 amount) external onlyTreasury notRetired {
-        usdc.safeTransferFrom(msg.sender, address(this), amount);
-        periods[currentPeriodId].totalDeposited += amount;
+        Period storage period = _openPeriod();
+        if (!allowedPayoutTokens[period.payoutToken]) revert PayoutTokenNotAllowed();
+        
+        IERC20(period.payoutToken).safeTransferFrom(msg.sender, address(this), amount);
+        period.totalDeposited += amount;
+        totalDepositedByToken[period.payoutToken] += amount;
         emit Deposited(currentPeriodId, amount);
     }
     
     /**
-     * @notice Finalize the current period, snapshot token supply
-     * @dev Can be called even after retire (to finalize last period)
+     * @notice Anchor the rent roll backing the current period
+     * @dev Can be replaced until the period is finalized, immutable afterwards
+     * @param contentHash sha256 of the document
+     * @param documentURI IPFS CID or URL of the document
+     */
+    function anchorDocument(bytes32 contentHash, string calldata documentURI) external onlyTreasury {
+        if (contentHash == bytes32(0)) revert EmptyContentHash();
+        Period storage period = _openPeriod();
+        
+        period.contentHash = contentHash;
+        period.documentURI = documentURI;
+        emit DocumentAnchored(currentPeriodId, contentHash, documentURI);
+    }
+    
+    /**
+     * @notice Finalize the current period, snapshot token balances and supply
+     * @dev Can be called even after retire (to finalize last period).
+     *      Snapshot is taken at the previous block so it is immediately queryable.
      */
     function finalizePeriod() external onlyTreasury {
-        Period storage period = periods[currentPeriodId];
+        Period storage period = _openPeriod();
+        uint256 snapshotBlock = block.number - 1;
         period.endTime = uint64(block.timestamp);
-        period.snapshotSupply = rentToken.totalSupply();
+        period.snapshotBlock = snapshotBlock;
+        period.snapshotSupply = rentToken.getPastTotalSupply(snapshotBlock);
         period.finalized = true;
+        if (claimWindow != 0) {
+            period.claimDeadline = uint64(block.timestamp) + claimWindow;
+        }
         emit PeriodFinalized(currentPeriodId, period.totalDeposited);
     }
     
+    /**
+     * @notice Return the unclaimed payout token of an expired period to treasury
+     * @dev Only after the claim deadline; sweeps totalDeposited - totalClaimed once.
+     *      Emits UnclaimedSwept for reconciliation tooling.
+     * @param periodId The period ID to sweep
+     */
+    function sweepUnclaimed(uint256 periodId) external onlyTreasury {
+        Period storage period = periods[periodId];
+        if (!period.finalized) revert PeriodNotFinalized();
+        if (period.swept) revert AlreadySwept();
+        if (period.claimDeadline == 0) revert NoClaimDeadline();
+        if (block.timestamp <= period.claimDeadline) revert ClaimWindowOpen();
+        
+        uint256 amount = period.totalDeposited - period.totalClaimed;
+        period.swept = true;
+        if (amount > 0) {
+            IERC20(period.payoutToken).safeTransfer(treasury, amount);
+        }
+        
+        emit UnclaimedSwept(periodId, treasury, amount, period.totalDeposited, period.totalClaimed);
+    }
+    
+    /**
+     * @notice Push claims for many holders of a finalized period (custodial wallets)
+     * @dev Skips holders that already claimed or have nothing claimable,
+     *      so a partially failed batch can safely be resubmitted.
+     * @param periodId The period ID to distribute
+     * @param holders Holders to pay, each receives its own claimable amount
+     */
+    function distributeTo(uint256 periodId, address[] calldata holders) external onlyTreasury {
+        Period storage period = periods[periodId];
+        if (!period.finalized) revert PeriodNotFinalized();
+        
+        IERC20 payoutToken = IERC20(period.payoutToken);
+        uint256 paidCount;
+        uint256 total;
+        for (uint256 i = 0; i < holders.length; i++) {
+            address holder = holders[i];
+            uint256 claimable = _claimable(holder, periodId);
+            if (claimable == 0) continue;
+            
+            hasClaimed[periodId][holder] = true;
+            period.totalClaimed += claimable;
+            paidCount++;
+            total += claimable;
+            payoutToken.safeTransfer(holder, claimable);
+            emit Claimed(periodId, holder, claimable);
+        }
+        totalClaimedByToken[address(payoutToken)] += total;
+        
+        emit Distributed(periodId, paidCount, total);
+    }
+    
     // ============ USER FUNCTIONS ============
     
     /**
-     * @notice Claim USDC from a finalized period
+     * @notice Claim the payout token from a finalized period
      * @dev Always available (even after retire) for historical periods
      * @param periodId The period ID to claim from
      */
     function claim(uint256 periodId) external {
-        Period storage period = periods[periodId];
-        if (!period.finalized) revert PeriodNotFinalized();
-        if (hasClaimed[periodId][msg.sender]) revert AlreadyClaimed();
+        _claim(periodId, msg.sender, msg.sender);
+    }
+    
+    /**
+     * @notice Claim on behalf of a holder using the holder's signature
+     * @dev Lets a relayer pay gas. The holder signs ClaimFor(holder, periodId, recipient, deadline)
+     *      under this contract's EIP-712 domain; ERC-1271 wallets are supported.
+     *      Replay is prevented by hasClaimed; the deadline bounds how long a
+     *      leaked or unused signature stays valid.
+     * @param holder Address of the RENT-SEN holder
+     * @param periodId The period ID to claim from
+     * @param recipient Address that receives the payout
+     * @param deadline Unix seconds UTC after which the signature is rejected
+     * @param signature Holder's signature over the ClaimFor struct
+     */
+    function claimFor(
+        address holder,
+        uint256 periodId,
+        address recipient,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (recipient == address(0)) revert ZeroAddress();
+        if (block.timestamp > deadline) revert SignatureExpired();
         
-        uint256 claimable = getClaimable(msg.sender, periodId);
-        if (claimable == 0) revert NoClaimable();
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(CLAIM_FOR_TYPEHASH, holder, periodId, recipient, deadline))
+        );
+        if (!_isValidSignature(holder, digest, signature)) revert InvalidSignature();
         
-        hasClaimed[periodId][msg.sender] = true;
-        period.totalClaimed += claimable;
-        usdc.safeTransfer(msg.sender, claimable);
-        emit Claimed(periodId, msg.sender, claimable);
+        uint256 claimable = _claim(periodId, holder, recipient);
+        emit ClaimedFor(periodId, holder, recipient, claimable);
+    }
+    
+    /**
+     * @notice Claim from several finalized periods in one transaction
+     * @dev Skips periods that are not finalized, already claimed or empty.
+     *      Reverts only if nothing at all is claimable. Pays one transfer per payout token.
+     * @param periodIds The period IDs to claim from
+     */
+    function claimMany(uint256[] calldata periodIds) external {
+        address[] memory tokens = new address[](periodIds.length);
+        uint256[] memory amounts = new uint256[](periodIds.length);
+        uint256 tokenCount;
+        for (uint256 i = 0; i < periodIds.length; i++) {
+            uint256 periodId = periodIds[i];
+            uint256 claimable = _claimable(msg.sender, periodId);
+            if (claimable == 0) continue;
+            
+            hasClaimed[periodId][msg.sender] = true;
+            periods[periodId].totalClaimed += claimable;
+            tokenCount = _accrue(tokens, amounts, tokenCount, periods[periodId].payoutToken, claimable);
+            emit Claimed(periodId, msg.sender, claimable);
+        }
+        if (tokenCount == 0) revert NoClaimable();
+        
+        for (uint256 i = 0; i < tokenCount; i++) {
+            totalClaimedByToken[tokens[i]] += amounts[i];
+            IERC20(tokens[i]).safeTransfer(msg.sender, amounts[i]);
+        }
     }
     
     // ============ VIEW FUNCTIONS ============
     
     /**
      * @notice Calculate claimable amount for a holder
+     * @dev Uses the holder's balance at the period snapshot, not the current balance
+     * @param holder Address of the RENT-SEN holder
+     * @param periodId The period ID to check
+     * @return token The period's payout token
+     * @return amount Amount claimable, in token units
+     */
+    function getClaimable(address holder, uint256 periodId) external view returns (address token, uint256 amount) {
+        token = periods[periodId].payoutToken;
+        amount = _claimable(holder, periodId);
+    }
+    
+    /**
+     * @notice Calculate claimable amounts for a holder over a period ID range
+     * @param holder Address of the RENT-SEN holder
+     * @param fromPeriodId First period ID (inclusive)
+     * @param toPeriodId Last period ID (inclusive)
+     * @return amounts Claimable amount per period, indexed from fromPeriodId
+     * @return total Sum of amounts (only meaningful if all periods share a payout token)
+     */
+    function getClaimableRange(
+        address holder,
+        uint256 fromPeriodId,
+        uint256 toPeriodId
+    ) external view returns (uint256[] memory amounts, uint256 total) {
+        if (fromPeriodId > toPeriodId) revert InvalidRange();
+        
+        amounts = new uint256[](toPeriodId - fromPeriodId + 1);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            amounts[i] = _claimable(holder, fromPeriodId + i);
+            total += amounts[i];
+        }
+    }
+    
+    /**
+     * @notice Calculate claimable amounts for a holder over a period ID range, per payout token
      * @param holder Address of the RENT-SEN holder
+     * @param fromPeriodId First period ID (inclusive)
+     * @param toPeriodId Last period ID (inclusive)
+     * @return tokens Payout tokens with a non-zero claimable amount
+     * @return amounts Claimable amount per token, aligned with tokens
+     */
+    function getClaimableByToken(
+        address holder,
+        uint256 fromPeriodId,
+        uint256 toPeriodId
+    ) external view returns (address[] memory tokens, uint256[] memory amounts) {
+        if (fromPeriodId > toPeriodId) revert InvalidRange();
+        
+        uint256 length = toPeriodId - fromPeriodId + 1;
+        address[] memory seen = new address[](length);
+        uint256[] memory totals = new uint256[](length);
+        uint256 tokenCount;
+        for (uint256 periodId = fromPeriodId; periodId <= toPeriodId; periodId++) {
+            uint256 claimable = _claimable(holder, periodId);
+            if (claimable == 0) continue;
+            tokenCount = _accrue(seen, totals, tokenCount, periods[periodId].payoutToken, claimable);
+        }
+        
+        tokens = new address[](tokenCount);
+        amounts = new uint256[](tokenCount);
+        for (uint256 i = 0; i < tokenCount; i++) {
+            tokens[i] = seen[i];
+            amounts[i] = totals[i];
+        }
+    }
+    
+    /**
+     * @notice Check whether claims for a period have expired
+     * @param periodId The period ID to check
+     */
+    function isExpired(uint256 periodId) public view returns (bool) {
+        uint64 deadline = periods[periodId].claimDeadline;
+        return deadline != 0 && block.timestamp > deadline;
+    }
+    
+    /**
+     * @notice Lifecycle state of a period
      * @param periodId The period ID to check
-     * @return Amount of USDC claimable (6 decimals)
      */
-    function getClaimable(address holder, uint256 periodId) public view returns (uint256) {
+    function periodState(uint256 periodId) external view returns (PeriodState) {
+        Period storage period = periods[periodId];
+        if (period.finalized) return PeriodState.FINALIZED;
+        if (period.startTime != 0) return PeriodState.OPEN;
+        return PeriodState.NONE;
+    }
+    
+    // ============ INTERNAL ============
+    
+    /**
+     * @notice Pay a holder's claimable amount for a period to recipient
+     */
+    function _claim(uint256 periodId, address holder, address recipient) internal returns (uint256 claimable) {
+        Period storage period = periods[periodId];
+        if (!period.finalized) revert PeriodNotFinalized();
+        if (hasClaimed[periodId][holder]) revert AlreadyClaimed();
+        if (isExpired(periodId)) revert ClaimExpired();
+        
+        claimable = _claimable(holder, periodId);
+        if (claimable == 0) revert NoClaimable();
+        
+        hasClaimed[periodId][holder] = true;
+        period.totalClaimed += claimable;
+        totalClaimedByToken[period.payoutToken] += claimable;
+        IERC20(period.payoutToken).safeTransfer(recipient, claimable);
+        emit Claimed(periodId, holder, claimable);
+    }
+    
+    /**
+     * @notice Claimable amount for a holder, in the period's payout token units
+     */
+    function _claimable(address holder, uint256 periodId) internal view returns (uint256) {
         Period storage period = periods[periodId];
         if (!period.finalized || period.snapshotSupply == 0) return 0;
-        if (hasClaimed[periodId][holder]) return 0;
-        return (period.totalDeposited * rentToken.balanceOf(holder)) / period.snapshotSupply;
+        if (hasClaimed[periodId][holder] || isExpired(periodId)) return 0;
+        uint256 balance = rentToken.getPastBalance(holder, period.snapshotBlock);
+        return (period.totalDeposited * balance) / period.snapshotSupply;
+    }
+    
+    /**
+     * @notice Add amount to token's running total in parallel memory arrays
+     * @return New number of distinct tokens
+     */
+    function _accrue(
+        address[] memory tokens,
+        uint256[] memory amounts,
+        uint256 tokenCount,
+        address token,
+        uint256 amount
+    ) internal pure returns (uint256) {
+        for (uint256 i = 0; i < tokenCount; i++) {
+            if (tokens[i] == token) {
+                amounts[i] += amount;
+                return tokenCount;
+            }
+        }
+        tokens[tokenCount] = token;
+        amounts[tokenCount] = amount;
+        return tokenCount + 1;
+    }
+    
+    /**
+     * @notice Verify an ECDSA signature, or an ERC-1271 signature for contract wallets
+     */
+    function _isValidSignature(address signer, bytes32 digest, bytes calldata signature) internal view returns (bool) {
+        if (signer.code.length == 0) {
+            (address recovered, ECDSA.RecoverError err, ) = ECDSA.tryRecover(digest, signature);
+            return err == ECDSA.RecoverError.NoError && recovered == signer;
+        }
+        try IERC1271(signer).isValidSignature(digest, signature) returns (bytes4 magicValue) {
+            return magicValue == IERC1271.isValidSignature.selector;
+        } catch {
+            return false;
+        }
+    }
+    
+    /**
+     * @notice Probe a weight token for getPastBalance and getPastTotalSupply
+     * @dev Plain ERC20s (or an SSFShareToken before 2.0) would revert at finalizePeriod
+     */
+    function _supportsSnapshots(address token) internal view returns (bool) {
+        uint256 timepoint = block.number - 1;
+        (bool ok, bytes memory data) = token.staticcall(
+            abi.encodeCall(IRENTToken.getPastTotalSupply, (timepoint))
+        );
+        if (!ok || data.length < 32) return false;
+        (ok, data) = token.staticcall(
+            abi.encodeCall(IRENTToken.getPastBalance, (address(0), timepoint))
+        );
+        return ok && data.length >= 32;
+    }
+    
+    /**
+     * @notice Return the current period, reverting unless it is OPEN
+     */
+    function _openPeriod() internal view returns (Period storage period) {
+        if (currentPeriodId == 0) revert NoActivePeriod();
+        period = periods[currentPeriodId];
+        if (period.finalized) revert PeriodAlreadyFinalized();
     }
 }
@@ -0,0 +1,319 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title RENTMerkleDistribution
+ * @notice Merkle-claim variant of RENTDistribution for off-chain computed entitlements
+ * @dev Treasury deposits USDC, then finalizes each period with a Merkle root of
+ *      (holder, amount) entitlements computed off-chain (exclusions, pro-rating by
+ *      days held, withheld wallets). Holders claim with a proof.
+ *
+ * PERIOD LIFECYCLE: startPeriod -> deposit -> finalizePeriod
+ *   - Deposits only into the open current period
+ *   - A new period can only start once the current one is finalized
+ *   - Withheld amounts (totalDeposited - merkleTotal) return to treasury at finalization
+ *   - With a claim window set, unclaimed entitlements return via sweepUnclaimed()
+ *   - Claims never exceed merkleTotal, so a bad root cannot drain other periods
+ *
+ * LEAF FORMAT: keccak256(bytes.concat(keccak256(abi.encode(holder, amount))))
+ *   - Matches OpenZeppelin merkle-tree StandardMerkleTree(["address", "uint256"])
+ *   - See scripts/build-rent-merkle.ts
+ *
+ * IMMUTABLE CONTRACT - No proxy upgradeability.
+ * Future iterations via versioned deployments (V1/V2/...).
+ * Old versions remain readable/claimable but disabled for new deposits.
+ */
+contract RENTMerkleDistribution is Ownable {
+    using SafeERC20 for IERC20;
+
+    // ============ VERSION ============
+    string public constant VERSION = "RENTMerkleDistribution@1.1.2";
+
+    // ============ CONSTANTS ============
+    uint64 public constant MAX_CLAIM_WINDOW = 10 * 365 days;
+
+    // ============ IMMUTABLES ============
+    IERC20 public immutable usdc;
+
+    // ============ STATE ============
+    address public treasury;
+    bool public acceptingDeposits = true;  // Retire mechanism
+    uint64 public claimWindow;             // Seconds after finalization before claims expire (0 = never)
+
+    struct Period {
+        uint256 totalDeposited;
+        uint256 totalClaimed;
+        bytes32 merkleRoot;        // Root of (holder, amount) entitlements
+        uint256 merkleTotal;       // Sum of all amounts in the tree
+        uint64 startTime;
+        uint64 endTime;
+        bool finalized;
+        uint64 claimDeadline;      // 0 = claims never expire
+        bool swept;                // Unclaimed remainder returned to treasury
+    }
+
+    uint256 public currentPeriodId;
+    mapping(uint256 => Period) public periods;
+    mapping(uint256 => mapping(address => bool)) public hasClaimed;
+
+    // ============ EVENTS ============
+    event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
+    event Retired(uint256 timestamp);
+    event TreasuryUpdated(address oldTreasury, address newTreasury);
+    event PeriodStarted(uint256 indexed periodId, uint64 startTime);
+    event PeriodFinalized(uint256 indexed periodId, uint256 totalDeposited, bytes32 merkleRoot, uint256 merkleTotal);
+    event Deposited(uint256 indexed periodId, uint256 amount);
+    event Claimed(uint256 indexed periodId, address indexed holder, uint256 amount);
+    event WithheldReturned(uint256 indexed periodId, address indexed treasury, uint256 amount);
+    event ClaimWindowUpdated(uint64 claimWindow);
+    event ClaimDeadlineUpdated(uint256 indexed periodId, uint64 claimDeadline);
+    event UnclaimedSwept(
+        uint256 indexed periodId,
+        address indexed treasury,
+        uint256 amount,
+        uint256 merkleTotal,
+        uint256 totalClaimed
+    );
+
+    // ============ ERRORS ============
+    error ZeroAddress();
+    error ZeroRoot();
+    error NoActivePeriod();
+    error PeriodStillOpen();
+    error PeriodNotFinalized();
+    error PeriodAlreadyFinalized();
+    error MerkleTotalExceedsDeposits();
+    error AlreadyClaimed();
+    error NoClaimable();
+    error ExceedsMerkleTotal();
+    error InvalidProof();
+    error OnlyTreasury();
+    error ContractRetired();
+    error ClaimExpired();
+    error ClaimWindowOpen();
+    error NoClaimDeadline();
+    error InvalidClaimDeadline();
+    error InvalidClaimWindow();
+    error AlreadySwept();
+
+    // ============ CONSTRUCTOR ============
+    constructor(
+        address _usdc,
+        address _treasury,
+        address _owner
+    ) Ownable(_owner) {
+        if (_usdc == address(0) || _treasury == address(0)) {
+            revert ZeroAddress();
+        }
+        usdc = IERC20(_usdc);
+        treasury = _treasury;
+
+        emit Deployed(VERSION, block.chainid, msg.sender, block.timestamp);
+    }
+
+    // ============ MODIFIERS ============
+    modifier onlyTreasury() {
+        if (msg.sender != treasury) revert OnlyTreasury();
+        _;
+    }
+
+    modifier notRetired() {
+        if (!acceptingDeposits) revert ContractRetired();
+        _;
+    }
+
+    // ============ ADMIN FUNCTIONS ============
+
+    /**
+     * @notice Retire this contract version - no new periods/deposits allowed
+     * @dev Call this before migrating to a new version
+     */
+    function retire() external onlyOwner {
+        acceptingDeposits = false;
+        emit Retired(block.timestamp);
+    }
+
+    /**
+     * @notice Update treasury address
+     * @param newTreasury New treasury address
+     */
+    function setTreasury(address newTreasury) external onlyOwner {
+        if (newTreasury == address(0)) revert ZeroAddress();
+        emit TreasuryUpdated(treasury, newTreasury);
+        treasury = newTreasury;
+    }
+
+    /**
+     * @notice Set the claim window applied to periods finalized from now on
+     * @dev Capped at MAX_CLAIM_WINDOW so the deadline computed at finalization cannot overflow
+     * @param newClaimWindow Seconds after finalization before claims expire (0 = never)
+     */
+    function setClaimWindow(uint64 newClaimWindow) external onlyOwner {
+        if (newClaimWindow > MAX_CLAIM_WINDOW) revert InvalidClaimWindow();
+        claimWindow = newClaimWindow;
+        emit ClaimWindowUpdated(newClaimWindow);
+    }
+
+    /**
+     * @notice Extend the claim deadline of a finalized period
+     * @dev Deadlines can only be extended, never shortened; periods without a
+     *      deadline never expire and cannot be given one
+     * @param periodId The period ID to update
+     * @param newDeadline New deadline (unix seconds UTC), must be later than the current one
+     */
+    function setClaimDeadline(uint256 periodId, uint64 newDeadline) external onlyOwner {
+        Period storage period = periods[periodId];
+        if (!period.finalized) revert PeriodNotFinalized();
+        if (period.swept) revert AlreadySwept();
+        if (period.claimDeadline == 0) revert NoClaimDeadline();
+        if (newDeadline <= block.timestamp || newDeadline < period.claimDeadline) revert InvalidClaimDeadline();
+
+        period.claimDeadline = newDeadline;
+        emit ClaimDeadlineUpdated(periodId, newDeadline);
+    }
+
+    // ============ TREASURY FUNCTIONS ============
+
+    /**
+     * @notice Start a new distribution period
+     * @dev Only callable when contract is not retired and the current period is finalized
+     */
+    function startPeriod() external onlyTreasury notRetired {
+        if (currentPeriodId != 0 && !periods[currentPeriodId].finalized) revert PeriodStillOpen();
+
+        currentPeriodId++;
+        periods[currentPeriodId].startTime = uint64(block.timestamp);
+        emit PeriodStarted(currentPeriodId, uint64(block.timestamp));
+    }
+
+    /**
+     * @notice Deposit USDC for the current period
+     * @param amount Amount of USDC to deposit (6 decimals)
+     */
+    function deposit(uint256 amount) external onlyTreasury notRetired {
+        Period storage period = _openPeriod();
+
+        usdc.safeTransferFrom(msg.sender, address(this), amount);
+        period.totalDeposited += amount;
+        emit Deposited(currentPeriodId, amount);
+    }
+
+    /**
+     * @notice Finalize the current period with an off-chain computed entitlement tree
+     * @dev Can be called even after retire (to finalize last period).
+     *      merkleTotal may be below totalDeposited; the withheld difference is
+     *      returned to treasury.
+     * @param merkleRoot Root of the (holder, amount) tree
+     * @param merkleTotal Sum of all amounts in the tree (6 decimals)
+     */
+    function finalizePeriod(bytes32 merkleRoot, uint256 merkleTotal) external onlyTreasury {
+        Period storage period = _openPeriod();
+        if (merkleRoot == bytes32(0)) revert ZeroRoot();
+        if (merkleTotal > period.totalDeposited) revert MerkleTotalExceedsDeposits();
+
+        period.endTime = uint64(block.timestamp);
+        period.merkleRoot = merkleRoot;
+        period.merkleTotal = merkleTotal;
+        period.finalized = true;
+        if (claimWindow != 0) {
+            period.claimDeadline = uint64(block.timestamp) + claimWindow;
+        }
+        emit PeriodFinalized(currentPeriodId, period.totalDeposited, merkleRoot, merkleTotal);
+
+        uint256 withheld = period.totalDeposited - merkleTotal;
+        if (withheld > 0) {
+            usdc.safeTransfer(treasury, withheld);
+            emit WithheldReturned(currentPeriodId, treasury, withheld);
+        }
+    }
+
+    /**
+     * @notice Return the unclaimed entitlements of an expired period to treasury
+     * @dev Only after the claim deadline; sweeps merkleTotal - totalClaimed once.
+     *      Emits UnclaimedSwept for reconciliation tooling.
+     * @param periodId The period ID to sweep
+     */
+    function sweepUnclaimed(uint256 periodId) external onlyTreasury {
+        Period storage period = periods[periodId];
+        if (!period.finalized) revert PeriodNotFinalized();
+        if (period.swept) revert AlreadySwept();
+        if (period.claimDeadline == 0) revert NoClaimDeadline();
+        if (block.timestamp <= period.claimDeadline) revert ClaimWindowOpen();
+
+        uint256 amount = period.merkleTotal - period.totalClaimed;
+        period.swept = true;
+        if (amount > 0) {
+            usdc.safeTransfer(treasury, amount);
+        }
+
+        emit UnclaimedSwept(periodId, treasury, amount, period.merkleTotal, period.totalClaimed);
+    }
+
+    // ============ USER FUNCTIONS ============
+
+    /**
+     * @notice Claim USDC from a finalized period
+     * @dev Always available (even after retire) for historical periods
+     * @param periodId The period ID to claim from
+     * @param amount Entitlement amount encoded in the leaf (6 decimals)
+     * @param proof Merkle proof for (msg.sender, amount)
+     */
+    function claim(uint256 periodId, uint256 amount, bytes32[] calldata proof) external {
+        Period storage period = periods[periodId];
+        if (!period.finalized) revert PeriodNotFinalized();
+        if (isExpired(periodId)) revert ClaimExpired();
+        if (hasClaimed[periodId][msg.sender]) revert AlreadyClaimed();
+        if (amount == 0) revert NoClaimable();
+        if (!verifyClaim(periodId, msg.sender, amount, proof)) revert InvalidProof();
+        if (period.totalClaimed + amount > period.merkleTotal) revert ExceedsMerkleTotal();
+
+        hasClaimed[periodId][msg.sender] = true;
+        period.totalClaimed += amount;
+        usdc.safeTransfer(msg.sender, amount);
+        emit Claimed(periodId, msg.sender, amount);
+    }
+
+    // ============ VIEW FUNCTIONS ============
+
+    /**
+     * @notice Check whether claims for a period have expired
+     * @param periodId The period ID to check
+     */
+    function isExpired(uint256 periodId) public view returns (bool) {
+        uint64 deadline = periods[periodId].claimDeadline;
+        return deadline != 0 && block.timestamp > deadline;
+    }
+
+    /**
+     * @notice Check a (holder, amount) entitlement against a period's root
+     * @param periodId The period ID to check
+     * @param holder Address of the entitled holder
+     * @param amount Entitlement amount (6 decimals)
+     * @param proof Merkle proof for the leaf
+     */
+    function verifyClaim(
+        uint256 periodId,
+        address holder,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) public view returns (bool) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(holder, amount))));
+        return MerkleProof.verifyCalldata(proof, periods[periodId].merkleRoot, leaf);
+    }
+
+    // ============ INTERNAL FUNCTIONS ============
+
+    /**
+     * @notice Return the current period, reverting unless it is open
+     */
+    function _openPeriod() internal view returns (Period storage period) {
+        if (currentPeriodId == 0) revert NoActivePeriod();
+        period = periods[currentPeriodId];
+        if (period.finalized) revert PeriodAlreadyFinalized();
+    }
+}
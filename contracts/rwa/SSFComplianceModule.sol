@@ -0,0 +1,232 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+interface ISSFIdentityRegistry {
+    function isVerified(address wallet) external view returns (bool);
+    function investorCountry(address wallet) external view returns (uint16);
+}
+
+interface ISSFShareToken {
+    function balanceOf(address account) external view returns (uint256);
+}
+
+/**
+ * @title SSFComplianceModule
+ * @notice Transfer rules for SSFShareToken (ERC-3643 style compliance)
+ * @dev SSFShareToken consults detectTransferRestriction() before every mint,
+ *      transfer and burn, reverts with TransferRestricted(code) on a non-zero
+ *      code, and reports completed balance changes back via transferred().
+ * 
+ * RULES:
+ *   - Sender and recipient must be verified in the identity registry
+ *     (recipient only for mints, sender only for burns)
+ *   - Recipient's country must be on the allowed list
+ *   - Holder count may not exceed maxHolders (0 = no limit)
+ *   - Holder-to-holder transfers are locked until lockupUntil (mints and
+ *     burns are not: the sale and vault keep working during the lockup)
+ *   - Escrow agents (e.g. SSFReserveVault's redemption queue) need no identity,
+ *     are exempt from the lockup and do not count as holders; the holder on the
+ *     other side of the move is still checked
+ * 
+ * REASON CODES (ERC-1404 style):
+ *   0 SUCCESS, 1 SENDER_NOT_VERIFIED, 2 RECIPIENT_NOT_VERIFIED,
+ *   3 COUNTRY_NOT_ALLOWED, 4 MAX_HOLDERS_EXCEEDED, 5 LOCKUP_ACTIVE
+ * 
+ * Holder counting starts from zero: attach the module before the first mint.
+ * 
+ * IMMUTABLE CONTRACT - No proxy upgradeability.
+ * Future iterations via versioned deployments (V1/V2/...).
+ */
+contract SSFComplianceModule is Ownable {
+    // ============ VERSION ============
+    string public constant VERSION = "SSFComplianceModule@1.1.0";
+    
+    // ============ REASON CODES ============
+    uint8 public constant SUCCESS = 0;
+    uint8 public constant SENDER_NOT_VERIFIED = 1;
+    uint8 public constant RECIPIENT_NOT_VERIFIED = 2;
+    uint8 public constant COUNTRY_NOT_ALLOWED = 3;
+    uint8 public constant MAX_HOLDERS_EXCEEDED = 4;
+    uint8 public constant LOCKUP_ACTIVE = 5;
+    
+    // ============ IMMUTABLES ============
+    ISSFShareToken public immutable token;
+    ISSFIdentityRegistry public immutable identityRegistry;
+    
+    // ============ STATE ============
+    mapping(uint16 => bool) public allowedCountries;
+    uint256 public maxHolders;             // 0 = no limit
+    uint256 public holderCount;
+    uint64 public lockupUntil;             // Unix seconds UTC, 0 = no lockup
+    mapping(address => bool) public escrowAgents;
+    
+    // ============ EVENTS ============
+    event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
+    event CountryAllowed(uint16 indexed country, bool allowed);
+    event MaxHoldersUpdated(uint256 maxHolders);
+    event LockupUpdated(uint64 lockupUntil);
+    event EscrowAgentUpdated(address indexed agent, bool isAgent);
+    
+    // ============ ERRORS ============
+    error ZeroAddress();
+    error OnlyToken();
+    
+    // ============ CONSTRUCTOR ============
+    constructor(
+        address _token,
+        address _identityRegistry,
+        address _owner
+    ) Ownable(_owner) {
+        if (_token == address(0) || _identityRegistry == address(0)) {
+            revert ZeroAddress();
+        }
+        
+        token = ISSFShareToken(_token);
+        identityRegistry = ISSFIdentityRegistry(_identityRegistry);
+        
+        emit Deployed(VERSION, block.chainid, msg.sender, block.timestamp);
+    }
+    
+    // ============ MODIFIERS ============
+    
+    modifier onlyToken() {
+        if (msg.sender != address(token)) {
+            revert OnlyToken();
+        }
+        _;
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Check a balance change against all rules
+     * @param from Sender (address(0) for mints)
+     * @param to Recipient (address(0) for burns)
+     * @param value Shares moved
+     * @return Reason code, SUCCESS (0) if allowed
+     */
+    function detectTransferRestriction(address from, address to, uint256 value) public view returns (uint8) {
+        bool fromAgent = escrowAgents[from];
+        bool toAgent = escrowAgents[to];
+        
+        if (from != address(0) && !fromAgent && !identityRegistry.isVerified(from)) {
+            return SENDER_NOT_VERIFIED;
+        }
+        
+        if (to != address(0) && !toAgent) {
+            if (!identityRegistry.isVerified(to)) {
+                return RECIPIENT_NOT_VERIFIED;
+            }
+            if (!allowedCountries[identityRegistry.investorCountry(to)]) {
+                return COUNTRY_NOT_ALLOWED;
+            }
+        }
+        
+        if (_isHolder(from) && _isHolder(to) && block.timestamp < lockupUntil) {
+            return LOCKUP_ACTIVE;
+        }
+        
+        if (maxHolders != 0 && _holderCountAfter(from, to, value) > maxHolders) {
+            return MAX_HOLDERS_EXCEEDED;
+        }
+        
+        return SUCCESS;
+    }
+    
+    /**
+     * @notice Whether a balance change is allowed
+     */
+    function canTransfer(address from, address to, uint256 value) external view returns (bool) {
+        return detectTransferRestriction(from, to, value) == SUCCESS;
+    }
+    
+    // ============ TOKEN HOOKS ============
+    
+    /**
+     * @notice Update holder count after a completed balance change
+     * @dev Called by the token after balances are updated
+     */
+    function transferred(address from, address to, uint256 value) external onlyToken {
+        if (value == 0 || from == to) return;
+        
+        if (_isHolder(to) && token.balanceOf(to) == value) {
+            holderCount++;
+        }
+        if (_isHolder(from) && token.balanceOf(from) == 0) {
+            holderCount--;
+        }
+    }
+    
+    // ============ ADMIN FUNCTIONS ============
+    
+    /**
+     * @notice Allow or disallow recipients from the given countries
+     * @param countries ISO-3166-1 numeric country codes
+     * @param allowed Whether to allow (true) or block (false)
+     */
+    function setAllowedCountries(uint16[] calldata countries, bool allowed) external onlyOwner {
+        for (uint256 i = 0; i < countries.length; i++) {
+            allowedCountries[countries[i]] = allowed;
+            emit CountryAllowed(countries[i], allowed);
+        }
+    }
+    
+    /**
+     * @notice Set the maximum number of holders (e.g. 2,000 for Reg D 12(g))
+     * @param _maxHolders New limit, 0 = no limit
+     */
+    function setMaxHolders(uint256 _maxHolders) external onlyOwner {
+        maxHolders = _maxHolders;
+        emit MaxHoldersUpdated(_maxHolders);
+    }
+    
+    /**
+     * @notice Lock holder-to-holder transfers until a date (e.g. Reg D / Reg S holding period)
+     * @param _lockupUntil Unix seconds UTC, 0 = no lockup
+     */
+    function setLockupUntil(uint64 _lockupUntil) external onlyOwner {
+        lockupUntil = _lockupUntil;
+        emit LockupUpdated(_lockupUntil);
+    }
+    
+    /**
+     * @notice Mark a contract that holds shares on holders' behalf (e.g. SSFReserveVault)
+     * @dev Set before the agent holds shares so the holder count stays exact
+     * @param agent Escrow contract address
+     * @param isAgent Whether the agent is exempt
+     */
+    function setEscrowAgent(address agent, bool isAgent) external onlyOwner {
+        if (agent == address(0)) {
+            revert ZeroAddress();
+        }
+        escrowAgents[agent] = isAgent;
+        emit EscrowAgentUpdated(agent, isAgent);
+    }
+    
+    // ============ INTERNAL ============
+    
+    /**
+     * @notice Holder count if `value` moved from `from` to `to`
+     */
+    function _holderCountAfter(address from, address to, uint256 value) internal view returns (uint256) {
+        uint256 count = holderCount;
+        if (value == 0 || from == to) return count;
+        
+        if (_isHolder(to) && token.balanceOf(to) == 0) {
+            count++;
+        }
+        if (_isHolder(from) && token.balanceOf(from) == value && count > 0) {
+            count--;
+        }
+        return count;
+    }
+    
+    /**
+     * @notice Whether a wallet counts as an investor (not mint/burn, not an escrow agent)
+     */
+    function _isHolder(address wallet) internal view returns (bool) {
+        return wallet != address(0) && !escrowAgents[wallet];
+    }
+}
@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+
+/**
+ * @title SSFIdentityRegistry
+ * @notice Registry of KYC'd wallets and their jurisdiction (ERC-3643 style)
+ * @dev The compliance backend registers a wallet once an investor passes KYC/AML.
+ *      Country is the ISO-3166-1 numeric code (e.g. 840 = US, 826 = GB), which
+ *      SSFComplianceModule checks against its allowed-country list.
+ * 
+ * No personal data is stored on-chain: only wallet -> country.
+ * 
+ * IMMUTABLE CONTRACT - No proxy upgradeability.
+ * Future iterations via versioned deployments (V1/V2/...).
+ */
+contract SSFIdentityRegistry is AccessControl {
+    // ============ VERSION ============
+    string public constant VERSION = "SSFIdentityRegistry@1.0.0";
+    
+    // ============ ROLES ============
+    bytes32 public constant REGISTRAR_ROLE = keccak256("REGISTRAR_ROLE");
+    
+    // ============ STATE ============
+    mapping(address => bool) public isVerified;
+    mapping(address => uint16) public investorCountry;
+    uint256 public verifiedCount;
+    
+    // ============ EVENTS ============
+    event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
+    event IdentityRegistered(address indexed wallet, uint16 country);
+    event CountryUpdated(address indexed wallet, uint16 country);
+    event IdentityRemoved(address indexed wallet);
+    
+    // ============ ERRORS ============
+    error ZeroAddress();
+    error InvalidCountry();
+    error AlreadyRegistered(address wallet);
+    error NotRegistered(address wallet);
+    
+    // ============ CONSTRUCTOR ============
+    constructor(address admin) {
+        if (admin == address(0)) {
+            revert ZeroAddress();
+        }
+        
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        
+        emit Deployed(VERSION, block.chainid, msg.sender, block.timestamp);
+    }
+    
+    // ============ REGISTRAR FUNCTIONS ============
+    
+    /**
+     * @notice Register KYC'd wallets
+     * @param wallets Wallets that passed KYC/AML
+     * @param countries ISO-3166-1 numeric country code per wallet
+     */
+    function registerIdentities(
+        address[] calldata wallets,
+        uint16[] calldata countries
+    ) external onlyRole(REGISTRAR_ROLE) {
+        require(wallets.length == countries.length, "SSFIdentityRegistry: length mismatch");
+        
+        for (uint256 i = 0; i < wallets.length; i++) {
+            address wallet = wallets[i];
+            if (wallet == address(0)) {
+                revert ZeroAddress();
+            }
+            if (countries[i] == 0) {
+                revert InvalidCountry();
+            }
+            if (isVerified[wallet]) {
+                revert AlreadyRegistered(wallet);
+            }
+            
+            isVerified[wallet] = true;
+            investorCountry[wallet] = countries[i];
+            verifiedCount++;
+            
+            emit IdentityRegistered(wallet, countries[i]);
+        }
+    }
+    
+    /**
+     * @notice Update a verified wallet's jurisdiction (e.g. investor relocated)
+     * @param wallet Registered wallet
+     * @param country New ISO-3166-1 numeric country code
+     */
+    function updateCountry(address wallet, uint16 country) external onlyRole(REGISTRAR_ROLE) {
+        if (!isVerified[wallet]) {
+            revert NotRegistered(wallet);
+        }
+        if (country == 0) {
+            revert InvalidCountry();
+        }
+        
+        investorCountry[wallet] = country;
+        
+        emit CountryUpdated(wallet, country);
+    }
+    
+    /**
+     * @notice Remove a wallet (KYC expired or revoked)
+     * @dev The wallet keeps its shares but can no longer send or receive them
+     * @param wallet Registered wallet
+     */
+    function removeIdentity(address wallet) external onlyRole(REGISTRAR_ROLE) {
+        if (!isVerified[wallet]) {
+            revert NotRegistered(wallet);
+        }
+        
+        isVerified[wallet] = false;
+        delete investorCountry[wallet];
+        verifiedCount--;
+        
+        emit IdentityRemoved(wallet);
+    }
+}
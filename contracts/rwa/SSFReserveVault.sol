@@ -3,13 +3,17 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 
-interface ISSFShareToken {
-    function totalSupply() external view returns (uint256);
+interface ISSFShareToken is IERC20 {
     function burnFrom(address from, uint256 shares) external;
+    function frozen(address wallet) external view returns (bool);
+    function recoveredTo(address wallet) external view returns (address);
+    function lastAcquiredAt(address wallet) external view returns (uint64);
 }
 
 /**
@@ -21,9 +25,56 @@ interface ISSFShareToken {
  * 
  * Features:
  *   - redeem(shares): Burn tokens, receive floor price in USDC
- *   - sweepExcess(): Owner can withdraw USDC above required reserve
+ *   - redeemWithPermit(): same, authorized by the holder's SSFShareToken permit
+ *     so a relayer can submit it; shares are pulled into the vault and burned
+ *   - proposeSweep() / executeSweep(): Owner can withdraw USDC above required
+ *     reserve after a public delay, capped per period
+ *   - attestReserve(): Anyone can emit a proof-of-reserve snapshot for monitoring
  *   - Rate limiting: Max redemptions per window to prevent bank runs
  * 
+ * PER-WALLET LIMITS (optional, 0 = off):
+ *   - maxRedeemPerWalletPerWindow: shares one wallet may redeem or queue per
+ *     rate-limit window, so a single holder cannot use up the global window
+ *   - holdingPeriod: seconds since the wallet's newest shares were minted
+ *     (shareToken.lastAcquiredAt, carried across transfers) before it may redeem
+ *     or queue, so passing shares to a fresh wallet does not skip it
+ *   - Both apply to redeem() and requestRedeem(); cancelling a request does not
+ *     give the wallet capacity back. Neither applies during wind-down.
+ * 
+ * REDEMPTION QUEUE (FIFO):
+ *   - requestRedeem(shares): escrow shares in the vault (requires share approval)
+ *   - processQueue(n): anyone pays up to n requests in order, partially filling
+ *     the head request when window capacity or reserve runs out
+ *   - cancelRedeem(id): return the unfilled escrowed shares
+ *   - While requests are queued, redeem() reverts so nobody jumps the queue
+ *   - A holder frozen after queueing is not paid: if recoverWallet() moved them
+ *     to a replacement, the USDC goes to the replacement; otherwise the request
+ *     is taken out of the queue and its shares held (RedeemRequestHeld) until
+ *     releaseHeldShares() can return them to the unfrozen or recovered wallet
+ *   - With a compliance module attached, register the vault with
+ *     SSFComplianceModule.setEscrowAgent() so escrow works during a lockup
+ *     and the vault does not count as a holder
+ *   - Register it with SSFShareToken.setEscrowAgent() too, so escrowed shares
+ *     carry no votes
+ * 
+ * WIND-DOWN (underfunded reserve):
+ *   - startWindDown(): owner-triggered, irreversible
+ *   - Floor price no longer applies: every redemption pays reserve / totalSupply
+ *     per share, so early and late redeemers are treated equally
+ *   - Rate limit and queue ordering no longer apply; sweeps are disabled
+ * 
+ * TIMELOCKED SWEEPS:
+ *   - proposeSweep(amount) announces a sweep (SweepProposed); executeSweep() pays
+ *     it to treasury no earlier than sweepDelay later (minimum MIN_SWEEP_DELAY)
+ *   - One pending sweep at a time; cancelSweep() withdraws it
+ *   - maxSweepPerPeriod caps executed sweeps per sweepPeriod (0 = no cap)
+ *   - setSweepPolicy() tightens immediately; a shorter delay or a higher / removed
+ *     cap is queued behind the current sweepDelay (SweepPolicyProposed)
+ *   - Excess is re-checked at execution: redemptions in the meantime take priority
+ * 
+ * PROOF OF RESERVE: attestReserve() emits ReserveAttested(balance, required,
+ * coverageBps, totalSupply); executeSweep() emits one after every sweep.
+ * 
  * IMMUTABLE CONTRACT - No proxy upgradeability.
  * Future iterations via versioned deployments (V1/V2/...).
  */
@@ -31,11 +82,12 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
     using SafeERC20 for IERC20;
 
     // ============ VERSION ============
-    string public constant VERSION = "SSFReserveVault@1.0.0";
+    string public constant VERSION = "SSFReserveVault@1.7.0";
     
     // ============ FROZEN PARAMETERS ============
     uint256 public constant FLOOR_BPS = 5_000; // 50% of issue price
     uint256 public constant ISSUE_PRICE = 1_000_000_000; // 1,000 USDC (6 decimals)
+    uint256 public constant MIN_SWEEP_DELAY = 1 days;
     
     // ============ IMMUTABLES ============
     IERC20 public immutable usdc;
@@ -48,11 +100,66 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
     uint256 public maxRedeemPerWindow;
     uint256 public redeemedThisWindow;
     
+    // ============ PER-WALLET LIMIT STATE ============
+    uint256 public maxRedeemPerWalletPerWindow; // 0 = no per-wallet limit
+    uint256 public holdingPeriod;          // Seconds after last acquisition, 0 = none
+    mapping(address => uint256) public walletWindowStart;
+    mapping(address => uint256) public walletRedeemedThisWindow;
+    
+    // ============ QUEUE STATE ============
+    struct RedemptionRequest {
+        address holder;
+        uint256 shares;                    // Unfilled shares still escrowed
+        uint64 requestedAt;
+    }
+    
+    RedemptionRequest[] public redemptionQueue;
+    uint256 public queueHead;              // First request not yet fully filled or cancelled
+    uint256 public queuedShares;           // Sum of unfilled shares across open requests
+    mapping(address => uint256) public heldShares; // Escrow taken out of the queue for frozen holders
+    
+    // ============ WIND-DOWN STATE ============
+    bool public windDown;
+    
+    // ============ SWEEP STATE ============
+    struct PendingSweep {
+        uint256 amount;                    // 0 = none pending
+        uint64 executableAt;
+    }
+    
+    struct PendingSweepPolicy {
+        uint256 sweepDelay;
+        uint256 maxSweepPerPeriod;
+        uint256 sweepPeriod;
+        uint64 effectiveAt;                // 0 = none queued
+    }
+    
+    PendingSweep public pendingSweep;
+    PendingSweepPolicy public pendingSweepPolicy;
+    uint256 public sweepDelay = 2 days;
+    uint256 public maxSweepPerPeriod;      // 0 = no cap
+    uint256 public sweepPeriod = 30 days;
+    uint256 public sweepPeriodStart;
+    uint256 public sweptThisPeriod;
+    uint256 public lastAttestedAt;
+    
     // ============ EVENTS ============
     event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
     event Redeemed(address indexed holder, uint256 shares, uint256 usdcPayout);
     event ExcessSwept(address indexed to, uint256 amount);
     event RateLimitUpdated(uint256 maxRedeemPerWindow, uint256 windowDuration);
+    event RedeemRequested(uint256 indexed requestId, address indexed holder, uint256 shares);
+    event RedeemRequestFilled(uint256 indexed requestId, address indexed holder, uint256 shares, uint256 usdcPayout);
+    event RedeemRequestCancelled(uint256 indexed requestId, address indexed holder, uint256 shares);
+    event RedeemRequestHeld(uint256 indexed requestId, address indexed holder, uint256 shares);
+    event HeldSharesReleased(address indexed holder, address indexed to, uint256 shares);
+    event WindDownStarted(uint256 reserveUSDC, uint256 totalSupply, uint256 requiredReserveUSDC);
+    event WalletLimitsUpdated(uint256 maxRedeemPerWalletPerWindow, uint256 holdingPeriod);
+    event SweepProposed(uint256 amount, uint256 executableAt);
+    event SweepCancelled(uint256 amount);
+    event SweepPolicyUpdated(uint256 sweepDelay, uint256 maxSweepPerPeriod, uint256 sweepPeriod);
+    event SweepPolicyProposed(uint256 sweepDelay, uint256 maxSweepPerPeriod, uint256 sweepPeriod, uint256 effectiveAt);
+    event ReserveAttested(uint256 reserveUSDC, uint256 requiredReserveUSDC, uint256 coverageBps, uint256 totalSupply);
     
     // ============ ERRORS ============
     error ZeroAddress();
@@ -60,6 +167,22 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
     error InsufficientReserve();
     error RateLimitExceeded();
     error ExceedsExcess();
+    error QueueNotEmpty();
+    error NotRequestHolder();
+    error RequestNotOpen();
+    error NoHeldShares();
+    error WalletFrozen();
+    error WindDownActive();
+    error WalletRateLimitExceeded();
+    error HoldingPeriodActive(uint256 redeemableAt);
+    error ZeroAmount();
+    error SweepAlreadyPending();
+    error NoPendingSweep();
+    error SweepNotReady(uint256 executableAt);
+    error ExceedsSweepCap();
+    error InvalidSweepPolicy();
+    error NoPendingSweepPolicy();
+    error SweepPolicyNotReady(uint256 effectiveAt);
     
     // ============ CONSTRUCTOR ============
     constructor(
@@ -80,6 +203,7 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
         // Initialize rate limit
         redeemWindowStart = block.timestamp;
         maxRedeemPerWindow = _maxRedeemPerWindow;
+        sweepPeriodStart = block.timestamp;
         
         emit Deployed(VERSION, block.chainid, msg.sender, block.timestamp);
         emit RateLimitUpdated(_maxRedeemPerWindow, redeemWindowDuration);
@@ -113,12 +237,54 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
         return balance > required ? balance - required : 0;
     }
     
+    /**
+     * @notice Reserve balance as a share of required reserve
+     * @return Coverage in basis points (10,000 = fully covered), max uint256 with no supply
+     */
+    function coverageBps() public view returns (uint256) {
+        uint256 required = requiredReserveUSDC();
+        if (required == 0) return type(uint256).max;
+        return Math.mulDiv(usdc.balanceOf(address(this)), 10_000, required);
+    }
+    
+    /**
+     * @notice Sweep amount still allowed in the current period
+     * @return USDC (6 decimals), max uint256 with no cap
+     */
+    function remainingSweepCap() public view returns (uint256) {
+        if (maxSweepPerPeriod == 0) return type(uint256).max; // No cap
+        
+        if (block.timestamp >= sweepPeriodStart + sweepPeriod) {
+            return maxSweepPerPeriod;
+        }
+        
+        return maxSweepPerPeriod > sweptThisPeriod
+            ? maxSweepPerPeriod - sweptThisPeriod
+            : 0;
+    }
+    
+    /**
+     * @notice USDC paid for redeeming shares right now
+     * @dev floorPrice() per share, or the pro-rata reserve share during wind-down
+     * @param shares Number of shares to redeem
+     * @return USDC amount (6 decimals)
+     */
+    function redemptionPayout(uint256 shares) public view returns (uint256) {
+        if (!windDown) {
+            return shares * floorPrice();
+        }
+        
+        uint256 supply = shareToken.totalSupply();
+        if (supply == 0) return 0;
+        return Math.mulDiv(shares, usdc.balanceOf(address(this)), supply);
+    }
+    
     /**
      * @notice Check remaining redemption capacity this window
      * @return Shares that can still be redeemed in current window
      */
     function remainingRedeemCapacity() public view returns (uint256) {
-        if (maxRedeemPerWindow == 0) return type(uint256).max; // No limit
+        if (maxRedeemPerWindow == 0 || windDown) return type(uint256).max; // No limit
         
         // Check if we're in a new window
         if (block.timestamp >= redeemWindowStart + redeemWindowDuration) {
@@ -130,55 +296,430 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
             : 0;
     }
     
+    /**
+     * @notice Shares a wallet can still redeem or queue this window
+     * @dev Lesser of the global and the per-wallet remaining capacity
+     * @param wallet Holder address
+     */
+    function remainingWalletCapacity(address wallet) public view returns (uint256) {
+        uint256 global = remainingRedeemCapacity();
+        if (maxRedeemPerWalletPerWindow == 0 || windDown) return global;
+        
+        uint256 used = _walletRedeemedInCurrentWindow(wallet);
+        uint256 personal = maxRedeemPerWalletPerWindow > used ? maxRedeemPerWalletPerWindow - used : 0;
+        return personal < global ? personal : global;
+    }
+    
+    /**
+     * @notice When a wallet's holding period ends
+     * @param wallet Holder address
+     * @return Unix seconds UTC, 0 if no holding period applies
+     */
+    function holdingPeriodEnd(address wallet) public view returns (uint256) {
+        if (holdingPeriod == 0 || windDown) return 0;
+        
+        uint256 acquiredAt = shareToken.lastAcquiredAt(wallet);
+        if (acquiredAt == 0) return 0;
+        return acquiredAt + holdingPeriod;
+    }
+    
+    /**
+     * @notice Number of requests ever queued (open, filled and cancelled)
+     */
+    function queueLength() external view returns (uint256) {
+        return redemptionQueue.length;
+    }
+    
+    /**
+     * @notice Position of an open request in the queue
+     * @dev Walks the queue from the head; intended for off-chain use
+     * @param requestId Index into redemptionQueue
+     * @return requestsAhead Open requests that will be paid first
+     * @return sharesAhead Unfilled shares that will be paid first
+     */
+    function queuePosition(uint256 requestId) public view returns (uint256 requestsAhead, uint256 sharesAhead) {
+        if (requestId >= redemptionQueue.length || redemptionQueue[requestId].shares == 0) {
+            revert RequestNotOpen();
+        }
+        
+        for (uint256 i = queueHead; i < requestId; i++) {
+            uint256 shares = redemptionQueue[i].shares;
+            if (shares != 0) {
+                requestsAhead++;
+                sharesAhead += shares;
+            }
+        }
+    }
+    
+    /**
+     * @notice Estimate when an open request will be fully filled
+     * @dev Assumes processQueue() is called each window and only the rate limit
+     *      binds; a reserve shortfall delays fills further.
+     * @param requestId Index into redemptionQueue
+     * @return windowsAhead Rate-limit windows to wait (0 = fillable now)
+     * @return fillableAt Earliest timestamp the request can be fully filled
+     */
+    function estimatedFillWindow(uint256 requestId) external view returns (uint256 windowsAhead, uint256 fillableAt) {
+        (, uint256 sharesAhead) = queuePosition(requestId);
+        uint256 needed = sharesAhead + redemptionQueue[requestId].shares;
+        uint256 capacity = remainingRedeemCapacity();
+        
+        if (needed <= capacity) {
+            return (0, block.timestamp);
+        }
+        
+        windowsAhead = (needed - capacity + maxRedeemPerWindow - 1) / maxRedeemPerWindow;
+        uint256 nextWindowStart = block.timestamp >= redeemWindowStart + redeemWindowDuration
+            ? block.timestamp + redeemWindowDuration
+            : redeemWindowStart + redeemWindowDuration;
+        fillableAt = nextWindowStart + (windowsAhead - 1) * redeemWindowDuration;
+    }
+    
     // ============ USER FUNCTIONS ============
     
     /**
-     * @notice Redeem shares for USDC at floor price
-     * @dev Burns tokens, pays USDC. Subject to rate limits.
+     * @notice Emit a proof-of-reserve snapshot (balance, required reserve, coverage)
+     * @dev Permissionless so a keeper or monitoring service can call it on a schedule
+     */
+    function attestReserve() external {
+        _attestReserve();
+    }
+    
+    /**
+     * @notice Redeem shares for USDC at floor price (pro-rata during wind-down)
+     * @dev Burns tokens, pays USDC. Subject to rate limits outside wind-down.
      * @param shares Number of shares to redeem
      */
     function redeem(uint256 shares) external nonReentrant whenNotPaused {
+        uint256 payout = _prepareRedeem(msg.sender, shares);
+        
+        // Burn tokens first (checks balance)
+        shareToken.burnFrom(msg.sender, shares);
+        
+        // Pay USDC
+        usdc.safeTransfer(msg.sender, payout);
+        
+        emit Redeemed(msg.sender, shares, payout);
+    }
+    
+    /**
+     * @notice Redeem a holder's shares with their EIP-2612 share token permit
+     * @dev Anyone (e.g. a relayer) may submit; USDC always goes to the holder.
+     *      The permit must be for exactly this vault and share amount. Shares are
+     *      pulled with the permit allowance and burned from the vault, so the
+     *      allowance is fully consumed. Same limits as redeem().
+     * @param holder Share owner who signed the permit
+     * @param shares Number of shares to redeem
+     * @param deadline Permit deadline (unix seconds UTC)
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function redeemWithPermit(
+        address holder,
+        uint256 shares,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        uint256 payout = _prepareRedeem(holder, shares);
+        
+        IERC20Permit(address(shareToken)).permit(holder, address(this), shares, deadline, v, r, s);
+        IERC20(shareToken).safeTransferFrom(holder, address(this), shares);
+        shareToken.burnFrom(address(this), shares);
+        
+        usdc.safeTransfer(holder, payout);
+        
+        emit Redeemed(holder, shares, payout);
+    }
+    
+    /**
+     * @notice Join the redemption queue
+     * @dev Escrows shares in the vault; requires approval of the vault on the share token
+     * @param shares Number of shares to redeem
+     * @return requestId Index into redemptionQueue
+     */
+    function requestRedeem(uint256 shares) external nonReentrant whenNotPaused returns (uint256 requestId) {
         if (shares == 0) {
             revert ZeroShares();
         }
         
-        // Check and update rate limit
-        _checkAndUpdateRateLimit(shares);
+        _checkWalletLimits(msg.sender, shares);
         
-        // Calculate payout
-        uint256 payout = shares * floorPrice();
+        IERC20(shareToken).safeTransferFrom(msg.sender, address(this), shares);
         
-        // Verify sufficient reserve
-        if (usdc.balanceOf(address(this)) < payout) {
-            revert InsufficientReserve();
+        requestId = redemptionQueue.length;
+        redemptionQueue.push(RedemptionRequest({
+            holder: msg.sender,
+            shares: shares,
+            requestedAt: uint64(block.timestamp)
+        }));
+        queuedShares += shares;
+        
+        emit RedeemRequested(requestId, msg.sender, shares);
+    }
+    
+    /**
+     * @notice Withdraw an open request and get the unfilled shares back
+     * @dev Allowed while paused so holders are never locked in the queue
+     * @param requestId Index into redemptionQueue
+     */
+    function cancelRedeem(uint256 requestId) external nonReentrant {
+        if (requestId >= redemptionQueue.length) {
+            revert RequestNotOpen();
         }
         
-        // Burn tokens first (checks approval and balance)
-        shareToken.burnFrom(msg.sender, shares);
+        RedemptionRequest storage request = redemptionQueue[requestId];
+        if (request.holder != msg.sender) {
+            revert NotRequestHolder();
+        }
         
-        // Pay USDC
-        usdc.safeTransfer(msg.sender, payout);
+        uint256 shares = request.shares;
+        if (shares == 0) {
+            revert RequestNotOpen();
+        }
         
-        emit Redeemed(msg.sender, shares, payout);
+        request.shares = 0;
+        queuedShares -= shares;
+        
+        IERC20(shareToken).safeTransfer(msg.sender, shares);
+        
+        emit RedeemRequestCancelled(requestId, msg.sender, shares);
+    }
+    
+    /**
+     * @notice Pay queued requests in order at redemptionPayout()
+     * @dev Permissionless (keeper or any holder). Stops at the first request that
+     *      cannot be filled in full; it keeps its place with the remainder.
+     * @param maxRequests Maximum number of queue entries to advance over
+     * @return filledShares Shares redeemed in this call
+     */
+    function processQueue(uint256 maxRequests) external nonReentrant whenNotPaused returns (uint256 filledShares) {
+        _rollRateLimitWindow();
+        
+        uint256 head = queueHead;
+        uint256 end = redemptionQueue.length;
+        if (maxRequests < end - head) {
+            end = head + maxRequests;
+        }
+        
+        while (head < end) {
+            RedemptionRequest storage request = redemptionQueue[head];
+            uint256 remaining = request.shares;
+            if (remaining == 0) {
+                head++;
+                continue;
+            }
+            
+            address payee = _payee(request.holder);
+            if (payee == address(0)) {
+                request.shares = 0;
+                queuedShares -= remaining;
+                heldShares[request.holder] += remaining;
+                emit RedeemRequestHeld(head, request.holder, remaining);
+                head++;
+                continue;
+            }
+            
+            uint256 fill = remaining;
+            uint256 capacity = remainingRedeemCapacity();
+            if (fill > capacity) fill = capacity;
+            if (!windDown) {
+                uint256 affordable = usdc.balanceOf(address(this)) / floorPrice();
+                if (fill > affordable) fill = affordable;
+            }
+            if (fill == 0) break;
+            
+            uint256 payout = redemptionPayout(fill);
+            
+            request.shares = remaining - fill;
+            queuedShares -= fill;
+            filledShares += fill;
+            if (maxRedeemPerWindow != 0) {
+                redeemedThisWindow += fill;
+            }
+            
+            shareToken.burnFrom(address(this), fill);
+            usdc.safeTransfer(payee, payout);
+            
+            emit RedeemRequestFilled(head, request.holder, fill, payout);
+            
+            if (fill < remaining) break;
+            head++;
+        }
+        
+        queueHead = head;
+    }
+    
+    /**
+     * @notice Return shares held back from the queue for a frozen holder
+     * @dev Permissionless. Pays the holder once unfrozen, or the wallet
+     *      recoverWallet() moved them to.
+     * @param holder Wallet whose request was held
+     */
+    function releaseHeldShares(address holder) external nonReentrant {
+        uint256 shares = heldShares[holder];
+        if (shares == 0) {
+            revert NoHeldShares();
+        }
+        
+        address to = _payee(holder);
+        if (to == address(0)) {
+            revert WalletFrozen();
+        }
+        
+        heldShares[holder] = 0;
+        IERC20(shareToken).safeTransfer(to, shares);
+        
+        emit HeldSharesReleased(holder, to, shares);
     }
     
     // ============ ADMIN FUNCTIONS ============
     
     /**
-     * @notice Sweep excess USDC to treasury
-     * @dev Cannot withdraw below required reserve
+     * @notice Update per-wallet limits
+     * @param _maxRedeemPerWalletPerWindow Max shares per wallet per window (0 = no limit)
+     * @param _holdingPeriod Seconds after last acquisition before redeeming (0 = none)
+     */
+    function setWalletLimits(uint256 _maxRedeemPerWalletPerWindow, uint256 _holdingPeriod) external onlyOwner {
+        maxRedeemPerWalletPerWindow = _maxRedeemPerWalletPerWindow;
+        holdingPeriod = _holdingPeriod;
+        emit WalletLimitsUpdated(_maxRedeemPerWalletPerWindow, _holdingPeriod);
+    }
+    
+    /**
+     * @notice Announce a sweep of excess USDC to treasury
+     * @dev Executable after sweepDelay; checked against current excess and the per-period cap
      * @param amount USDC amount to sweep
      */
-    function sweepExcess(uint256 amount) external onlyOwner {
-        uint256 excess = excessReserveUSDC();
+    function proposeSweep(uint256 amount) external onlyOwner {
+        if (windDown) {
+            revert WindDownActive();
+        }
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
+        if (pendingSweep.amount != 0) {
+            revert SweepAlreadyPending();
+        }
+        if (amount > excessReserveUSDC()) {
+            revert ExceedsExcess();
+        }
+        if (maxSweepPerPeriod != 0 && amount > maxSweepPerPeriod) {
+            revert ExceedsSweepCap();
+        }
+        
+        uint256 executableAt = block.timestamp + sweepDelay;
+        pendingSweep = PendingSweep({ amount: amount, executableAt: uint64(executableAt) });
+        
+        emit SweepProposed(amount, executableAt);
+    }
+    
+    /**
+     * @notice Withdraw the pending sweep
+     */
+    function cancelSweep() external onlyOwner {
+        uint256 amount = pendingSweep.amount;
+        if (amount == 0) {
+            revert NoPendingSweep();
+        }
+        
+        delete pendingSweep;
+        
+        emit SweepCancelled(amount);
+    }
+    
+    /**
+     * @notice Pay the pending sweep to treasury once its delay has passed
+     * @dev Cannot withdraw below required reserve or beyond the per-period cap
+     */
+    function executeSweep() external onlyOwner {
+        if (windDown) {
+            revert WindDownActive();
+        }
         
-        if (amount > excess) {
+        PendingSweep memory sweep = pendingSweep;
+        if (sweep.amount == 0) {
+            revert NoPendingSweep();
+        }
+        if (block.timestamp < sweep.executableAt) {
+            revert SweepNotReady(sweep.executableAt);
+        }
+        if (sweep.amount > excessReserveUSDC()) {
             revert ExceedsExcess();
         }
         
-        usdc.safeTransfer(treasury, amount);
+        if (maxSweepPerPeriod != 0) {
+            if (block.timestamp >= sweepPeriodStart + sweepPeriod) {
+                sweepPeriodStart = block.timestamp;
+                sweptThisPeriod = 0;
+            }
+            if (sweptThisPeriod + sweep.amount > maxSweepPerPeriod) {
+                revert ExceedsSweepCap();
+            }
+            sweptThisPeriod += sweep.amount;
+        }
+        
+        delete pendingSweep;
+        usdc.safeTransfer(treasury, sweep.amount);
+        
+        emit ExcessSwept(treasury, sweep.amount);
+        _attestReserve();
+    }
+    
+    /**
+     * @notice Update sweep timelock and cap
+     * @dev Tightening (longer delay, lower cap over an equal or longer period) applies
+     *      immediately. Anything looser is queued behind the current sweepDelay and
+     *      applied with applySweepPolicy(). Replaces any queued policy, so re-setting
+     *      the current policy cancels a queued one. Does not change the executableAt
+     *      of an already pending sweep.
+     * @param _sweepDelay Seconds between proposeSweep() and executeSweep() (>= MIN_SWEEP_DELAY)
+     * @param _maxSweepPerPeriod Max USDC swept per period (0 = no cap)
+     * @param _sweepPeriod Cap period in seconds
+     */
+    function setSweepPolicy(
+        uint256 _sweepDelay,
+        uint256 _maxSweepPerPeriod,
+        uint256 _sweepPeriod
+    ) external onlyOwner {
+        if (_sweepDelay < MIN_SWEEP_DELAY || _sweepPeriod == 0) {
+            revert InvalidSweepPolicy();
+        }
+        
+        delete pendingSweepPolicy;
+        
+        if (_isTighterSweepPolicy(_sweepDelay, _maxSweepPerPeriod, _sweepPeriod)) {
+            _applySweepPolicy(_sweepDelay, _maxSweepPerPeriod, _sweepPeriod);
+            return;
+        }
+        
+        uint256 effectiveAt = block.timestamp + sweepDelay;
+        pendingSweepPolicy = PendingSweepPolicy({
+            sweepDelay: _sweepDelay,
+            maxSweepPerPeriod: _maxSweepPerPeriod,
+            sweepPeriod: _sweepPeriod,
+            effectiveAt: uint64(effectiveAt)
+        });
+        
+        emit SweepPolicyProposed(_sweepDelay, _maxSweepPerPeriod, _sweepPeriod, effectiveAt);
+    }
+    
+    /**
+     * @notice Apply a queued looser sweep policy once its notice period has passed
+     */
+    function applySweepPolicy() external onlyOwner {
+        PendingSweepPolicy memory policy = pendingSweepPolicy;
+        if (policy.effectiveAt == 0) {
+            revert NoPendingSweepPolicy();
+        }
+        if (block.timestamp < policy.effectiveAt) {
+            revert SweepPolicyNotReady(policy.effectiveAt);
+        }
         
-        emit ExcessSwept(treasury, amount);
+        delete pendingSweepPolicy;
+        _applySweepPolicy(policy.sweepDelay, policy.maxSweepPerPeriod, policy.sweepPeriod);
     }
     
     /**
@@ -192,6 +733,20 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
         emit RateLimitUpdated(_maxRedeemPerWindow, _windowDuration);
     }
     
+    /**
+     * @notice Switch to pro-rata redemptions for an underfunded reserve
+     * @dev Irreversible. Every remaining share is paid reserve / totalSupply.
+     */
+    function startWindDown() external onlyOwner {
+        if (windDown) {
+            revert WindDownActive();
+        }
+        
+        windDown = true;
+        
+        emit WindDownStarted(usdc.balanceOf(address(this)), shareToken.totalSupply(), requiredReserveUSDC());
+    }
+    
     /**
      * @notice Pause redemptions (emergency)
      */
@@ -208,19 +763,53 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
     
     // ============ INTERNAL ============
     
+    /**
+     * @notice Wallet that should receive a holder's queued payout
+     * @dev Follows recoverWallet() replacements past frozen wallets
+     * @return payee Holder or its replacement, address(0) if frozen and not recovered
+     */
+    function _payee(address holder) internal view returns (address payee) {
+        payee = holder;
+        while (payee != address(0) && shareToken.frozen(payee)) {
+            payee = shareToken.recoveredTo(payee);
+        }
+    }
+    
+    /**
+     * @notice Shared checks for redeem() and redeemWithPermit()
+     * @dev Updates wallet and global rate limits
+     * @return payout USDC owed for shares
+     */
+    function _prepareRedeem(address holder, uint256 shares) internal returns (uint256 payout) {
+        if (shares == 0) {
+            revert ZeroShares();
+        }
+        if (queuedShares != 0 && !windDown) {
+            revert QueueNotEmpty();
+        }
+        
+        // Check and update rate limits
+        _checkWalletLimits(holder, shares);
+        _checkAndUpdateRateLimit(shares);
+        
+        // Calculate payout
+        payout = redemptionPayout(shares);
+        
+        // Verify sufficient reserve
+        if (usdc.balanceOf(address(this)) < payout) {
+            revert InsufficientReserve();
+        }
+    }
+    
     /**
      * @notice Check rate limit and update window if needed
      * @param shares Number of shares being redeemed
      */
     function _checkAndUpdateRateLimit(uint256 shares) internal {
-        // No limit if maxRedeemPerWindow is 0
-        if (maxRedeemPerWindow == 0) return;
+        // No limit if maxRedeemPerWindow is 0 or during wind-down
+        if (maxRedeemPerWindow == 0 || windDown) return;
         
-        // Check if we need to start a new window
-        if (block.timestamp >= redeemWindowStart + redeemWindowDuration) {
-            redeemWindowStart = block.timestamp;
-            redeemedThisWindow = 0;
-        }
+        _rollRateLimitWindow();
         
         // Check limit
         if (redeemedThisWindow + shares > maxRedeemPerWindow) {
@@ -230,4 +819,91 @@ contract SSFReserveVault is Ownable, Pausable, ReentrancyGuard {
         // Update counter
         redeemedThisWindow += shares;
     }
+    
+    /**
+     * @notice Whether a sweep policy gives investors at least the current notice and protection
+     */
+    function _isTighterSweepPolicy(
+        uint256 _sweepDelay,
+        uint256 _maxSweepPerPeriod,
+        uint256 _sweepPeriod
+    ) internal view returns (bool) {
+        if (_sweepDelay < sweepDelay) return false;
+        if (maxSweepPerPeriod == 0) return true; // No cap yet: any cap is tighter
+        return _maxSweepPerPeriod != 0
+            && _maxSweepPerPeriod <= maxSweepPerPeriod
+            && _sweepPeriod >= sweepPeriod;
+    }
+    
+    /**
+     * @notice Store a sweep policy and emit SweepPolicyUpdated
+     */
+    function _applySweepPolicy(
+        uint256 _sweepDelay,
+        uint256 _maxSweepPerPeriod,
+        uint256 _sweepPeriod
+    ) internal {
+        sweepDelay = _sweepDelay;
+        maxSweepPerPeriod = _maxSweepPerPeriod;
+        sweepPeriod = _sweepPeriod;
+        
+        emit SweepPolicyUpdated(_sweepDelay, _maxSweepPerPeriod, _sweepPeriod);
+    }
+    
+    /**
+     * @notice Emit ReserveAttested for the current state
+     */
+    function _attestReserve() internal {
+        lastAttestedAt = block.timestamp;
+        emit ReserveAttested(
+            usdc.balanceOf(address(this)),
+            requiredReserveUSDC(),
+            coverageBps(),
+            shareToken.totalSupply()
+        );
+    }
+    
+    /**
+     * @notice Enforce the holding period and per-wallet window limit
+     * @param wallet Redeeming wallet
+     * @param shares Number of shares being redeemed or queued
+     */
+    function _checkWalletLimits(address wallet, uint256 shares) internal {
+        uint256 redeemableAt = holdingPeriodEnd(wallet);
+        if (block.timestamp < redeemableAt) {
+            revert HoldingPeriodActive(redeemableAt);
+        }
+        
+        if (maxRedeemPerWalletPerWindow == 0 || windDown) return;
+        
+        _rollRateLimitWindow();
+        
+        uint256 used = _walletRedeemedInCurrentWindow(wallet);
+        if (used + shares > maxRedeemPerWalletPerWindow) {
+            revert WalletRateLimitExceeded();
+        }
+        
+        walletWindowStart[wallet] = redeemWindowStart;
+        walletRedeemedThisWindow[wallet] = used + shares;
+    }
+    
+    /**
+     * @notice Shares a wallet has redeemed or queued in the current window
+     * @dev Counters from an earlier window read as zero
+     */
+    function _walletRedeemedInCurrentWindow(address wallet) internal view returns (uint256) {
+        if (block.timestamp >= redeemWindowStart + redeemWindowDuration) return 0;
+        if (walletWindowStart[wallet] != redeemWindowStart) return 0;
+        return walletRedeemedThisWindow[wallet];
+    }
+    
+    /**
+     * @notice Start a new rate-limit window if the current one has elapsed
+     */
+    function _rollRateLimitWindow() internal {
+        if (block.timestamp >= redeemWindowStart + redeemWindowDuration) {
+            redeemWindowStart = block.timestamp;
+            redeemedThisWindow = 0;
+        }
+    }
 }
@@ -0,0 +1,584 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+interface ISSFShareToken {
+    function totalSupply() external view returns (uint256);
+    function burnFrom(address from, uint256 shares) external;
+}
+
+/**
+ * @title SSFReserveVaultV2
+ * @notice Holds USDC reserve backing SSF share floor price
+ * @dev Pairs with SSFShareSaleV2, which sells on a pricing schedule instead of a
+ *      fixed 1,000 USDC issue price.
+ * 
+ * FLOOR PRICE: FLOOR_BPS of the weighted issue price actually paid
+ *   - The sale reports every purchase via recordIssuance(shares, usdcPaid)
+ *   - weightedIssuePrice = issueProceeds / issuedShares
+ *   - Redemptions do not change the weighted price, only the supply it covers
+ *   - Shares minted outside the sale are covered at the same floor but add no proceeds
+ *   - FLOOR_BPS is set per fund at deployment; there is no fixed ISSUE_PRICE,
+ *     the schedule in SSFShareSaleV2 decides what investors pay
+ * 
+ * Features:
+ *   - redeem(shares): Burn tokens, receive floor price in USDC
+ *   - proposeSweep() / executeSweep(): Owner can withdraw USDC above required
+ *     reserve after a public delay, capped per period
+ *   - attestReserve(): Anyone can emit a proof-of-reserve snapshot for monitoring
+ *   - Rate limiting: Max redemptions per rolling window to prevent bank runs
+ * 
+ * ROLLING RATE LIMIT:
+ *   - The window is split into RATE_LIMIT_SLOTS slots of ceil(window / RATE_LIMIT_SLOTS)
+ *   - A redemption is allowed if it plus everything redeemed in the current and
+ *     previous RATE_LIMIT_SLOTS slots stays within maxRedeemPerWindow
+ *   - Any interval of redeemWindowDuration seconds therefore sees at most
+ *     maxRedeemPerWindow shares (a fixed window allows 2x across its boundary);
+ *     capacity frees up between one window and one window + one slot later
+ * 
+ * TIMELOCKED SWEEPS (as in SSFReserveVault v1):
+ *   - proposeSweep(amount) announces a sweep (SweepProposed); executeSweep() pays
+ *     it to treasury no earlier than sweepDelay later (minimum MIN_SWEEP_DELAY)
+ *   - One pending sweep at a time; cancelSweep() withdraws it
+ *   - maxSweepPerPeriod caps executed sweeps per sweepPeriod (0 = no cap)
+ *   - setSweepPolicy() tightens immediately; a shorter delay or a higher / removed
+ *     cap is queued behind the current sweepDelay (SweepPolicyProposed)
+ *   - Excess is re-checked at execution: redemptions in the meantime take priority
+ * 
+ * PROOF OF RESERVE: attestReserve() emits ReserveAttested(balance, required,
+ * coverageBps, totalSupply); executeSweep() emits one after every sweep.
+ * 
+ * IMMUTABLE CONTRACT - No proxy upgradeability.
+ * Future iterations via versioned deployments (V1/V2/...).
+ */
+contract SSFReserveVaultV2 is Ownable, Pausable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    
+    // ============ VERSION ============
+    string public constant VERSION = "SSFReserveVault@2.3.0";
+    
+    // ============ VAULT PARAMETERS ============
+    uint256 public immutable FLOOR_BPS; // Share of weighted issue price paid on redemption
+    
+    // ============ IMMUTABLES ============
+    IERC20 public immutable usdc;
+    ISSFShareToken public immutable shareToken;
+    address public immutable treasury;
+    
+    // ============ ISSUANCE STATE ============
+    address public shareSale;              // Only address allowed to record issuance (set once)
+    uint256 public issuedShares;           // Shares sold through shareSale
+    uint256 public issueProceeds;          // USDC paid for issuedShares (6 decimals)
+    
+    // ============ RATE LIMIT STATE ============
+    uint256 public constant RATE_LIMIT_SLOTS = 7;
+    uint256 public redeemWindowDuration = 7 days;
+    uint256 public maxRedeemPerWindow;
+    uint256[RATE_LIMIT_SLOTS + 1] private _slotIds;       // Ring buffer: slot number (timestamp / slot length)
+    uint256[RATE_LIMIT_SLOTS + 1] private _slotRedeemed;  // Ring buffer: shares redeemed in that slot
+    
+    // ============ SWEEP STATE ============
+    uint256 public constant MIN_SWEEP_DELAY = 1 days;
+    
+    struct PendingSweep {
+        uint256 amount;                    // 0 = none pending
+        uint64 executableAt;
+    }
+    
+    struct PendingSweepPolicy {
+        uint256 sweepDelay;
+        uint256 maxSweepPerPeriod;
+        uint256 sweepPeriod;
+        uint64 effectiveAt;                // 0 = none queued
+    }
+    
+    PendingSweep public pendingSweep;
+    PendingSweepPolicy public pendingSweepPolicy;
+    uint256 public sweepDelay = 2 days;
+    uint256 public maxSweepPerPeriod;      // 0 = no cap
+    uint256 public sweepPeriod = 30 days;
+    uint256 public sweepPeriodStart;
+    uint256 public sweptThisPeriod;
+    uint256 public lastAttestedAt;
+    
+    // ============ EVENTS ============
+    event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
+    event ShareSaleSet(address indexed shareSale);
+    event IssuanceRecorded(uint256 shares, uint256 usdcPaid, uint256 weightedIssuePrice);
+    event Redeemed(address indexed holder, uint256 shares, uint256 usdcPayout);
+    event ExcessSwept(address indexed to, uint256 amount);
+    event RateLimitUpdated(uint256 maxRedeemPerWindow, uint256 windowDuration);
+    event SweepProposed(uint256 amount, uint256 executableAt);
+    event SweepCancelled(uint256 amount);
+    event SweepPolicyUpdated(uint256 sweepDelay, uint256 maxSweepPerPeriod, uint256 sweepPeriod);
+    event SweepPolicyProposed(uint256 sweepDelay, uint256 maxSweepPerPeriod, uint256 sweepPeriod, uint256 effectiveAt);
+    event ReserveAttested(uint256 reserveUSDC, uint256 requiredReserveUSDC, uint256 coverageBps, uint256 totalSupply);
+    
+    // ============ ERRORS ============
+    error ZeroAddress();
+    error ZeroShares();
+    error InsufficientReserve();
+    error RateLimitExceeded();
+    error ExceedsExcess();
+    error ShareSaleAlreadySet();
+    error NotShareSale();
+    error NoIssuance();
+    error InvalidFloorBps();
+    error InvalidWindowDuration();
+    error ZeroAmount();
+    error SweepAlreadyPending();
+    error NoPendingSweep();
+    error SweepNotReady(uint256 executableAt);
+    error ExceedsSweepCap();
+    error InvalidSweepPolicy();
+    error NoPendingSweepPolicy();
+    error SweepPolicyNotReady(uint256 effectiveAt);
+    
+    // ============ CONSTRUCTOR ============
+    constructor(
+        address _usdc,
+        address _shareToken,
+        address _treasury,
+        address _owner,
+        uint256 _floorBps,
+        uint256 _maxRedeemPerWindow
+    ) Ownable(_owner) {
+        if (_usdc == address(0) || _shareToken == address(0) || _treasury == address(0)) {
+            revert ZeroAddress();
+        }
+        if (_floorBps == 0 || _floorBps > 10_000) {
+            revert InvalidFloorBps();
+        }
+        
+        FLOOR_BPS = _floorBps;
+        usdc = IERC20(_usdc);
+        shareToken = ISSFShareToken(_shareToken);
+        treasury = _treasury;
+        
+        // Initialize rate limit
+        maxRedeemPerWindow = _maxRedeemPerWindow;
+        sweepPeriodStart = block.timestamp;
+        
+        emit Deployed(VERSION, block.chainid, msg.sender, block.timestamp);
+        emit RateLimitUpdated(_maxRedeemPerWindow, redeemWindowDuration);
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Average USDC paid per share across all recorded issuance
+     * @return Weighted issue price in USDC (6 decimals), 0 before the first sale
+     */
+    function weightedIssuePrice() public view returns (uint256) {
+        if (issuedShares == 0) return 0;
+        return issueProceeds / issuedShares;
+    }
+    
+    /**
+     * @notice Calculate floor price per share
+     * @dev Rounded down, so per-share payouts never exceed the reserve backing them
+     * @return Floor price in USDC (6 decimals)
+     */
+    function floorPrice() public view returns (uint256) {
+        if (issuedShares == 0) return 0;
+        return Math.mulDiv(issueProceeds, FLOOR_BPS, issuedShares * 10_000);
+    }
+    
+    /**
+     * @notice Calculate required USDC reserve based on current token supply
+     * @dev Rounded up against the unrounded floor so sweeps never eat into backing
+     * @return Required USDC amount to cover all potential redemptions
+     */
+    function requiredReserveUSDC() public view returns (uint256) {
+        if (issuedShares == 0) return 0;
+        return Math.mulDiv(
+            shareToken.totalSupply() * issueProceeds,
+            FLOOR_BPS,
+            issuedShares * 10_000,
+            Math.Rounding.Ceil
+        );
+    }
+    
+    /**
+     * @notice Calculate excess USDC above required reserve
+     * @return Excess USDC that can be swept to treasury
+     */
+    function excessReserveUSDC() public view returns (uint256) {
+        uint256 balance = usdc.balanceOf(address(this));
+        uint256 required = requiredReserveUSDC();
+        return balance > required ? balance - required : 0;
+    }
+    
+    /**
+     * @notice Reserve balance as a share of required reserve
+     * @return Coverage in basis points (10,000 = fully covered), max uint256 with no supply
+     */
+    function coverageBps() public view returns (uint256) {
+        uint256 required = requiredReserveUSDC();
+        if (required == 0) return type(uint256).max;
+        return Math.mulDiv(usdc.balanceOf(address(this)), 10_000, required);
+    }
+    
+    /**
+     * @notice Sweep amount still allowed in the current period
+     * @return USDC (6 decimals), max uint256 with no cap
+     */
+    function remainingSweepCap() public view returns (uint256) {
+        if (maxSweepPerPeriod == 0) return type(uint256).max; // No cap
+        
+        if (block.timestamp >= sweepPeriodStart + sweepPeriod) {
+            return maxSweepPerPeriod;
+        }
+        
+        return maxSweepPerPeriod > sweptThisPeriod
+            ? maxSweepPerPeriod - sweptThisPeriod
+            : 0;
+    }
+    
+    /**
+     * @notice Shares redeemed in the current and previous RATE_LIMIT_SLOTS slots
+     * @return total Shares counted against maxRedeemPerWindow right now
+     */
+    function redeemedThisWindow() public view returns (uint256 total) {
+        uint256 currentSlot = block.timestamp / rateLimitSlotLength();
+        for (uint256 i = 0; i <= RATE_LIMIT_SLOTS; i++) {
+            if (_slotIds[i] + RATE_LIMIT_SLOTS >= currentSlot) {
+                total += _slotRedeemed[i];
+            }
+        }
+    }
+    
+    /**
+     * @notice Length of one rate-limit slot
+     * @return Seconds, rounded up so RATE_LIMIT_SLOTS slots cover a full window
+     */
+    function rateLimitSlotLength() public view returns (uint256) {
+        return Math.ceilDiv(redeemWindowDuration, RATE_LIMIT_SLOTS);
+    }
+    
+    /**
+     * @notice Check remaining redemption capacity in the rolling window
+     * @return Shares that can still be redeemed now
+     */
+    function remainingRedeemCapacity() public view returns (uint256) {
+        if (maxRedeemPerWindow == 0) return type(uint256).max; // No limit
+        
+        uint256 redeemed = redeemedThisWindow();
+        return maxRedeemPerWindow > redeemed
+            ? maxRedeemPerWindow - redeemed
+            : 0;
+    }
+    
+    // ============ SALE FUNCTIONS ============
+    
+    /**
+     * @notice Record shares sold and the USDC paid for them
+     * @dev Called by shareSale on every purchase, after the reserve split is transferred
+     * @param shares Shares minted to the buyer
+     * @param usdcPaid Total USDC paid by the buyer (before the reserve split)
+     */
+    function recordIssuance(uint256 shares, uint256 usdcPaid) external {
+        if (msg.sender != shareSale) {
+            revert NotShareSale();
+        }
+        
+        issuedShares += shares;
+        issueProceeds += usdcPaid;
+        
+        emit IssuanceRecorded(shares, usdcPaid, weightedIssuePrice());
+    }
+    
+    // ============ USER FUNCTIONS ============
+    
+    /**
+     * @notice Emit a proof-of-reserve snapshot (balance, required reserve, coverage)
+     * @dev Permissionless so a keeper or monitoring service can call it on a schedule
+     */
+    function attestReserve() external {
+        _attestReserve();
+    }
+    
+    /**
+     * @notice Redeem shares for USDC at floor price
+     * @dev Burns tokens, pays USDC. Subject to rate limits.
+     * @param shares Number of shares to redeem
+     */
+    function redeem(uint256 shares) external nonReentrant whenNotPaused {
+        if (shares == 0) {
+            revert ZeroShares();
+        }
+        if (issuedShares == 0) {
+            revert NoIssuance();
+        }
+        
+        // Check and update rate limit
+        _checkAndUpdateRateLimit(shares);
+        
+        // Calculate payout
+        uint256 payout = shares * floorPrice();
+        
+        // Verify sufficient reserve
+        if (usdc.balanceOf(address(this)) < payout) {
+            revert InsufficientReserve();
+        }
+        
+        // Burn tokens first (checks approval and balance)
+        shareToken.burnFrom(msg.sender, shares);
+        
+        // Pay USDC
+        usdc.safeTransfer(msg.sender, payout);
+        
+        emit Redeemed(msg.sender, shares, payout);
+    }
+    
+    // ============ ADMIN FUNCTIONS ============
+    
+    /**
+     * @notice Register the sale allowed to record issuance
+     * @dev One-time: a replaced sale could rewrite the weighted issue price
+     * @param _shareSale SSFShareSaleV2 paying into this vault
+     */
+    function setShareSale(address _shareSale) external onlyOwner {
+        if (_shareSale == address(0)) {
+            revert ZeroAddress();
+        }
+        if (shareSale != address(0)) {
+            revert ShareSaleAlreadySet();
+        }
+        shareSale = _shareSale;
+        emit ShareSaleSet(_shareSale);
+    }
+    
+    /**
+     * @notice Announce a sweep of excess USDC to treasury
+     * @dev Executable after sweepDelay; checked against current excess and the per-period cap
+     * @param amount USDC amount to sweep
+     */
+    function proposeSweep(uint256 amount) external onlyOwner {
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
+        if (pendingSweep.amount != 0) {
+            revert SweepAlreadyPending();
+        }
+        if (amount > excessReserveUSDC()) {
+            revert ExceedsExcess();
+        }
+        if (maxSweepPerPeriod != 0 && amount > maxSweepPerPeriod) {
+            revert ExceedsSweepCap();
+        }
+        
+        uint256 executableAt = block.timestamp + sweepDelay;
+        pendingSweep = PendingSweep({ amount: amount, executableAt: uint64(executableAt) });
+        
+        emit SweepProposed(amount, executableAt);
+    }
+    
+    /**
+     * @notice Withdraw the pending sweep
+     */
+    function cancelSweep() external onlyOwner {
+        uint256 amount = pendingSweep.amount;
+        if (amount == 0) {
+            revert NoPendingSweep();
+        }
+        
+        delete pendingSweep;
+        
+        emit SweepCancelled(amount);
+    }
+    
+    /**
+     * @notice Pay the pending sweep to treasury once its delay has passed
+     * @dev Cannot withdraw below required reserve or beyond the per-period cap
+     */
+    function executeSweep() external onlyOwner {
+        PendingSweep memory sweep = pendingSweep;
+        if (sweep.amount == 0) {
+            revert NoPendingSweep();
+        }
+        if (block.timestamp < sweep.executableAt) {
+            revert SweepNotReady(sweep.executableAt);
+        }
+        if (sweep.amount > excessReserveUSDC()) {
+            revert ExceedsExcess();
+        }
+        
+        if (maxSweepPerPeriod != 0) {
+            if (block.timestamp >= sweepPeriodStart + sweepPeriod) {
+                sweepPeriodStart = block.timestamp;
+                sweptThisPeriod = 0;
+            }
+            if (sweptThisPeriod + sweep.amount > maxSweepPerPeriod) {
+                revert ExceedsSweepCap();
+            }
+            sweptThisPeriod += sweep.amount;
+        }
+        
+        delete pendingSweep;
+        usdc.safeTransfer(treasury, sweep.amount);
+        
+        emit ExcessSwept(treasury, sweep.amount);
+        _attestReserve();
+    }
+    
+    /**
+     * @notice Update sweep timelock and cap
+     * @dev Tightening (longer delay, lower cap over an equal or longer period) applies
+     *      immediately. Anything looser is queued behind the current sweepDelay and
+     *      applied with applySweepPolicy(). Replaces any queued policy, so re-setting
+     *      the current policy cancels a queued one. Does not change the executableAt
+     *      of an already pending sweep.
+     * @param _sweepDelay Seconds between proposeSweep() and executeSweep() (>= MIN_SWEEP_DELAY)
+     * @param _maxSweepPerPeriod Max USDC swept per period (0 = no cap)
+     * @param _sweepPeriod Cap period in seconds
+     */
+    function setSweepPolicy(
+        uint256 _sweepDelay,
+        uint256 _maxSweepPerPeriod,
+        uint256 _sweepPeriod
+    ) external onlyOwner {
+        if (_sweepDelay < MIN_SWEEP_DELAY || _sweepPeriod == 0) {
+            revert InvalidSweepPolicy();
+        }
+        
+        delete pendingSweepPolicy;
+        
+        if (_isTighterSweepPolicy(_sweepDelay, _maxSweepPerPeriod, _sweepPeriod)) {
+            _applySweepPolicy(_sweepDelay, _maxSweepPerPeriod, _sweepPeriod);
+            return;
+        }
+        
+        uint256 effectiveAt = block.timestamp + sweepDelay;
+        pendingSweepPolicy = PendingSweepPolicy({
+            sweepDelay: _sweepDelay,
+            maxSweepPerPeriod: _maxSweepPerPeriod,
+            sweepPeriod: _sweepPeriod,
+            effectiveAt: uint64(effectiveAt)
+        });
+        
+        emit SweepPolicyProposed(_sweepDelay, _maxSweepPerPeriod, _sweepPeriod, effectiveAt);
+    }
+    
+    /**
+     * @notice Apply a queued looser sweep policy once its notice period has passed
+     */
+    function applySweepPolicy() external onlyOwner {
+        PendingSweepPolicy memory policy = pendingSweepPolicy;
+        if (policy.effectiveAt == 0) {
+            revert NoPendingSweepPolicy();
+        }
+        if (block.timestamp < policy.effectiveAt) {
+            revert SweepPolicyNotReady(policy.effectiveAt);
+        }
+        
+        delete pendingSweepPolicy;
+        _applySweepPolicy(policy.sweepDelay, policy.maxSweepPerPeriod, policy.sweepPeriod);
+    }
+    
+    /**
+     * @notice Update rate limit parameters
+     * @dev Clears the rolling window history: slot numbers depend on the duration
+     * @param _maxRedeemPerWindow Max shares redeemable per window (0 = no limit)
+     * @param _windowDuration Window duration in seconds
+     */
+    function setRateLimit(uint256 _maxRedeemPerWindow, uint256 _windowDuration) external onlyOwner {
+        if (_windowDuration == 0) {
+            revert InvalidWindowDuration();
+        }
+        
+        delete _slotIds;
+        delete _slotRedeemed;
+        maxRedeemPerWindow = _maxRedeemPerWindow;
+        redeemWindowDuration = _windowDuration;
+        emit RateLimitUpdated(_maxRedeemPerWindow, _windowDuration);
+    }
+    
+    /**
+     * @notice Pause redemptions (emergency)
+     */
+    function pause() external onlyOwner {
+        _pause();
+    }
+    
+    /**
+     * @notice Unpause redemptions
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+    
+    // ============ INTERNAL ============
+    
+    /**
+     * @notice Whether a sweep policy gives investors at least the current notice and protection
+     */
+    function _isTighterSweepPolicy(
+        uint256 _sweepDelay,
+        uint256 _maxSweepPerPeriod,
+        uint256 _sweepPeriod
+    ) internal view returns (bool) {
+        if (_sweepDelay < sweepDelay) return false;
+        if (maxSweepPerPeriod == 0) return true; // No cap yet: any cap is tighter
+        return _maxSweepPerPeriod != 0
+            && _maxSweepPerPeriod <= maxSweepPerPeriod
+            && _sweepPeriod >= sweepPeriod;
+    }
+    
+    /**
+     * @notice Store a sweep policy and emit SweepPolicyUpdated
+     */
+    function _applySweepPolicy(
+        uint256 _sweepDelay,
+        uint256 _maxSweepPerPeriod,
+        uint256 _sweepPeriod
+    ) internal {
+        sweepDelay = _sweepDelay;
+        maxSweepPerPeriod = _maxSweepPerPeriod;
+        sweepPeriod = _sweepPeriod;
+        
+        emit SweepPolicyUpdated(_sweepDelay, _maxSweepPerPeriod, _sweepPeriod);
+    }
+    
+    /**
+     * @notice Emit ReserveAttested for the current state
+     */
+    function _attestReserve() internal {
+        lastAttestedAt = block.timestamp;
+        emit ReserveAttested(
+            usdc.balanceOf(address(this)),
+            requiredReserveUSDC(),
+            coverageBps(),
+            shareToken.totalSupply()
+        );
+    }
+    
+    /**
+     * @notice Check the rolling rate limit and record the redemption in the current slot
+     * @param shares Number of shares being redeemed
+     */
+    function _checkAndUpdateRateLimit(uint256 shares) internal {
+        // No limit if maxRedeemPerWindow is 0
+        if (maxRedeemPerWindow == 0) return;
+        
+        // Check limit
+        if (redeemedThisWindow() + shares > maxRedeemPerWindow) {
+            revert RateLimitExceeded();
+        }
+        
+        // Recycle the ring entry if it holds an expired slot
+        uint256 currentSlot = block.timestamp / rateLimitSlotLength();
+        uint256 index = currentSlot % (RATE_LIMIT_SLOTS + 1);
+        if (_slotIds[index] != currentSlot) {
+            _slotIds[index] = currentSlot;
+            _slotRedeemed[index] = 0;
+        }
+        _slotRedeemed[index] += shares;
+    }
+}
@@ -3,12 +3,18 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
 interface ISSFShareToken {
     function mint(address to, uint256 shares) external;
+    function burnFrom(address from, uint256 shares) external;
+    function recoveredTo(address lost) external view returns (address);
 }
 
 /**
@@ -23,14 +29,50 @@ interface ISSFShareToken {
  *   - Allowlist capacity: 100 addresses
  *   - Reserve split: 50% to ReserveVault
  * 
+ * MERKLE ALLOWLIST (large raises):
+ *   - Owner publishes a root of (investor, maxShares) leaves instead of storing addresses
+ *   - Investors call buy(shares, maxShares, proof); maxShares is a per-investor cap
+ *     on top of MAX_SHARES_PER_WALLET
+ *   - Leaf = keccak256(bytes.concat(keccak256(abi.encode(investor, maxShares))))
+ *   - See scripts/build-sale-allowlist.ts
+ * 
+ * SIGNED VOUCHERS (KYC-gated buys):
+ *   - Compliance backend signs PurchaseVoucher(buyer, maxShares, expiry, nonce)
+ *     under this contract's EIP-712 domain with the rotatable voucherSigner key
+ *   - Buyers call buyWithVoucher(); each (buyer, nonce) is usable once
+ *   - See scripts/lib/purchase-voucher.ts
+ * 
+ * PERMIT BUY: buyWithPermit() takes an EIP-2612 USDC permit for the exact cost,
+ * so allowlisted buyers purchase in a single transaction without approve().
+ * 
+ * ESCROW MODE (softCapShares > 0):
+ *   - USDC stays in this contract until saleEnd instead of being split per purchase
+ *   - Cap met: finalizeSale() performs the treasury / reserveVault split once
+ *   - Cap missed: buyers refund(), burning their shares for their USDC back
+ *   - Purchased shares stay locked (lockedBalanceOf) until finalizeSale() or refund(),
+ *     so they cannot be transferred or redeemed while their USDC is escrowed
+ *   - Sale window is frozen once the first escrowed share is sold
+ *   - Requires BURNER_ROLE and shareToken.setTransferLock(sale) for refunds
+ * 
+ * WALLET RECOVERY: after SSFShareToken.recoverWallet(lost, replacement), anyone can
+ * call migratePurchases(lost) to move wallet-cap and escrow accounting to the replacement.
+ * 
+ * PURCHASE TIMESTAMPS: lastPurchaseAt(wallet) records each wallet's latest purchase.
+ * SSFReserveVault's holding period reads SSFShareToken.lastAcquiredAt instead, which
+ * follows shares across transfers.
+ * 
  * IMMUTABLE CONTRACT - No proxy upgradeability.
  * Future iterations via versioned deployments (V1/V2/...).
  */
-contract SSFShareSale is Ownable, Pausable, ReentrancyGuard {
+contract SSFShareSale is Ownable, Pausable, ReentrancyGuard, EIP712 {
     using SafeERC20 for IERC20;
 
     // ============ VERSION ============
-    string public constant VERSION = "SSFShareSale@1.0.0";
+    string public constant VERSION = "SSFShareSale@1.7.0";
+    
+    // ============ EIP-712 ============
+    bytes32 public constant PURCHASE_VOUCHER_TYPEHASH =
+        keccak256("PurchaseVoucher(address buyer,uint256 maxShares,uint256 expiry,uint256 nonce)");
     
     // ============ FROZEN PARAMETERS ============
     uint256 public constant PRICE_PER_SHARE_USDC = 1_000_000_000; // 1,000 USDC (6 decimals)
@@ -50,15 +92,37 @@ contract SSFShareSale is Ownable, Pausable, ReentrancyGuard {
     uint64 public saleEnd;
     uint256 public sharesSold;
     uint256 public allowlistCount;
+    bytes32 public allowlistRoot;          // 0 = Merkle allowlist disabled
+    address public voucherSigner;          // 0 = voucher purchases disabled
+    uint256 public softCapShares;          // 0 = no escrow, split on every purchase
+    uint256 public escrowedUsdc;           // USDC held pending finalizeSale() / refund()
+    bool public saleFinalized;
+    
+    struct PurchaseVoucher {
+        address buyer;
+        uint256 maxShares;         // Cumulative wallet cap approved by compliance
+        uint256 expiry;            // Unix seconds UTC
+        uint256 nonce;             // Single use per buyer
+    }
     
     mapping(address => bool) public allowlist;
     mapping(address => uint256) public purchasedShares;
+    mapping(address => uint256) public escrowedUsdcOf;
+    mapping(address => uint64) public lastPurchaseAt;  // Unix seconds UTC
+    mapping(address => mapping(uint256 => bool)) public voucherNonceUsed;
     
     // ============ EVENTS ============
     event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
     event SaleWindowUpdated(uint64 start, uint64 end);
     event AllowlistUpdated(address[] addresses, bool allowed);
+    event AllowlistRootUpdated(bytes32 oldRoot, bytes32 newRoot);
+    event VoucherSignerUpdated(address oldSigner, address newSigner);
+    event VoucherRedeemed(address indexed buyer, uint256 nonce, uint256 shares);
     event Purchased(address indexed buyer, uint256 shares, uint256 usdcCost);
+    event SoftCapUpdated(uint256 softCapShares);
+    event SaleFinalized(uint256 sharesSold, uint256 treasuryAmount, uint256 reserveAmount);
+    event Refunded(address indexed buyer, uint256 shares, uint256 usdcAmount);
+    event PurchasesMigrated(address indexed lost, address indexed replacement, uint256 shares);
     
     // ============ ERRORS ============
     error ZeroAddress();
@@ -69,6 +133,20 @@ contract SSFShareSale is Ownable, Pausable, ReentrancyGuard {
     error SaleCapExceeded();
     error AllowlistCapExceeded();
     error InvalidSaleWindow();
+    error InvalidProof();
+    error InvalidSignature();
+    error VoucherExpired();
+    error VoucherAlreadyUsed();
+    error InvalidSoftCap();
+    error SoftCapLocked();
+    error SaleWindowLocked();
+    error NotEscrowed();
+    error SaleNotEnded();
+    error SoftCapNotMet();
+    error SoftCapMet();
+    error SaleAlreadyFinalized();
+    error NothingToRefund();
+    error NotRecovered();
     
     // ============ CONSTRUCTOR ============
     constructor(
@@ -79,7 +157,7 @@ contract SSFShareSale is Ownable, Pausable, ReentrancyGuard {
         address _owner,
         uint64 _saleStart,
         uint64 _saleEnd
-    ) Ownable(_owner) {
+    ) Ownable(_owner) EIP712("SSFShareSale", "1") {
         if (_usdc == address(0) || _shareToken == address(0) || _treasury == address(0) || _reserveVault == address(0)) {
             revert ZeroAddress();
         }
@@ -114,43 +192,194 @@ contract SSFShareSale is Ownable, Pausable, ReentrancyGuard {
             revert NotAllowlisted();
         }
         
-        // 2. Check sale window
-        if (block.timestamp < saleStart || block.timestamp > saleEnd) {
-            revert SaleNotActive();
+        _buy(shares);
+    }
+    
+    /**
+     * @notice Purchase shares with an EIP-2612 USDC permit in one transaction
+     * @dev Permit must cover shares * PRICE_PER_SHARE_USDC for this contract.
+     *      A failed permit is ignored if allowance is already sufficient
+     *      (e.g. the permit was front-run), so buyers cannot be griefed.
+     * @param shares Number of shares to purchase (whole number)
+     * @param deadline Permit deadline (unix seconds UTC)
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function buyWithPermit(
+        uint256 shares,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        // 1. Check allowlist
+        if (!allowlist[msg.sender]) {
+            revert NotAllowlisted();
         }
         
-        // 3. Validate share amount
-        if (shares == 0) {
-            revert InvalidShareAmount();
+        uint256 cost = shares * PRICE_PER_SHARE_USDC;
+        try IERC20Permit(address(usdc)).permit(msg.sender, address(this), cost, deadline, v, r, s) {
+        } catch {
+            // Fall through: transferFrom reverts below if allowance is short
         }
         
-        // 4. Check per-wallet cap
-        if (purchasedShares[msg.sender] + shares > MAX_SHARES_PER_WALLET) {
+        _buy(shares);
+    }
+    
+    /**
+     * @notice Purchase shares with USDC using a Merkle allowlist proof
+     * @dev Requires: not paused, valid proof, within sale window, caps not exceeded
+     * @param shares Number of shares to purchase (whole number)
+     * @param maxShares Investor's cap encoded in the leaf
+     * @param proof Merkle proof for (msg.sender, maxShares)
+     */
+    function buy(
+        uint256 shares,
+        uint256 maxShares,
+        bytes32[] calldata proof
+    ) external nonReentrant whenNotPaused {
+        // 1. Check Merkle allowlist and per-leaf cap
+        if (allowlistRoot == bytes32(0)) {
+            revert NotAllowlisted();
+        }
+        if (!verifyAllowlist(msg.sender, maxShares, proof)) {
+            revert InvalidProof();
+        }
+        if (purchasedShares[msg.sender] + shares > maxShares) {
             revert WalletCapExceeded();
         }
         
-        // 5. Check total sale cap
-        if (sharesSold + shares > MAX_SHARES) {
-            revert SaleCapExceeded();
+        _buy(shares);
+    }
+    
+    /**
+     * @notice Purchase shares with USDC using a compliance-signed voucher
+     * @dev Requires: not paused, voucher signed by voucherSigner for msg.sender,
+     *      not expired, nonce unused, within sale window, caps not exceeded
+     * @param shares Number of shares to purchase (whole number)
+     * @param voucher Voucher fields signed by the compliance backend
+     * @param signature voucherSigner's EIP-712 signature over the voucher
+     */
+    function buyWithVoucher(
+        uint256 shares,
+        PurchaseVoucher calldata voucher,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused {
+        // 1. Check voucher
+        if (voucher.buyer != msg.sender) {
+            revert InvalidSignature();
+        }
+        if (block.timestamp > voucher.expiry) {
+            revert VoucherExpired();
+        }
+        if (voucherNonceUsed[msg.sender][voucher.nonce]) {
+            revert VoucherAlreadyUsed();
+        }
+        if (!verifyVoucher(voucher, signature)) {
+            revert InvalidSignature();
+        }
+        if (purchasedShares[msg.sender] + shares > voucher.maxShares) {
+            revert WalletCapExceeded();
         }
         
-        // 6. Calculate cost and split
-        uint256 cost = shares * PRICE_PER_SHARE_USDC;
-        uint256 reserveAmount = (cost * RESERVE_BPS) / 10_000;
-        uint256 treasuryAmount = cost - reserveAmount;
+        voucherNonceUsed[msg.sender][voucher.nonce] = true;
+        _buy(shares);
         
-        // 7. Transfer USDC: 50% to treasury, 50% to reserveVault
-        usdc.safeTransferFrom(msg.sender, treasury, treasuryAmount);
-        usdc.safeTransferFrom(msg.sender, reserveVault, reserveAmount);
+        emit VoucherRedeemed(msg.sender, voucher.nonce, shares);
+    }
+    
+    /**
+     * @notice Reclaim USDC from a failed escrowed raise
+     * @dev Only after saleEnd with the soft cap missed. Burns all of the caller's
+     *      purchased shares, which lockedBalanceOf keeps in their wallet until now.
+     */
+    function refund() external nonReentrant {
+        if (softCapShares == 0) {
+            revert NotEscrowed();
+        }
+        if (block.timestamp <= saleEnd) {
+            revert SaleNotEnded();
+        }
+        if (sharesSold >= softCapShares) {
+            revert SoftCapMet();
+        }
         
-        // 8. Update state
-        purchasedShares[msg.sender] += shares;
-        sharesSold += shares;
+        uint256 shares = purchasedShares[msg.sender];
+        uint256 amount = escrowedUsdcOf[msg.sender];
+        if (amount == 0) {
+            revert NothingToRefund();
+        }
         
-        // 9. Mint shares to buyer
-        shareToken.mint(msg.sender, shares);
+        purchasedShares[msg.sender] = 0;
+        escrowedUsdcOf[msg.sender] = 0;
+        sharesSold -= shares;
+        escrowedUsdc -= amount;
         
-        emit Purchased(msg.sender, shares, cost);
+        shareToken.burnFrom(msg.sender, shares);
+        usdc.safeTransfer(msg.sender, amount);
+        
+        emit Refunded(msg.sender, shares, amount);
+    }
+    
+    /**
+     * @notice Release escrowed USDC of a successful raise
+     * @dev Permissionless: after saleEnd with the soft cap met, splits escrowed USDC
+     *      between treasury and reserveVault exactly once.
+     */
+    function finalizeSale() external nonReentrant {
+        if (softCapShares == 0) {
+            revert NotEscrowed();
+        }
+        if (saleFinalized) {
+            revert SaleAlreadyFinalized();
+        }
+        if (block.timestamp <= saleEnd) {
+            revert SaleNotEnded();
+        }
+        if (sharesSold < softCapShares) {
+            revert SoftCapNotMet();
+        }
+        
+        uint256 reserveAmount = (escrowedUsdc * RESERVE_BPS) / 10_000;
+        uint256 treasuryAmount = escrowedUsdc - reserveAmount;
+        saleFinalized = true;
+        escrowedUsdc = 0;
+        
+        usdc.safeTransfer(treasury, treasuryAmount);
+        usdc.safeTransfer(reserveVault, reserveAmount);
+        
+        emit SaleFinalized(sharesSold, treasuryAmount, reserveAmount);
+    }
+    
+    /**
+     * @notice Carry purchase accounting over to a recovered wallet
+     * @dev Permissionless: the share token's recoveredTo record is the authority.
+     *      Moves purchasedShares, any escrowed USDC and the last purchase time so caps,
+     *      refunds and purchase history follow the shares.
+     * @param lost Wallet recovered via SSFShareToken.recoverWallet()
+     */
+    function migratePurchases(address lost) external {
+        address replacement = shareToken.recoveredTo(lost);
+        if (replacement == address(0)) {
+            revert NotRecovered();
+        }
+        
+        uint256 shares = purchasedShares[lost];
+        purchasedShares[lost] = 0;
+        purchasedShares[replacement] += shares;
+        
+        uint256 escrowed = escrowedUsdcOf[lost];
+        if (escrowed != 0) {
+            escrowedUsdcOf[lost] = 0;
+            escrowedUsdcOf[replacement] += escrowed;
+        }
+        
+        if (lastPurchaseAt[lost] > lastPurchaseAt[replacement]) {
+            lastPurchaseAt[replacement] = lastPurchaseAt[lost];
+        }
+        
+        emit PurchasesMigrated(lost, replacement, shares);
     }
     
     // ============ ADMIN FUNCTIONS ============
@@ -185,12 +414,56 @@ contract SSFShareSale is Ownable, Pausable, ReentrancyGuard {
         emit AllowlistUpdated(addresses, allowed);
     }
     
+    /**
+     * @notice Set the Merkle allowlist root (bytes32(0) disables Merkle purchases)
+     * @dev Works alongside the on-chain allowlist; replacing the root revokes old proofs
+     * @param newRoot Root of the (investor, maxShares) tree
+     */
+    function setAllowlistRoot(bytes32 newRoot) external onlyOwner {
+        emit AllowlistRootUpdated(allowlistRoot, newRoot);
+        allowlistRoot = newRoot;
+    }
+    
+    /**
+     * @notice Rotate the compliance key that signs purchase vouchers
+     * @dev address(0) disables voucher purchases; rotating invalidates unspent vouchers
+     * @param newSigner New voucher signer
+     */
+    function setVoucherSigner(address newSigner) external onlyOwner {
+        emit VoucherSignerUpdated(voucherSigner, newSigner);
+        voucherSigner = newSigner;
+    }
+    
+    /**
+     * @notice Enable escrow mode with a soft cap (0 disables escrow)
+     * @dev Only before the first purchase, so every buyer is under the same terms
+     * @param _softCapShares Minimum shares sold by saleEnd for the raise to succeed
+     */
+    function setSoftCap(uint256 _softCapShares) external onlyOwner {
+        if (sharesSold != 0) {
+            revert SoftCapLocked();
+        }
+        if (_softCapShares > MAX_SHARES) {
+            revert InvalidSoftCap();
+        }
+        softCapShares = _softCapShares;
+        emit SoftCapUpdated(_softCapShares);
+    }
+    
     /**
      * @notice Update sale window (emergency use only)
+     * @dev Locked once an escrowed sale is finalized or has sold shares, so saleEnd
+     *      cannot be pushed out to hold off refunds or reopened after they start
      * @param _start New start timestamp (unix seconds UTC)
      * @param _end New end timestamp (unix seconds UTC)
      */
     function setSaleWindow(uint64 _start, uint64 _end) external onlyOwner {
+        if (saleFinalized) {
+            revert SaleAlreadyFinalized();
+        }
+        if (softCapShares != 0 && sharesSold != 0) {
+            revert SaleWindowLocked();
+        }
         if (_end <= _start) {
             revert InvalidSaleWindow();
         }
@@ -224,10 +497,60 @@ contract SSFShareSale is Ownable, Pausable, ReentrancyGuard {
     
     /**
      * @notice Check remaining shares a wallet can purchase
+     * @dev 0 when migratePurchases() carried a wallet over the cap
      * @param wallet Address to check
      */
     function remainingSharesForWallet(address wallet) external view returns (uint256) {
-        return MAX_SHARES_PER_WALLET - purchasedShares[wallet];
+        uint256 purchased = purchasedShares[wallet];
+        return purchased >= MAX_SHARES_PER_WALLET ? 0 : MAX_SHARES_PER_WALLET - purchased;
+    }
+    
+    /**
+     * @notice Shares the token must keep in a wallet (SSFShareToken transfer lock)
+     * @dev Escrowed purchases until finalizeSale(); refund() clears them before burning
+     * @param wallet Address to check
+     */
+    function lockedBalanceOf(address wallet) external view returns (uint256) {
+        if (softCapShares == 0 || saleFinalized) return 0;
+        return purchasedShares[wallet];
+    }
+    
+    /**
+     * @notice Check an (investor, maxShares) leaf against the allowlist root
+     * @param investor Address of the investor
+     * @param maxShares Investor's cap encoded in the leaf
+     * @param proof Merkle proof for the leaf
+     */
+    function verifyAllowlist(
+        address investor,
+        uint256 maxShares,
+        bytes32[] calldata proof
+    ) public view returns (bool) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(investor, maxShares))));
+        return MerkleProof.verifyCalldata(proof, allowlistRoot, leaf);
+    }
+    
+    /**
+     * @notice Check a voucher signature against the current voucherSigner
+     * @param voucher Voucher fields
+     * @param signature EIP-712 signature over the voucher
+     */
+    function verifyVoucher(
+        PurchaseVoucher calldata voucher,
+        bytes calldata signature
+    ) public view returns (bool) {
+        if (voucherSigner == address(0)) return false;
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(
+                PURCHASE_VOUCHER_TYPEHASH,
+                voucher.buyer,
+                voucher.maxShares,
+                voucher.expiry,
+                voucher.nonce
+            ))
+        );
+        (address recovered, ECDSA.RecoverError err, ) = ECDSA.tryRecover(digest, signature);
+        return err == ECDSA.RecoverError.NoError && recovered == voucherSigner;
     }
     
     /**
@@ -235,9 +558,61 @@ contract SSFShareSale is Ownable, Pausable, ReentrancyGuard {
      */
     function isSaleActive() external view returns (bool) {
         return !paused() && 
+               !saleFinalized &&
                block.timestamp >= saleStart && 
                block.timestamp <= saleEnd &&
                sharesSold < MAX_SHARES;
     }
+    
+    // ============ INTERNAL ============
+    
+    /**
+     * @notice Shared purchase path once the buyer has passed an allowlist check
+     */
+    function _buy(uint256 shares) internal {
+        // 2. Check sale window
+        if (saleFinalized || block.timestamp < saleStart || block.timestamp > saleEnd) {
+            revert SaleNotActive();
+        }
+        
+        // 3. Validate share amount
+        if (shares == 0) {
+            revert InvalidShareAmount();
+        }
+        
+        // 4. Check per-wallet cap
+        if (purchasedShares[msg.sender] + shares > MAX_SHARES_PER_WALLET) {
+            revert WalletCapExceeded();
+        }
+        
+        // 5. Check total sale cap
+        if (sharesSold + shares > MAX_SHARES) {
+            revert SaleCapExceeded();
+        }
+        
+        // 6. Calculate cost and split
+        uint256 cost = shares * PRICE_PER_SHARE_USDC;
+        uint256 reserveAmount = (cost * RESERVE_BPS) / 10_000;
+        uint256 treasuryAmount = cost - reserveAmount;
+        
+        // 7. Transfer USDC: escrow until finalizeSale(), or 50% to treasury, 50% to reserveVault
+        if (softCapShares != 0) {
+            usdc.safeTransferFrom(msg.sender, address(this), cost);
+            escrowedUsdcOf[msg.sender] += cost;
+            escrowedUsdc += cost;
+        } else {
+            usdc.safeTransferFrom(msg.sender, treasury, treasuryAmount);
+            usdc.safeTransferFrom(msg.sender, reserveVault, reserveAmount);
+        }
+        
+        // 8. Update state
+        purchasedShares[msg.sender] += shares;
+        sharesSold += shares;
+        lastPurchaseAt[msg.sender] = uint64(block.timestamp);
+        
+        // 9. Mint shares to buyer
+        shareToken.mint(msg.sender, shares);
+        
+        emit Purchased(msg.sender, shares, cost);
+    }
 }
-
@@ -0,0 +1,475 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+interface ISSFShareToken {
+    function MAX_SUPPLY() external view returns (uint256);
+    function mint(address to, uint256 shares) external;
+    function recoveredTo(address lost) external view returns (address);
+}
+
+interface ISSFReserveVaultV2 {
+    function FLOOR_BPS() external view returns (uint256);
+    function recordIssuance(uint256 shares, uint256 usdcPaid) external;
+}
+
+/**
+ * @title SSFShareSaleV2
+ * @notice Allowlist-based share sale on a tiered / time-stepped pricing schedule
+ * @dev USDC splits: RESERVE_BPS to reserveVault (SSFReserveVaultV2), rest to treasury.
+ *      Every purchase is reported to the vault so its floor tracks the
+ *      weighted issue price actually paid.
+ * 
+ * PRICING SCHEDULE (fixed at deployment):
+ *   - Ordered tiers of (upToShares, endsAt, pricePerShareUsdc)
+ *   - Share #k of the sale (0-based, by sharesSold) is priced by the first tier
+ *     with k < upToShares that has not expired (endsAt == 0 never expires)
+ *   - Unsold capacity of an expired tier rolls into the next live tier,
+ *     e.g. early-bird shares not taken by the deadline sell at the next price
+ *   - Last tier must cover MAX_SHARES and never expire
+ *   - Tier prices must be non-decreasing, so the vault's weighted floor never
+ *     rises above what earlier redemptions left in reserve
+ *   - quote(shares) prices purchases that span tier boundaries
+ * 
+ * SALE PARAMETERS (immutable, set per fund at deployment):
+ *   - MAX_SHARES: total cap, at most shareToken.MAX_SUPPLY()
+ *   - MAX_SHARES_PER_WALLET: per-wallet cap, at most MAX_SHARES
+ *   - MAX_ALLOWLIST: allowlist capacity
+ *   - RESERVE_BPS: split to ReserveVault, at least the vault's FLOOR_BPS so
+ *     every share sold is fully backed at the floor
+ *   - See scripts/config/ssf-v2/ for per-network values
+ * 
+ * FROZEN PARAMETERS: max 8 pricing tiers
+ * 
+ * PERMIT BUY: buyWithPermit() takes an EIP-2612 USDC permit for maxCost,
+ * so allowlisted buyers purchase in a single transaction without approve().
+ * 
+ * WALLET RECOVERY: after SSFShareToken.recoverWallet(lost, replacement), anyone can
+ * call migratePurchases(lost) to move wallet-cap accounting to the replacement.
+ * 
+ * Merkle allowlists, signed vouchers and escrow remain SSFShareSale (v1) features.
+ * 
+ * IMMUTABLE CONTRACT - No proxy upgradeability.
+ * Future iterations via versioned deployments (V1/V2/...).
+ */
+contract SSFShareSaleV2 is Ownable, Pausable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    
+    // ============ VERSION ============
+    string public constant VERSION = "SSFShareSale@2.2.2";
+    
+    // ============ FROZEN PARAMETERS ============
+    uint256 public constant MAX_PRICE_TIERS = 8;
+    
+    // ============ SALE PARAMETERS ============
+    uint256 public immutable MAX_SHARES;
+    uint256 public immutable MAX_SHARES_PER_WALLET;
+    uint256 public immutable MAX_ALLOWLIST;
+    uint256 public immutable RESERVE_BPS;
+    
+    // ============ IMMUTABLES ============
+    IERC20 public immutable usdc;
+    ISSFShareToken public immutable shareToken;
+    address public immutable treasury;
+    ISSFReserveVaultV2 public immutable reserveVault;
+    
+    // ============ STATE ============
+    struct SaleConfig {
+        uint256 maxShares;
+        uint256 maxSharesPerWallet;
+        uint256 maxAllowlist;
+        uint256 reserveBps;        // Share of each purchase sent to reserveVault
+    }
+    
+    struct PriceTier {
+        uint256 upToShares;        // Cumulative sharesSold this tier runs up to (exclusive)
+        uint64 endsAt;             // Unix seconds UTC the tier expires, 0 = never
+        uint256 pricePerShareUsdc; // 6 decimals
+    }
+    
+    uint64 public saleStart;
+    uint64 public saleEnd;
+    uint256 public sharesSold;
+    uint256 public allowlistCount;
+    PriceTier[] public priceTiers;
+    
+    mapping(address => bool) public allowlist;
+    mapping(address => uint256) public purchasedShares;
+    
+    // ============ EVENTS ============
+    event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
+    event SaleWindowUpdated(uint64 start, uint64 end);
+    event PriceTierSet(uint256 indexed index, uint256 upToShares, uint64 endsAt, uint256 pricePerShareUsdc);
+    event AllowlistUpdated(address[] addresses, bool allowed);
+    event Purchased(address indexed buyer, uint256 shares, uint256 usdcCost);
+    event PurchasesMigrated(address indexed lost, address indexed replacement, uint256 shares);
+    
+    // ============ ERRORS ============
+    error ZeroAddress();
+    error NotAllowlisted();
+    error SaleNotActive();
+    error InvalidShareAmount();
+    error WalletCapExceeded();
+    error SaleCapExceeded();
+    error AllowlistCapExceeded();
+    error InvalidSaleWindow();
+    error InvalidPriceSchedule();
+    error InvalidSaleConfig();
+    error CostExceedsMax(uint256 cost, uint256 maxCost);
+    error NotRecovered();
+    
+    // ============ CONSTRUCTOR ============
+    constructor(
+        address _usdc,
+        address _shareToken,
+        address _reserveVault,
+        address _treasury,
+        address _owner,
+        uint64 _saleStart,
+        uint64 _saleEnd,
+        SaleConfig memory _config,
+        PriceTier[] memory _priceTiers
+    ) Ownable(_owner) {
+        if (_usdc == address(0) || _shareToken == address(0) || _treasury == address(0) || _reserveVault == address(0)) {
+            revert ZeroAddress();
+        }
+        if (_saleEnd <= _saleStart) {
+            revert InvalidSaleWindow();
+        }
+        _validateConfig(_config, _shareToken, _reserveVault);
+        
+        MAX_SHARES = _config.maxShares;
+        MAX_SHARES_PER_WALLET = _config.maxSharesPerWallet;
+        MAX_ALLOWLIST = _config.maxAllowlist;
+        RESERVE_BPS = _config.reserveBps;
+        usdc = IERC20(_usdc);
+        shareToken = ISSFShareToken(_shareToken);
+        reserveVault = ISSFReserveVaultV2(_reserveVault);
+        treasury = _treasury;
+        saleStart = _saleStart;
+        saleEnd = _saleEnd;
+        _setPriceTiers(_priceTiers, _config.maxShares);
+        
+        // Deploy paused by default until allowlist is set
+        _pause();
+        
+        emit Deployed(VERSION, block.chainid, msg.sender, block.timestamp);
+        emit SaleWindowUpdated(_saleStart, _saleEnd);
+    }
+    
+    // ============ USER FUNCTIONS ============
+    
+    /**
+     * @notice Purchase shares with USDC at the current schedule price
+     * @dev Requires: not paused, allowlisted, within sale window, caps not exceeded.
+     *      maxCost protects against a tier boundary or time step landing first.
+     * @param shares Number of shares to purchase (whole number)
+     * @param maxCost Most USDC the buyer accepts to pay (see quote())
+     */
+    function buy(uint256 shares, uint256 maxCost) external nonReentrant whenNotPaused {
+        // 1. Check allowlist
+        if (!allowlist[msg.sender]) {
+            revert NotAllowlisted();
+        }
+        
+        _buy(shares, maxCost);
+    }
+    
+    /**
+     * @notice Purchase shares with an EIP-2612 USDC permit in one transaction
+     * @dev Permit must cover maxCost for this contract. A failed permit is ignored
+     *      if allowance is already sufficient (e.g. the permit was front-run),
+     *      so buyers cannot be griefed.
+     * @param shares Number of shares to purchase (whole number)
+     * @param maxCost Permit value and most USDC the buyer accepts to pay
+     * @param deadline Permit deadline (unix seconds UTC)
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function buyWithPermit(
+        uint256 shares,
+        uint256 maxCost,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        // 1. Check allowlist
+        if (!allowlist[msg.sender]) {
+            revert NotAllowlisted();
+        }
+        
+        try IERC20Permit(address(usdc)).permit(msg.sender, address(this), maxCost, deadline, v, r, s) {
+        } catch {
+            // Fall through: transferFrom reverts below if allowance is short
+        }
+        
+        _buy(shares, maxCost);
+    }
+    
+    /**
+     * @notice Carry purchase accounting over to a recovered wallet
+     * @dev Permissionless: the share token's recoveredTo record is the authority
+     * @param lost Wallet recovered via SSFShareToken.recoverWallet()
+     */
+    function migratePurchases(address lost) external {
+        address replacement = shareToken.recoveredTo(lost);
+        if (replacement == address(0)) {
+            revert NotRecovered();
+        }
+        
+        uint256 shares = purchasedShares[lost];
+        purchasedShares[lost] = 0;
+        purchasedShares[replacement] += shares;
+        
+        emit PurchasesMigrated(lost, replacement, shares);
+    }
+    
+    // ============ ADMIN FUNCTIONS ============
+    
+    /**
+     * @notice Set or remove addresses from allowlist
+     * @dev Enforces MAX_ALLOWLIST capacity when adding addresses
+     * @param addresses Array of addresses to update
+     * @param allowed Whether to add (true) or remove (false)
+     */
+    function setAllowlist(address[] calldata addresses, bool allowed) external onlyOwner {
+        for (uint256 i = 0; i < addresses.length; i++) {
+            address addr = addresses[i];
+            if (addr == address(0)) continue;
+            
+            bool wasAllowed = allowlist[addr];
+            
+            if (allowed && !wasAllowed) {
+                // Adding new address - check capacity
+                if (allowlistCount >= MAX_ALLOWLIST) {
+                    revert AllowlistCapExceeded();
+                }
+                allowlist[addr] = true;
+                allowlistCount++;
+            } else if (!allowed && wasAllowed) {
+                // Removing address
+                allowlist[addr] = false;
+                allowlistCount--;
+            }
+        }
+        
+        emit AllowlistUpdated(addresses, allowed);
+    }
+    
+    /**
+     * @notice Update sale window (emergency use only)
+     * @dev Does not move tier deadlines; the schedule is fixed at deployment
+     * @param _start New start timestamp (unix seconds UTC)
+     * @param _end New end timestamp (unix seconds UTC)
+     */
+    function setSaleWindow(uint64 _start, uint64 _end) external onlyOwner {
+        if (_end <= _start) {
+            revert InvalidSaleWindow();
+        }
+        saleStart = _start;
+        saleEnd = _end;
+        emit SaleWindowUpdated(_start, _end);
+    }
+    
+    /**
+     * @notice Pause the sale (stops all purchases)
+     */
+    function pause() external onlyOwner {
+        _pause();
+    }
+    
+    /**
+     * @notice Unpause the sale (enables purchases if window is active)
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice USDC cost of buying `shares` now, across tier boundaries
+     * @dev Reverts with SaleCapExceeded if fewer than `shares` remain
+     * @param shares Number of shares to price
+     * @return cost Total USDC (6 decimals)
+     */
+    function quote(uint256 shares) public view returns (uint256 cost) {
+        if (sharesSold + shares > MAX_SHARES) {
+            revert SaleCapExceeded();
+        }
+        
+        uint256 cursor = sharesSold;
+        uint256 remaining = shares;
+        for (uint256 i = 0; i < priceTiers.length && remaining > 0; i++) {
+            PriceTier memory tier = priceTiers[i];
+            if (cursor >= tier.upToShares || _isExpired(tier)) continue;
+            
+            uint256 take = tier.upToShares - cursor;
+            if (take > remaining) take = remaining;
+            
+            cost += take * tier.pricePerShareUsdc;
+            cursor += take;
+            remaining -= take;
+        }
+    }
+    
+    /**
+     * @notice Price of the next share sold
+     * @return USDC (6 decimals), 0 once the sale is sold out
+     */
+    function currentPrice() external view returns (uint256) {
+        if (sharesSold >= MAX_SHARES) return 0;
+        return quote(1);
+    }
+    
+    /**
+     * @notice Number of tiers in the pricing schedule
+     */
+    function priceTierCount() external view returns (uint256) {
+        return priceTiers.length;
+    }
+    
+    /**
+     * @notice Check remaining shares available for purchase
+     */
+    function remainingShares() external view returns (uint256) {
+        return MAX_SHARES - sharesSold;
+    }
+    
+    /**
+     * @notice Check remaining shares a wallet can purchase
+     * @dev 0 when migratePurchases() carried a wallet over the cap
+     * @param wallet Address to check
+     */
+    function remainingSharesForWallet(address wallet) external view returns (uint256) {
+        uint256 purchased = purchasedShares[wallet];
+        return purchased >= MAX_SHARES_PER_WALLET ? 0 : MAX_SHARES_PER_WALLET - purchased;
+    }
+    
+    /**
+     * @notice Check if sale is currently active
+     */
+    function isSaleActive() external view returns (bool) {
+        return !paused() &&
+               block.timestamp >= saleStart &&
+               block.timestamp <= saleEnd &&
+               sharesSold < MAX_SHARES;
+    }
+    
+    // ============ INTERNAL ============
+    
+    /**
+     * @notice Shared purchase path once the buyer has passed an allowlist check
+     */
+    function _buy(uint256 shares, uint256 maxCost) internal {
+        // 2. Check sale window
+        if (block.timestamp < saleStart || block.timestamp > saleEnd) {
+            revert SaleNotActive();
+        }
+        
+        // 3. Validate share amount
+        if (shares == 0) {
+            revert InvalidShareAmount();
+        }
+        
+        // 4. Check per-wallet cap
+        if (purchasedShares[msg.sender] + shares > MAX_SHARES_PER_WALLET) {
+            revert WalletCapExceeded();
+        }
+        
+        // 5. Price across tiers (also checks total sale cap)
+        uint256 cost = quote(shares);
+        if (cost > maxCost) {
+            revert CostExceedsMax(cost, maxCost);
+        }
+        
+        // 6. Split
+        uint256 reserveAmount = (cost * RESERVE_BPS) / 10_000;
+        uint256 treasuryAmount = cost - reserveAmount;
+        
+        // 7. Transfer USDC: RESERVE_BPS to reserveVault, rest to treasury
+        usdc.safeTransferFrom(msg.sender, treasury, treasuryAmount);
+        usdc.safeTransferFrom(msg.sender, address(reserveVault), reserveAmount);
+        
+        // 8. Update state and the vault's weighted issue price
+        purchasedShares[msg.sender] += shares;
+        sharesSold += shares;
+        reserveVault.recordIssuance(shares, cost);
+        
+        // 9. Mint shares to buyer
+        shareToken.mint(msg.sender, shares);
+        
+        emit Purchased(msg.sender, shares, cost);
+    }
+    
+    /**
+     * @notice Check sale parameters against each other, the token and the vault
+     */
+    function _validateConfig(
+        SaleConfig memory config,
+        address _shareToken,
+        address _reserveVault
+    ) internal view {
+        if (config.maxShares == 0 || config.maxShares > ISSFShareToken(_shareToken).MAX_SUPPLY()) {
+            revert InvalidSaleConfig();
+        }
+        if (config.maxSharesPerWallet == 0 || config.maxSharesPerWallet > config.maxShares) {
+            revert InvalidSaleConfig();
+        }
+        if (config.maxAllowlist == 0) {
+            revert InvalidSaleConfig();
+        }
+        if (config.reserveBps > 10_000 || config.reserveBps < ISSFReserveVaultV2(_reserveVault).FLOOR_BPS()) {
+            revert InvalidSaleConfig();
+        }
+    }
+    
+    /**
+     * @notice Validate and store the pricing schedule
+     * @dev Takes maxShares as an argument: immutables are not readable during construction
+     */
+    function _setPriceTiers(PriceTier[] memory tiers, uint256 maxShares) internal {
+        if (tiers.length == 0 || tiers.length > MAX_PRICE_TIERS) {
+            revert InvalidPriceSchedule();
+        }
+        
+        uint256 previousUpTo = 0;
+        uint256 previousPrice = 0;
+        for (uint256 i = 0; i < tiers.length; i++) {
+            PriceTier memory tier = tiers[i];
+            if (
+                tier.upToShares <= previousUpTo ||
+                tier.pricePerShareUsdc == 0 ||
+                tier.pricePerShareUsdc < previousPrice
+            ) {
+                revert InvalidPriceSchedule();
+            }
+            previousUpTo = tier.upToShares;
+            previousPrice = tier.pricePerShareUsdc;
+            
+            priceTiers.push(tier);
+            emit PriceTierSet(i, tier.upToShares, tier.endsAt, tier.pricePerShareUsdc);
+        }
+        
+        // Last tier always prices the remainder of the sale
+        PriceTier memory last = tiers[tiers.length - 1];
+        if (last.upToShares != maxShares || last.endsAt != 0) {
+            revert InvalidPriceSchedule();
+        }
+    }
+    
+    /**
+     * @notice Whether a tier's deadline has passed
+     */
+    function _isExpired(PriceTier memory tier) internal view returns (bool) {
+        return tier.endsAt != 0 && block.timestamp >= tier.endsAt;
+    }
+}
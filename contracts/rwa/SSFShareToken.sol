@@ -2,19 +2,72 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./ERC20BalanceCheckpoints.sol";
+
+interface ISSFCompliance {
+    function detectTransferRestriction(address from, address to, uint256 value) external view returns (uint8);
+    function transferred(address from, address to, uint256 value) external;
+}
+
+interface ISSFTransferLock {
+    function lockedBalanceOf(address wallet) external view returns (uint256);
+}
 
 /**
  * @title SSFShareToken
  * @notice ERC20 token representing shares in SSF (1 token = 1 share)
  * @dev Decimals=0 for whole shares only. MINTER_ROLE for ShareSale contract.
+ *      Balances are checkpointed (getPastBalance) so it can weight RENTDistribution.
+ *      Current holders (non-zero balance) are enumerable via holders(offset, limit)
+ *      for distributions and cap table exports.
+ * 
+ * PERMIT AND VOTES:
+ *   - EIP-2612 permit() for gasless approvals, e.g. SSFReserveVault.redeemWithPermit()
+ *   - ERC20Votes checkpoints for investor votes on property decisions (getPastVotes).
+ *     Every holder is self-delegated on first receipt, so votes follow balances
+ *     unless the holder delegates elsewhere.
+ *   - Escrow agents (setEscrowAgent, e.g. SSFReserveVault's queue) are never
+ *     delegated, so shares they hold carry no votes
+ *   - Block-number clock shared by getPastVotes, getPastBalance and getPastTotalSupply;
+ *     total supply is checkpointed once, by ERC20Votes
+ * 
+ * COMPLIANCE (ERC-3643 style):
+ *   - Optional compliance module (SSFComplianceModule) consulted on every mint,
+ *     transfer and burn; a non-zero reason code reverts with TransferRestricted(code)
+ *   - address(0) = unrestricted transfers
+ * 
+ * ACQUISITION TIME:
+ *   - lastAcquiredAt(wallet): when the wallet's newest shares were minted. A transfer
+ *     carries the sender's time to the recipient if it is later, so moving shares
+ *     to a fresh wallet does not make them look older (SSFReserveVault holding period)
+ *   - Escrow agents neither record nor pass on a time, so a cancelled escrow
+ *     returns shares without resetting the holder's clock
+ * 
+ * TRANSFER LOCK:
+ *   - Optional lock (SSFShareSale in escrow mode) reporting lockedBalanceOf(wallet);
+ *     transfers and burns may not take a wallet below its locked balance
+ *   - address(0) = no lock
+ * 
+ * ENFORCEMENT (regulated security):
+ *   - FREEZER_ROLE: freeze()/unfreeze() a wallet; frozen wallets cannot send,
+ *     receive, redeem or be minted to
+ *   - RECOVERY_ROLE: forcedTransfer() and recoverWallet() after off-chain
+ *     verification; both bypass freezes and compliance rules
+ *   - recoverWallet() records recoveredTo[lost] so sales can migrate purchase
+ *     accounting (SSFShareSale.migratePurchases)
  * 
  * IMMUTABLE CONTRACT - No proxy upgradeability.
  * Future iterations via versioned deployments (V1/V2/...).
  */
-contract SSFShareToken is ERC20, AccessControl {
+contract SSFShareToken is ERC20BalanceCheckpoints, ERC20Permit, ERC20Votes, AccessControl {
+    using EnumerableSet for EnumerableSet.AddressSet;
+    
     // ============ VERSION ============
-    string public constant VERSION = "SSFShareToken@1.0.0";
+    string public constant VERSION = "SSFShareToken@2.3.0";
     
     // ============ CONSTANTS ============
     uint256 public constant MAX_SUPPLY = 20_000;
@@ -22,16 +75,47 @@ contract SSFShareToken is ERC20, AccessControl {
     // ============ ROLES ============
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
     bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
+    bytes32 public constant FREEZER_ROLE = keccak256("FREEZER_ROLE");
+    bytes32 public constant RECOVERY_ROLE = keccak256("RECOVERY_ROLE");
+    
+    // ============ STATE ============
+    ISSFCompliance public compliance;      // 0 = unrestricted
+    ISSFTransferLock public transferLock;  // 0 = no lock
+    mapping(address => bool) public frozen;
+    mapping(address => address) public recoveredTo;  // lost wallet => replacement
+    mapping(address => bool) public escrowAgents;    // Contracts holding shares for others
+    mapping(address => uint64) public lastAcquiredAt; // Unix seconds UTC, mint time carried by transfers
+    bool private _forcing;                 // Set during forced moves to skip restrictions
+    EnumerableSet.AddressSet private _holders;
     
     // ============ EVENTS ============
     event Deployed(string version, uint256 chainId, address deployer, uint256 deployedAt);
+    event ComplianceUpdated(address indexed oldCompliance, address indexed newCompliance);
+    event TransferLockUpdated(address indexed oldLock, address indexed newLock);
+    event EscrowAgentUpdated(address indexed agent, bool isAgent);
+    event WalletFrozen(address indexed wallet, address indexed agent);
+    event WalletUnfrozen(address indexed wallet, address indexed agent);
+    event ForcedTransfer(
+        address indexed from,
+        address indexed to,
+        uint256 amount,
+        bytes32 reasonHash,
+        address indexed agent
+    );
+    event WalletRecovered(address indexed lost, address indexed replacement, uint256 amount, address agent);
+    
+    // ============ ERRORS ============
+    error TransferRestricted(uint8 code);
+    error WalletIsFrozen(address wallet);
+    error SharesLocked(address wallet, uint256 locked);
+    error InvalidRecovery();
     
     // ============ CONSTRUCTOR ============
     constructor(
         string memory name,
         string memory symbol,
         address admin
-    ) ERC20(name, symbol) {
+    ) ERC20(name, symbol) ERC20Permit(name) {
         require(admin != address(0), "SSFShareToken: admin is zero address");
         
         _grantRole(DEFAULT_ADMIN_ROLE, admin);
@@ -49,6 +133,155 @@ contract SSFShareToken is ERC20, AccessControl {
         return 0;
     }
     
+    /**
+     * @notice Block-number clock for votes and balance checkpoints
+     */
+    function clock() public view override(ERC20BalanceCheckpoints, Votes) returns (uint48) {
+        return super.clock();
+    }
+    
+    /**
+     * @notice Total supply at the end of a past block
+     * @dev Read from the Votes checkpoints, the only place total supply is recorded
+     */
+    function getPastTotalSupply(
+        uint256 timepoint
+    ) public view override(ERC20BalanceCheckpoints, Votes) returns (uint256) {
+        return Votes.getPastTotalSupply(timepoint);
+    }
+    
+    /**
+     * @notice Shared permit / delegateBySig nonce
+     */
+    function nonces(address owner) public view override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
+    
+    /**
+     * @notice Enforce freezes and the compliance module on every balance change
+     * @dev Checks before the update, reports to the module after it.
+     *      Forced moves skip the checks (and the transfer lock) but are still reported.
+     *      First-time recipients other than escrow agents are self-delegated so
+     *      their shares carry votes, and inherit the sender's acquisition time.
+     */
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override(ERC20, ERC20BalanceCheckpoints, ERC20Votes) {
+        ISSFCompliance module = compliance;
+        if (!_forcing) {
+            if (frozen[from]) {
+                revert WalletIsFrozen(from);
+            }
+            if (frozen[to]) {
+                revert WalletIsFrozen(to);
+            }
+            if (from != address(0) && address(transferLock) != address(0)) {
+                uint256 balance = balanceOf(from);
+                uint256 locked = transferLock.lockedBalanceOf(from);
+                if (value <= balance && balance - value < locked) {
+                    revert SharesLocked(from, locked);
+                }
+            }
+        }
+        if (address(module) != address(0) && !_forcing) {
+            uint8 code = module.detectTransferRestriction(from, to, value);
+            if (code != 0) {
+                revert TransferRestricted(code);
+            }
+        }
+        
+        super._update(from, to, value);
+        
+        if (to != address(0) && balanceOf(to) != 0) {
+            _holders.add(to);
+        }
+        if (from != address(0) && balanceOf(from) == 0) {
+            _holders.remove(from);
+        }
+        if (to != address(0) && !escrowAgents[to]) {
+            if (delegates(to) == address(0)) {
+                _delegate(to, to);
+            }
+            if (value != 0 && !escrowAgents[from]) {
+                uint64 acquiredAt = from == address(0) ? uint64(block.timestamp) : lastAcquiredAt[from];
+                if (acquiredAt > lastAcquiredAt[to]) {
+                    lastAcquiredAt[to] = acquiredAt;
+                }
+            }
+        }
+        
+        if (address(module) != address(0)) {
+            module.transferred(from, to, value);
+        }
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Number of wallets with a non-zero balance
+     */
+    function holderCount() external view returns (uint256) {
+        return _holders.length();
+    }
+    
+    /**
+     * @notice Page through current holders
+     * @dev Order is not stable: removing a holder moves the last holder into its slot.
+     *      Read all pages at the same block for a consistent snapshot.
+     * @param offset Index of the first holder to return
+     * @param limit Maximum number of holders to return
+     * @return page Holder addresses (empty once offset >= holderCount)
+     */
+    function holders(uint256 offset, uint256 limit) external view returns (address[] memory page) {
+        uint256 total = _holders.length();
+        if (offset >= total) {
+            return page;
+        }
+        
+        uint256 end = limit > total - offset ? total : offset + limit;
+        page = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _holders.at(i);
+        }
+    }
+    
+    // ============ ADMIN FUNCTIONS ============
+    
+    /**
+     * @notice Attach, replace or detach the compliance module
+     * @dev Attach before the first mint: the module counts holders from zero
+     * @param newCompliance Module address, address(0) to lift all restrictions
+     */
+    function setCompliance(address newCompliance) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit ComplianceUpdated(address(compliance), newCompliance);
+        compliance = ISSFCompliance(newCompliance);
+    }
+    
+    /**
+     * @notice Register a contract that holds shares on behalf of holders
+     * @dev Agents are not self-delegated; registering one drops its existing delegation
+     * @param agent Escrow contract (e.g. SSFReserveVault)
+     * @param isAgent Whether to register or unregister the agent
+     */
+    function setEscrowAgent(address agent, bool isAgent) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        escrowAgents[agent] = isAgent;
+        if (isAgent && delegates(agent) != address(0)) {
+            _delegate(agent, address(0));
+        }
+        emit EscrowAgentUpdated(agent, isAgent);
+    }
+    
+    /**
+     * @notice Attach, replace or detach the transfer lock
+     * @param newLock Lock address (e.g. an escrowed SSFShareSale), address(0) for none
+     */
+    function setTransferLock(address newLock) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit TransferLockUpdated(address(transferLock), newLock);
+        transferLock = ISSFTransferLock(newLock);
+    }
+    
     // ============ MINTER FUNCTIONS ============
     
     /**
@@ -71,5 +304,85 @@ contract SSFShareToken is ERC20, AccessControl {
     function burnFrom(address from, uint256 shares) external onlyRole(BURNER_ROLE) {
         _burn(from, shares);
     }
+    
+    // ============ ENFORCEMENT FUNCTIONS ============
+    
+    /**
+     * @notice Freeze a wallet (e.g. sanctions hit)
+     * @param wallet Wallet to freeze
+     */
+    function freeze(address wallet) external onlyRole(FREEZER_ROLE) {
+        frozen[wallet] = true;
+        emit WalletFrozen(wallet, msg.sender);
+    }
+    
+    /**
+     * @notice Lift a freeze
+     * @param wallet Wallet to unfreeze
+     */
+    function unfreeze(address wallet) external onlyRole(FREEZER_ROLE) {
+        frozen[wallet] = false;
+        emit WalletUnfrozen(wallet, msg.sender);
+    }
+    
+    /**
+     * @notice Move shares without the holder's signature (court order, regulator instruction)
+     * @dev Bypasses freezes and compliance rules; the module still sees the move
+     * @param from Wallet to take shares from
+     * @param to Wallet to give shares to
+     * @param amount Shares to move
+     * @param reasonHash Hash of the off-chain order / case file justifying the move
+     */
+    function forcedTransfer(
+        address from,
+        address to,
+        uint256 amount,
+        bytes32 reasonHash
+    ) external onlyRole(RECOVERY_ROLE) {
+        _forcedTransfer(from, to, amount);
+        emit ForcedTransfer(from, to, amount, reasonHash, msg.sender);
+    }
+    
+    /**
+     * @notice Move all shares of a lost wallet to a verified replacement
+     * @dev Freezes the lost wallet and records recoveredTo[lost] = replacement.
+     *      Replacement must be fresh so recoveries cannot merge two investors.
+     * @param lost Wallet the investor no longer controls
+     * @param replacement New wallet, verified off-chain to belong to the same investor
+     */
+    function recoverWallet(address lost, address replacement) external onlyRole(RECOVERY_ROLE) {
+        if (
+            replacement == address(0) ||
+            replacement == lost ||
+            balanceOf(replacement) != 0 ||
+            recoveredTo[replacement] != address(0)
+        ) {
+            revert InvalidRecovery();
+        }
+        
+        uint256 amount = balanceOf(lost);
+        _forcedTransfer(lost, replacement, amount);
+        frozen[lost] = true;
+        recoveredTo[lost] = replacement;
+        
+        emit WalletFrozen(lost, msg.sender);
+        emit WalletRecovered(lost, replacement, amount, msg.sender);
+    }
+    
+    // ============ INTERNAL ============
+    
+    /**
+     * @notice Total supply is checkpointed by ERC20Votes only
+     */
+    function _checkpointTotalSupply(uint48) internal pure override {}
+    
+    /**
+     * @notice Transfer with freeze and compliance checks disabled
+     */
+    function _forcedTransfer(address from, address to, uint256 amount) internal {
+        _forcing = true;
+        _transfer(from, to, amount);
+        _forcing = false;
+    }
 }
 
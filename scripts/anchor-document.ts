@@ -0,0 +1,159 @@
+/**
+ * Anchor a supporting document to a rent period or exit event
+ *
+ * Auditors tie each RENTDistribution period to its rent roll and each
+ * APPDistribution event to its closing statement or refinance docs. This script:
+ *   1. Hashes the local file (sha256) so anyone holding the PDF/CSV can re-check it
+ *   2. Shows the current on-chain anchor for the target period/event
+ *   3. If ANCHOR_SUBMIT=true, calls anchorDocument() and checks the stored hash
+ *
+ * Anchors can be replaced until the period/event is finalized, never afterwards.
+ *
+ * Environment:
+ *   ANCHOR_FILE      Path to the PDF/CSV to anchor (required)
+ *   ANCHOR_URI       IPFS CID or URL where the file is published (required)
+ *   ANCHOR_TARGET    "rent" (current RENTDistribution period) or "app" (APPDistribution event)
+ *   ANCHOR_EVENT_ID  APPDistribution event ID (required for ANCHOR_TARGET=app)
+ *   ANCHOR_SUBMIT    "true" to send the transaction (default: dry run)
+ *
+ * Usage:
+ *   ANCHOR_FILE=./rent-roll-2026-03.csv ANCHOR_URI=ipfs://bafy... ANCHOR_TARGET=rent \
+ *     npx hardhat run scripts/anchor-document.ts --network base-sepolia
+ *
+ *   ANCHOR_FILE=./closing-statement.pdf ANCHOR_URI=ipfs://bafy... ANCHOR_TARGET=app \
+ *   ANCHOR_EVENT_ID=1 ANCHOR_SUBMIT=true \
+ *     npx hardhat run scripts/anchor-document.ts --network base-sepolia
+ */
+import { ethers } from "hardhat";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contracts: {
+    RENTDistribution: { address: string; version: string };
+    APPDistribution: { address: string; version: string };
+  };
+}
+
+type AnchorTarget = "rent" | "app";
+
+/**
+ * sha256 of the file contents as a 0x-prefixed bytes32
+ */
+function hashFile(filePath: string): string {
+  const digest = createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+  return "0x" + digest;
+}
+
+async function main() {
+  const filePath = process.env.ANCHOR_FILE;
+  const documentURI = process.env.ANCHOR_URI;
+  const target = (process.env.ANCHOR_TARGET || "rent") as AnchorTarget;
+  const submit = process.env.ANCHOR_SUBMIT === "true";
+
+  if (!filePath || !fs.existsSync(filePath)) {
+    throw new Error("ANCHOR_FILE is required and must exist");
+  }
+  if (!documentURI) {
+    throw new Error("ANCHOR_URI is required (IPFS CID or URL)");
+  }
+  if (target !== "rent" && target !== "app") {
+    throw new Error(`ANCHOR_TARGET must be "rent" or "app", got "${target}"`);
+  }
+
+  const [signer] = await ethers.getSigners();
+  console.log("Anchoring document with account:", signer.address);
+
+  // Load deployment info (SSOT format)
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 84532n ? "base-sepolia" : "base-mainnet";
+  const deploymentPath = path.join(__dirname, "..", "deployments", `${networkName}.json`);
+
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(`Deployment not found at ${deploymentPath}.`);
+  }
+  const deployment: DeploymentManifest = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+
+  // Step 1: Hash file
+  console.log("\n[Step 1] Hashing", filePath);
+  const contentHash = hashFile(filePath);
+  console.log("  Size:        ", fs.statSync(filePath).size, "bytes");
+  console.log("  sha256:      ", contentHash);
+  console.log("  URI:         ", documentURI);
+
+  // Step 2: Resolve target and show current anchor
+  console.log("\n[Step 2] Resolving target...");
+  let label: string;
+  let readAnchor: () => Promise<{ contentHash: string; documentURI: string; finalized: boolean }>;
+  let sendAnchor: () => Promise<any>;
+
+  if (target === "rent") {
+    const distribution = await ethers.getContractAt(
+      "RENTDistribution",
+      deployment.contracts.RENTDistribution.address
+    );
+    const periodId = await distribution.currentPeriodId();
+    if (periodId === 0n) {
+      throw new Error("No rent period has been started");
+    }
+    label = `RENTDistribution period ${periodId}`;
+    readAnchor = () => distribution.periods(periodId);
+    sendAnchor = () => distribution.anchorDocument(contentHash, documentURI);
+  } else {
+    if (!process.env.ANCHOR_EVENT_ID) {
+      throw new Error("ANCHOR_EVENT_ID is required for ANCHOR_TARGET=app");
+    }
+    const eventId = BigInt(process.env.ANCHOR_EVENT_ID);
+    const distribution = await ethers.getContractAt(
+      "APPDistribution",
+      deployment.contracts.APPDistribution.address
+    );
+    label = `APPDistribution event ${eventId}`;
+    readAnchor = () => distribution.exitEvents(eventId);
+    sendAnchor = () => distribution.anchorDocument(eventId, contentHash, documentURI);
+  }
+
+  const current = await readAnchor();
+  console.log("  Target:      ", label);
+  console.log("  Current hash:", current.contentHash);
+  console.log("  Current URI: ", current.documentURI || "(none)");
+  if (current.finalized) {
+    throw new Error(`${label} is finalized; its anchor is immutable`);
+  }
+  if (current.contentHash === contentHash && current.documentURI === documentURI) {
+    console.log("\nAnchor already matches. Nothing to do.");
+    return;
+  }
+
+  if (!submit) {
+    console.log("\nDry run complete. Re-run with ANCHOR_SUBMIT=true to anchor the document.");
+    return;
+  }
+
+  // Step 3: Submit and confirm on-chain anchor
+  console.log("\n[Step 3] Submitting anchor...");
+  const tx = await sendAnchor();
+  await tx.wait();
+  console.log("  Tx:", tx.hash);
+
+  const stored = await readAnchor();
+  if (stored.contentHash !== contentHash || stored.documentURI !== documentURI) {
+    throw new Error(`On-chain anchor ${stored.contentHash} does not match ${contentHash}`);
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("DOCUMENT ANCHORED");
+  console.log("=".repeat(60));
+  console.log("Target:      ", label);
+  console.log("sha256:      ", contentHash);
+  console.log("URI:         ", documentURI);
+  console.log("=".repeat(60));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
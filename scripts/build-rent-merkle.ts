@@ -0,0 +1,240 @@
+/**
+ * Build a RENTMerkleDistribution tree from an entitlements CSV
+ *
+ * Treasury computes each holder's entitlement off-chain (exclusions, pro-rating
+ * by days held, withheld wallets) and exports a CSV:
+ *
+ *   holder,amount
+ *   0xAbc...,1250.50
+ *   0xDef...,980
+ *
+ * `amount` is in USDC (decimal string, up to 6 decimals). This script:
+ *   1. Builds the Merkle tree (leaf = holder, amount in 6-decimal units)
+ *   2. Writes deployments/<network>-rent-merkle-period-<id>.json with root + proofs
+ *   3. Reads the written file back and verifies every proof against its root and
+ *      the CSV entitlements, and the total against on-chain deposits
+ *   4. If RENT_MERKLE_SUBMIT=true, calls finalizePeriod(root, total) and verifies
+ *      the written proofs against the stored on-chain root
+ *
+ * Prerequisites:
+ *   - RENTMerkleDistribution deployed and recorded in deployments/<network>.json
+ *   - Current period started and funded by treasury
+ *
+ * Usage:
+ *   RENT_MERKLE_CSV=./rent-2026-03.csv \
+ *     npx hardhat run scripts/build-rent-merkle.ts --network base-sepolia
+ *
+ *   # Submit root after reviewing the output
+ *   RENT_MERKLE_CSV=./rent-2026-03.csv RENT_MERKLE_SUBMIT=true \
+ *     npx hardhat run scripts/build-rent-merkle.ts --network base-sepolia
+ */
+import { ethers } from "hardhat";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import * as fs from "fs";
+import * as path from "path";
+
+interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contracts: {
+    RENTMerkleDistribution: { address: string; version: string };
+  };
+}
+
+interface MerkleProofsFile {
+  network: string;
+  contract: string;
+  periodId: string;
+  merkleRoot: string;
+  merkleTotal: string;
+  generatedAt: string;
+  claims: Record<string, { amount: string; proof: string[] }>;
+}
+
+const LEAF_ENCODING = ["address", "uint256"];
+const NETWORK_NAMES: Record<string, string> = {
+  "84532": "base-sepolia",
+  "8453": "base-mainnet",
+};
+
+/**
+ * Check every claim in a proofs file against `root`, and that the claims match the entitlements exactly
+ */
+function verifyProofsFile(proofsFile: MerkleProofsFile, root: string, entitlements: [string, bigint][]): void {
+  const claims = Object.entries(proofsFile.claims);
+  if (claims.length !== entitlements.length) {
+    throw new Error(`Proofs file has ${claims.length} claims, expected ${entitlements.length}`);
+  }
+  for (const [holder, amount] of entitlements) {
+    const claim = proofsFile.claims[holder];
+    if (!claim || BigInt(claim.amount) !== amount) {
+      throw new Error(`Proofs file entry for ${holder} does not match the CSV`);
+    }
+    if (!StandardMerkleTree.verify(root, LEAF_ENCODING, [holder, amount], claim.proof)) {
+      throw new Error(`Proof does not verify for ${holder} against ${root}`);
+    }
+  }
+}
+
+/**
+ * Parse `holder,amount` rows. Header row is optional; duplicate holders are rejected.
+ */
+function parseEntitlementsCsv(csvPath: string): [string, bigint][] {
+  const lines = fs.readFileSync(csvPath, "utf8").split(/\r?\n/).map((l) => l.trim()).filter((l) => l.length > 0);
+  const rows: [string, bigint][] = [];
+  const seen = new Set<string>();
+
+  for (const [index, line] of lines.entries()) {
+    const columns = line.split(",").map((c) => c.trim());
+    const [rawHolder, rawAmount] = columns;
+    if (index === 0 && rawHolder.toLowerCase() === "holder") continue;
+
+    if (columns.length !== 2) {
+      throw new Error(`Line ${index + 1}: expected "holder,amount", got "${line}"`);
+    }
+
+    if (!ethers.isAddress(rawHolder)) {
+      throw new Error(`Line ${index + 1}: invalid holder address "${rawHolder}"`);
+    }
+    const holder = ethers.getAddress(rawHolder);
+    if (seen.has(holder)) {
+      throw new Error(`Line ${index + 1}: duplicate holder ${holder}`);
+    }
+    if (!/^\d+(\.\d{1,6})?$/.test(rawAmount)) {
+      throw new Error(`Line ${index + 1}: amount must be a USDC decimal with up to 6 places, got "${rawAmount}"`);
+    }
+    const amount = ethers.parseUnits(rawAmount, 6);
+    if (amount === 0n) {
+      throw new Error(`Line ${index + 1}: zero amount for ${holder}`);
+    }
+
+    seen.add(holder);
+    rows.push([holder, amount]);
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`No entitlements found in ${csvPath}`);
+  }
+  return rows;
+}
+
+async function main() {
+  const csvPath = process.env.RENT_MERKLE_CSV;
+  if (!csvPath) {
+    throw new Error("RENT_MERKLE_CSV is required (path to holder,amount CSV)");
+  }
+  const submit = process.env.RENT_MERKLE_SUBMIT === "true";
+
+  const [signer] = await ethers.getSigners();
+  console.log("Building rent Merkle tree with account:", signer.address);
+
+  // Load deployment info (SSOT format)
+  const network = await ethers.provider.getNetwork();
+  const networkName = NETWORK_NAMES[network.chainId.toString()];
+  if (!networkName) {
+    throw new Error(`Unsupported chainId ${network.chainId}. Use base-sepolia or base-mainnet.`);
+  }
+  const deploymentPath = path.join(__dirname, "..", "deployments", `${networkName}.json`);
+
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(`Deployment not found at ${deploymentPath}.`);
+  }
+
+  const deployment: DeploymentManifest = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+  if (!deployment.contracts.RENTMerkleDistribution) {
+    throw new Error("RENTMerkleDistribution not found in deployment manifest.");
+  }
+
+  const distributionAddress = deployment.contracts.RENTMerkleDistribution.address;
+  const distribution = await ethers.getContractAt("RENTMerkleDistribution", distributionAddress);
+
+  // Step 1: Build tree
+  console.log("\n[Step 1] Building tree from", csvPath);
+  const entitlements = parseEntitlementsCsv(csvPath);
+  const tree = StandardMerkleTree.of(entitlements, LEAF_ENCODING);
+  const merkleTotal = entitlements.reduce((sum, [, amount]) => sum + amount, 0n);
+
+  console.log("  Holders:     ", entitlements.length);
+  console.log("  Merkle root: ", tree.root);
+  console.log("  Merkle total:", ethers.formatUnits(merkleTotal, 6), "USDC");
+
+  // Step 2: Write proofs file
+  const periodId = await distribution.currentPeriodId();
+  const proofsFile: MerkleProofsFile = {
+    network: networkName,
+    contract: distributionAddress,
+    periodId: periodId.toString(),
+    merkleRoot: tree.root,
+    merkleTotal: merkleTotal.toString(),
+    generatedAt: new Date().toISOString(),
+    claims: {},
+  };
+  for (const [i, [holder, amount]] of tree.entries()) {
+    proofsFile.claims[holder as string] = {
+      amount: (amount as bigint).toString(),
+      proof: tree.getProof(i),
+    };
+  }
+
+  const proofsPath = path.join(
+    __dirname,
+    "..",
+    "deployments",
+    `${networkName}-rent-merkle-period-${periodId}.json`
+  );
+  fs.writeFileSync(proofsPath, JSON.stringify(proofsFile, null, 2));
+  console.log("\n[Step 2] Proofs written to:", proofsPath);
+
+  // Step 3: Verify before submitting
+  console.log("\n[Step 3] Verifying written proofs...");
+  const written: MerkleProofsFile = JSON.parse(fs.readFileSync(proofsPath, "utf8"));
+  if (BigInt(written.merkleTotal) !== merkleTotal) {
+    throw new Error(`Proofs file total ${written.merkleTotal} does not match CSV total ${merkleTotal}`);
+  }
+  verifyProofsFile(written, written.merkleRoot, entitlements);
+  console.log("  All", entitlements.length, "proofs in", path.basename(proofsPath), "verify against", written.merkleRoot);
+
+  const period = await distribution.periods(periodId);
+  console.log("  Period", periodId.toString(), "totalDeposited:", ethers.formatUnits(period.totalDeposited, 6), "USDC");
+  if (period.finalized) {
+    throw new Error(`Period ${periodId} is already finalized`);
+  }
+  if (merkleTotal > period.totalDeposited) {
+    throw new Error(
+      `Merkle total ${ethers.formatUnits(merkleTotal, 6)} exceeds deposits ${ethers.formatUnits(period.totalDeposited, 6)}`
+    );
+  }
+  console.log("  Withheld (returned to treasury at finalization):", ethers.formatUnits(period.totalDeposited - merkleTotal, 6), "USDC");
+
+  if (!submit) {
+    console.log("\nDry run complete. Re-run with RENT_MERKLE_SUBMIT=true to finalize the period.");
+    return;
+  }
+
+  // Step 4: Submit and confirm on-chain root
+  console.log("\n[Step 4] Finalizing period", periodId.toString(), "...");
+  const finalizeTx = await distribution.finalizePeriod(tree.root, merkleTotal);
+  const receipt = await finalizeTx.wait();
+  console.log("  Tx:", finalizeTx.hash);
+
+  const onchain = await distribution.periods(periodId, { blockTag: receipt!.blockNumber });
+  if (onchain.merkleTotal !== merkleTotal) {
+    throw new Error(`On-chain total ${onchain.merkleTotal} does not match ${merkleTotal}`);
+  }
+  verifyProofsFile(written, onchain.merkleRoot, entitlements);
+  console.log("  All proofs verify against on-chain root", onchain.merkleRoot);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("RENT MERKLE ROOT SUBMITTED");
+  console.log("=".repeat(60));
+  console.log("Period:      ", periodId.toString());
+  console.log("Merkle root: ", tree.root);
+  console.log("Merkle total:", ethers.formatUnits(merkleTotal, 6), "USDC");
+  console.log("Proofs file: ", proofsPath);
+  console.log("=".repeat(60));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
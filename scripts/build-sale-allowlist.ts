@@ -0,0 +1,206 @@
+/**
+ * Build an SSFShareSale Merkle allowlist from an investor CSV
+ *
+ * Large raises do not fit the 100-address on-chain allowlist. Compliance exports
+ * the accredited investor list with each investor's share cap:
+ *
+ *   investor,maxShares
+ *   0xAbc...,250
+ *   0xDef...,1000
+ *
+ * This script:
+ *   1. Builds the Merkle tree (leaf = investor, maxShares)
+ *   2. Writes deployments/<network>-sale-allowlist/ with root.json and one
+ *      <investor>.json proof file per investor (handed to the front end)
+ *   3. Verifies every proof against the root
+ *   4. If SALE_ALLOWLIST_SUBMIT=true, calls setAllowlistRoot(root) and checks
+ *      the stored root matches
+ *
+ * Investors then call buy(shares, maxShares, proof) with their proof file.
+ *
+ * Usage:
+ *   SALE_ALLOWLIST_CSV=./investors.csv \
+ *     npx hardhat run scripts/build-sale-allowlist.ts --network base-sepolia
+ *
+ *   # Submit root after reviewing the output
+ *   SALE_ALLOWLIST_CSV=./investors.csv SALE_ALLOWLIST_SUBMIT=true \
+ *     npx hardhat run scripts/build-sale-allowlist.ts --network base-sepolia
+ */
+import { ethers } from "hardhat";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import * as fs from "fs";
+import * as path from "path";
+
+interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contracts: {
+    SSFShareSale: { address: string; version: string };
+  };
+}
+
+interface InvestorProofFile {
+  network: string;
+  contract: string;
+  merkleRoot: string;
+  investor: string;
+  maxShares: string;
+  proof: string[];
+}
+
+const LEAF_ENCODING = ["address", "uint256"];
+
+/**
+ * Parse `investor,maxShares` rows. Header row is optional; duplicate investors are rejected.
+ */
+function parseInvestorsCsv(csvPath: string, maxSharesPerWallet: bigint): [string, bigint][] {
+  const lines = fs.readFileSync(csvPath, "utf8").split(/\r?\n/).map((l) => l.trim()).filter((l) => l.length > 0);
+  const rows: [string, bigint][] = [];
+  const seen = new Set<string>();
+
+  for (const [index, line] of lines.entries()) {
+    const [rawInvestor, rawMaxShares] = line.split(",").map((c) => c.trim());
+    if (index === 0 && rawInvestor.toLowerCase() === "investor") continue;
+
+    if (!ethers.isAddress(rawInvestor)) {
+      throw new Error(`Line ${index + 1}: invalid investor address "${rawInvestor}"`);
+    }
+    const investor = ethers.getAddress(rawInvestor);
+    if (seen.has(investor)) {
+      throw new Error(`Line ${index + 1}: duplicate investor ${investor}`);
+    }
+    if (!/^\d+$/.test(rawMaxShares ?? "")) {
+      throw new Error(`Line ${index + 1}: maxShares must be a whole number, got "${rawMaxShares}"`);
+    }
+    const maxShares = BigInt(rawMaxShares);
+    if (maxShares === 0n) {
+      throw new Error(`Line ${index + 1}: zero maxShares for ${investor}`);
+    }
+    if (maxShares > maxSharesPerWallet) {
+      console.warn(`  Line ${index + 1}: ${investor} cap ${maxShares} exceeds contract per-wallet cap ${maxSharesPerWallet}`);
+    }
+
+    seen.add(investor);
+    rows.push([investor, maxShares]);
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`No investors found in ${csvPath}`);
+  }
+  return rows;
+}
+
+async function main() {
+  const csvPath = process.env.SALE_ALLOWLIST_CSV;
+  if (!csvPath) {
+    throw new Error("SALE_ALLOWLIST_CSV is required (path to investor,maxShares CSV)");
+  }
+  const submit = process.env.SALE_ALLOWLIST_SUBMIT === "true";
+
+  const [signer] = await ethers.getSigners();
+  console.log("Building sale allowlist with account:", signer.address);
+
+  // Load deployment info (SSOT format)
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 84532n ? "base-sepolia" : "base-mainnet";
+  const deploymentPath = path.join(__dirname, "..", "deployments", `${networkName}.json`);
+
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(`Deployment not found at ${deploymentPath}.`);
+  }
+
+  const deployment: DeploymentManifest = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+  if (!deployment.contracts.SSFShareSale) {
+    throw new Error("SSFShareSale not found in deployment manifest.");
+  }
+
+  const saleAddress = deployment.contracts.SSFShareSale.address;
+  const shareSale = await ethers.getContractAt("SSFShareSale", saleAddress);
+
+  // Step 1: Build tree
+  console.log("\n[Step 1] Building tree from", csvPath);
+  const investors = parseInvestorsCsv(csvPath, await shareSale.MAX_SHARES_PER_WALLET());
+  const tree = StandardMerkleTree.of(investors, LEAF_ENCODING);
+  const totalCap = investors.reduce((sum, [, maxShares]) => sum + maxShares, 0n);
+
+  console.log("  Investors:   ", investors.length);
+  console.log("  Merkle root: ", tree.root);
+  console.log("  Sum of caps: ", totalCap.toString(), "shares");
+
+  // Step 2: Write root and per-investor proof files
+  const outDir = path.join(__dirname, "..", "deployments", `${networkName}-sale-allowlist`);
+  fs.mkdirSync(outDir, { recursive: true });
+
+  fs.writeFileSync(
+    path.join(outDir, "root.json"),
+    JSON.stringify(
+      {
+        network: networkName,
+        contract: saleAddress,
+        merkleRoot: tree.root,
+        investorCount: investors.length,
+        generatedAt: new Date().toISOString(),
+      },
+      null,
+      2
+    )
+  );
+  for (const [i, [investor, maxShares]] of tree.entries()) {
+    const proofFile: InvestorProofFile = {
+      network: networkName,
+      contract: saleAddress,
+      merkleRoot: tree.root,
+      investor: investor as string,
+      maxShares: (maxShares as bigint).toString(),
+      proof: tree.getProof(i),
+    };
+    fs.writeFileSync(path.join(outDir, `${investor}.json`), JSON.stringify(proofFile, null, 2));
+  }
+  console.log("\n[Step 2] Root and", investors.length, "proof files written to:", outDir);
+
+  // Step 3: Verify before submitting
+  console.log("\n[Step 3] Verifying tree...");
+  for (const [investor, maxShares] of investors) {
+    const proofFile: InvestorProofFile = JSON.parse(fs.readFileSync(path.join(outDir, `${investor}.json`), "utf8"));
+    if (!StandardMerkleTree.verify(tree.root, LEAF_ENCODING, [investor, maxShares], proofFile.proof)) {
+      throw new Error(`Proof does not verify for ${investor}`);
+    }
+  }
+  console.log("  All", investors.length, "proofs verify against root");
+
+  const currentRoot = await shareSale.allowlistRoot();
+  console.log("  Current on-chain root:", currentRoot);
+  if (currentRoot === tree.root) {
+    console.log("\nRoot already set. Nothing to submit.");
+    return;
+  }
+
+  if (!submit) {
+    console.log("\nDry run complete. Re-run with SALE_ALLOWLIST_SUBMIT=true to set the root.");
+    return;
+  }
+
+  // Step 4: Submit and confirm on-chain root
+  console.log("\n[Step 4] Setting allowlist root...");
+  const rootTx = await shareSale.setAllowlistRoot(tree.root);
+  const receipt = await rootTx.wait();
+  console.log("  Tx:", rootTx.hash);
+
+  const onchainRoot = await shareSale.allowlistRoot({ blockTag: receipt!.blockNumber });
+  if (onchainRoot !== tree.root) {
+    throw new Error(`On-chain root ${onchainRoot} does not match ${tree.root}`);
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("SALE ALLOWLIST ROOT SUBMITTED");
+  console.log("=".repeat(60));
+  console.log("Merkle root: ", tree.root);
+  console.log("Investors:   ", investors.length);
+  console.log("Proof files: ", outDir);
+  console.log("=".repeat(60));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
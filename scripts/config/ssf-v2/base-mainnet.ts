@@ -0,0 +1,37 @@
+/**
+ * SSF V2 production fund (Base Mainnet)
+ *
+ * REVIEW BEFORE DEPLOYING: sale caps, split, floor and pricing tiers are
+ * immutable once deployed.
+ * Addresses SSOT: docs/ops/SSF_V1_MAINNET_ADDRESS_MATRIX.md
+ */
+import type { SSFV2DeployConfig } from "../../lib/ssf-v2-config";
+
+const config: SSFV2DeployConfig = {
+  network: "base-mainnet",
+  usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  treasury: "0x61bdD3AC52758C22038a169d761e36c2F224E7cd",
+  token: {
+    name: "SSF Share Token",
+    symbol: "SSF",
+  },
+  sale: {
+    maxShares: 20_000,
+    maxSharesPerWallet: 1_000,
+    maxAllowlist: 100,
+    reserveBps: 5_000,
+    startDelayHours: 72,
+    durationDays: 90,
+    priceTiers: [
+      { upToShares: 5_000, priceUsdc: "950", endsAfterDays: 30 },
+      { upToShares: 20_000, priceUsdc: "1000" },
+    ],
+  },
+  vault: {
+    floorBps: 5_000,
+    maxRedeemPerWindow: 500,
+  },
+  renounceDeployerAdmin: true,
+};
+
+export default config;
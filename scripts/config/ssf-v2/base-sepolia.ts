@@ -0,0 +1,36 @@
+/**
+ * SSF V2 testnet fund (Base Sepolia)
+ *
+ * Mirrors the V1 economics with an early-bird tier and a short window for testing.
+ * Validated by scripts/lib/ssf-v2-config.ts before deployment.
+ */
+import type { SSFV2DeployConfig } from "../../lib/ssf-v2-config";
+
+const config: SSFV2DeployConfig = {
+  network: "base-sepolia",
+  usdc: "MockUSDC",
+  treasury: "0x3De7B44eab1BD638ff3465d71a7FdFEA8c3b5E25",
+  token: {
+    name: "SSF Share Token V2",
+    symbol: "SSF-V2",
+  },
+  sale: {
+    maxShares: 20_000,
+    maxSharesPerWallet: 1_000,
+    maxAllowlist: 100,
+    reserveBps: 5_000,
+    startDelayHours: 0,
+    durationDays: 7,
+    priceTiers: [
+      { upToShares: 1_000, priceUsdc: "900", endsAfterDays: 2 },
+      { upToShares: 20_000, priceUsdc: "1000" },
+    ],
+  },
+  vault: {
+    floorBps: 5_000,
+    maxRedeemPerWindow: 100,
+  },
+  renounceDeployerAdmin: false,
+};
+
+export default config;
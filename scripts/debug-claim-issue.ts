@@ -42,7 +42,7 @@ async function main() {
   console.log("\n[3] Period Status:");
   for (let i = 0; i <= Number(currentPeriodId); i++) {
     const period = await distribution.periods(i);
-    const claimable = await distribution.getClaimable(deployer.address, i);
+    const [, claimable] = await distribution.getClaimable(deployer.address, i);
     const hasClaimed = await distribution.hasClaimed(i, deployer.address);
     
     console.log(`\n  Period ${i}:`);
@@ -61,7 +61,7 @@ async function main() {
   console.log("\n[4] Recommendation:");
   for (let i = Number(currentPeriodId); i >= 0; i--) {
     const period = await distribution.periods(i);
-    const claimable = await distribution.getClaimable(deployer.address, i);
+    const [, claimable] = await distribution.getClaimable(deployer.address, i);
     const hasClaimed = await distribution.hasClaimed(i, deployer.address);
     
     if (period.finalized && claimable > 0n && !hasClaimed) {
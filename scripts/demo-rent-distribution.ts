@@ -122,7 +122,7 @@ async function main() {
   
   console.log("\n[Step 5] Checking claimable amount...");
   console.log("  Using periodId:", currentPeriodId.toString());
-  const claimable = await distribution.getClaimable(deployer.address, currentPeriodId);
+  const [, claimable] = await distribution.getClaimable(deployer.address, currentPeriodId);
   console.log("  Deployer claimable:", ethers.formatUnits(claimable, 6), "USDC");
   
   if (claimable === 0n) {
@@ -196,7 +196,7 @@ async function main() {
 
   // Step 6: Check claimable
   console.log("\n[Step 6] Checking claimable amount...");
-  const claimable = await rentDist.getClaimable(deployer.address, periodId);
+  const [, claimable] = await rentDist.getClaimable(deployer.address, periodId);
   const period = await rentDist.periods(periodId);
   
   console.log("  Period State:");
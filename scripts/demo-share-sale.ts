@@ -3,9 +3,10 @@
  * 
  * Demonstrates the full purchase flow:
  *   1. (Optionally) Add deployer to allowlist (testnet only)
- *   2. Approve USDC spend
- *   3. Buy shares
- *   4. Verify ShareToken balance
+ *   2. Buy shares:
+ *      - EIP-2612 USDC (Base USDC, MockUSDCPermit): sign permit + buyWithPermit, one tx
+ *      - Otherwise: approve USDC spend, then buy
+ *   3. Verify ShareToken balance
  * 
  * For testnet demo, this script will:
  *   - Set allowlist to include deployer if empty
@@ -16,6 +17,7 @@
  *   npx hardhat run scripts/demo-share-sale.ts --network base-sepolia
  */
 import { ethers } from "hardhat";
+import { Signature, TypedDataDomain, TypedDataEncoder } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -37,6 +39,40 @@ interface DeploymentManifest {
   };
 }
 
+/**
+ * EIP-712 domain for USDC permits.
+ * Uses EIP-5267 eip712Domain() when available (MockUSDCPermit); Base USDC (FiatToken v2)
+ * only exposes name() and version() ("2"). Checked against DOMAIN_SEPARATOR() either way.
+ */
+async function getPermitDomain(usdcAddress: string, chainId: bigint): Promise<TypedDataDomain> {
+  const token = new ethers.Contract(
+    usdcAddress,
+    [
+      "function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])",
+      "function name() view returns (string)",
+      "function version() view returns (string)",
+      "function DOMAIN_SEPARATOR() view returns (bytes32)",
+    ],
+    ethers.provider
+  );
+
+  let name: string;
+  let version: string;
+  try {
+    [, name, version] = await token.eip712Domain();
+  } catch {
+    name = await token.name();
+    version = await token.version();
+  }
+
+  const domain: TypedDataDomain = { name, version, chainId, verifyingContract: usdcAddress };
+  const expected = await token.DOMAIN_SEPARATOR();
+  if (TypedDataEncoder.hashDomain(domain) !== expected) {
+    throw new Error(`Permit domain ${name} v${version} does not match DOMAIN_SEPARATOR ${expected}`);
+  }
+  return domain;
+}
+
 async function main() {
   const [deployer] = await ethers.getSigners();
   console.log("=".repeat(70));
@@ -72,10 +108,21 @@ async function main() {
   console.log("   SSFShareToken:   ", shareTokenAddress);
   console.log("   SSFShareSale:    ", shareSaleAddress);
 
-  // Get contract instances
-  const mockUsdc = await ethers.getContractAt("MockUSDC", mockUsdcAddress);
+  // Get contract instances (pay with whatever USDC the sale was deployed against)
   const shareToken = await ethers.getContractAt("SSFShareToken", shareTokenAddress);
   const shareSale = await ethers.getContractAt("SSFShareSale", shareSaleAddress);
+  const saleUsdcAddress = await shareSale.usdc();
+  const mockUsdc = await ethers.getContractAt("MockUSDCPermit", saleUsdcAddress);
+
+  // EIP-2612 support enables the single-transaction permit path
+  let supportsPermit = false;
+  try {
+    await mockUsdc.DOMAIN_SEPARATOR();
+    supportsPermit = true;
+  } catch {
+    supportsPermit = false;
+  }
+  console.log("   Sale USDC:       ", saleUsdcAddress, supportsPermit ? "(EIP-2612 permit)" : "(approve + buy)");
 
   // Check current state
   const isPaused = await shareSale.paused();
@@ -143,19 +190,58 @@ async function main() {
   console.log("   Price per share:", ethers.formatUnits(pricePerShare, 6), "USDC");
   console.log("   Total cost:", ethers.formatUnits(totalCost, 6), "USDC");
 
-  // Step 1: Approve USDC
-  console.log("\n1️⃣  Approving USDC spend...");
-  const approveTx = await mockUsdc.approve(shareSaleAddress, totalCost);
-  const approveReceipt = await approveTx.wait();
-  console.log("   ✓ Approved");
-  console.log("   Tx:", approveReceipt?.hash);
+  let approveReceipt = null;
+  let buyReceipt = null;
+
+  if (supportsPermit) {
+    // Step 1: Sign permit off-chain (no transaction)
+    console.log("\n1️⃣  Signing USDC permit...");
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+    const usdcDomain = await getPermitDomain(saleUsdcAddress, network.chainId);
+    const permitSig = Signature.from(
+      await deployer.signTypedData(
+        usdcDomain,
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        {
+          owner: deployer.address,
+          spender: shareSaleAddress,
+          value: totalCost,
+          nonce: await mockUsdc.nonces(deployer.address),
+          deadline,
+        }
+      )
+    );
+    console.log("   ✓ Permit signed (deadline", new Date(Number(deadline) * 1000).toISOString() + ")");
+
+    // Step 2: Buy shares in one transaction
+    console.log("\n2️⃣  Buying share with permit...");
+    const buyTx = await shareSale.buyWithPermit(sharesToBuy, deadline, permitSig.v, permitSig.r, permitSig.s);
+    buyReceipt = await buyTx.wait(2); // Wait for 2 confirmations
+    console.log("   ✓ Purchase complete");
+    console.log("   Tx:", buyReceipt?.hash);
+  } else {
+    // Step 1: Approve USDC
+    console.log("\n1️⃣  Approving USDC spend...");
+    const approveTx = await mockUsdc.approve(shareSaleAddress, totalCost);
+    approveReceipt = await approveTx.wait();
+    console.log("   ✓ Approved");
+    console.log("   Tx:", approveReceipt?.hash);
 
-  // Step 2: Buy shares
-  console.log("\n2️⃣  Buying share...");
-  const buyTx = await shareSale.buy(sharesToBuy);
-  const buyReceipt = await buyTx.wait(2); // Wait for 2 confirmations
-  console.log("   ✓ Purchase complete");
-  console.log("   Tx:", buyReceipt?.hash);
+    // Step 2: Buy shares
+    console.log("\n2️⃣  Buying share...");
+    const buyTx = await shareSale.buy(sharesToBuy);
+    buyReceipt = await buyTx.wait(2); // Wait for 2 confirmations
+    console.log("   ✓ Purchase complete");
+    console.log("   Tx:", buyReceipt?.hash);
+  }
 
   // Wait for RPC state to settle (Base Sepolia RPC can lag)
   console.log("   ⏳ Waiting for RPC state to settle...");
@@ -187,13 +273,17 @@ async function main() {
   console.log("DEMO COMPLETE");
   console.log("=".repeat(70));
   console.log("\n📄 Transaction Hashes:");
-  console.log("   Approve:", approveReceipt?.hash);
+  if (approveReceipt) {
+    console.log("   Approve:", approveReceipt.hash);
+  }
   console.log("   Buy:", buyReceipt?.hash);
   console.log("\n🔗 Explorer Links:");
   const explorerBase = networkName === "base-mainnet" 
     ? "https://basescan.org" 
     : "https://sepolia.basescan.org";
-  console.log("   Approve:", `${explorerBase}/tx/${approveReceipt?.hash}`);
+  if (approveReceipt) {
+    console.log("   Approve:", `${explorerBase}/tx/${approveReceipt.hash}`);
+  }
   console.log("   Buy:", `${explorerBase}/tx/${buyReceipt?.hash}`);
   console.log("=".repeat(70));
 }
@@ -9,6 +9,10 @@
  * The existing RENTDistribution (weighted by MockRENTToken) remains.
  * This new instance allows claim() weighted by SSFShareToken holdings.
  * 
+ * The weight token must be checkpointed (getPastBalance / getPastTotalSupply,
+ * SSFShareToken@2.x). RENTDistribution reverts with UnsupportedWeightToken
+ * otherwise; redeploy the share token first if the manifest has an older one.
+ * 
  * Usage:
  *   npx hardhat run scripts/deploy-rentdist-sharetoken-testnet.ts --network base-sepolia
  */
@@ -72,6 +76,22 @@ async function main() {
   console.log("  Treasury:     ", treasuryAddress);
   console.log("  Owner:        ", ownerAddress);
 
+  // Claims are computed at the finalization snapshot, so the weight token must be checkpointed
+  const shareToken = new ethers.Contract(
+    shareTokenAddress,
+    ["function getPastTotalSupply(uint256) view returns (uint256)"],
+    ethers.provider
+  );
+  const latestBlock = await ethers.provider.getBlockNumber();
+  try {
+    await shareToken.getPastTotalSupply(latestBlock - 1);
+  } catch {
+    throw new Error(
+      `SSFShareToken at ${shareTokenAddress} (${deployment.contracts.SSFShareToken.version}) has no ` +
+      "balance checkpoints. Deploy SSFShareToken@2.x before wiring it into RENTDistribution."
+    );
+  }
+
   // Deploy RENTDistribution
   console.log("\nDeploying RENTDistribution_SSFShareToken...");
   const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
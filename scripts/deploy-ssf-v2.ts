@@ -0,0 +1,200 @@
+/**
+ * SSF V2 Deployment Script (SSFShareToken + SSFReserveVaultV2 + SSFShareSaleV2)
+ *
+ * Sale caps, reserve split, floor and pricing tiers come from the typed per-network
+ * config in scripts/config/ssf-v2/<network>.ts. The config is validated against
+ * SSFShareToken.MAX_SUPPLY before any transaction is sent.
+ *
+ * ADMIN/ROLE FLOW:
+ * 1. Deployer deploys Token, Vault (deployer-owned) and Sale (treasury-owned)
+ * 2. Deployer registers the Sale on the Vault, then transfers Vault ownership to Treasury
+ * 3. Deployer grants MINTER_ROLE to Sale, BURNER_ROLE to Vault
+ * 4. Deployer grants DEFAULT_ADMIN_ROLE to Treasury, optionally renounces its own
+ *
+ * Usage:
+ *   # Validate config and print the plan (default, no transactions)
+ *   npx hardhat run scripts/deploy-ssf-v2.ts --network base-sepolia
+ *
+ *   # Deploy
+ *   SSF_V2_DEPLOY=true npx hardhat run scripts/deploy-ssf-v2.ts --network base-sepolia
+ */
+
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SHARE_TOKEN_MAX_SUPPLY,
+  SSFNetworkName,
+  loadSSFV2Config,
+  resolveAddresses,
+  toSaleArgs,
+  validateSSFV2Config,
+} from "./lib/ssf-v2-config";
+
+async function main() {
+  const deploy = process.env.SSF_V2_DEPLOY === "true";
+  const [deployer] = await ethers.getSigners();
+
+  const network = await ethers.provider.getNetwork();
+  const networkName: SSFNetworkName = network.chainId === 84532n ? "base-sepolia" : "base-mainnet";
+  if (deploy && networkName === "base-mainnet" && network.chainId !== 8453n) {
+    throw new Error(`FATAL: Refusing to deploy mainnet config to chainId ${network.chainId}`);
+  }
+
+  const deploymentPath = path.join(__dirname, "..", "deployments", `${networkName}.json`);
+  const manifest = fs.existsSync(deploymentPath)
+    ? JSON.parse(fs.readFileSync(deploymentPath, "utf8"))
+    : { network: networkName, chainId: Number(network.chainId), contracts: {} };
+
+  console.log("=".repeat(70));
+  console.log("SSF V2 DEPLOYMENT");
+  console.log("=".repeat(70));
+  console.log(`Deployer:  ${deployer.address}`);
+  console.log(`Network:   ${networkName} (chainId ${network.chainId})`);
+
+  // ============ Step 1: Load and validate config ============
+  console.log("\n[Step 1] Validating scripts/config/ssf-v2/" + networkName + ".ts...");
+  const config = loadSSFV2Config(networkName);
+  const errors = validateSSFV2Config(config, SHARE_TOKEN_MAX_SUPPLY);
+  if (errors.length > 0) {
+    errors.forEach((e) => console.error("  ✗", e));
+    throw new Error(`Invalid SSF V2 config (${errors.length} problem${errors.length === 1 ? "" : "s"})`);
+  }
+  const { usdc, treasury } = resolveAddresses(config, manifest.contracts);
+
+  const now = Math.floor(Date.now() / 1000);
+  const saleStart = now + config.sale.startDelayHours * 60 * 60;
+  const saleEnd = saleStart + config.sale.durationDays * 24 * 60 * 60;
+  const { saleConfig, priceTiers } = toSaleArgs(config, saleStart);
+
+  console.log("  ✓ Config valid");
+  console.log("\n" + "-".repeat(70));
+  console.log(`USDC:              ${usdc}`);
+  console.log(`Treasury:          ${treasury}`);
+  console.log(`Token:             ${config.token.name} (${config.token.symbol})`);
+  console.log(`Max shares:        ${saleConfig.maxShares} (${saleConfig.maxSharesPerWallet} per wallet)`);
+  console.log(`Allowlist:         ${saleConfig.maxAllowlist} addresses`);
+  console.log(`Reserve split:     ${saleConfig.reserveBps / 100}%`);
+  console.log(`Floor:             ${config.vault.floorBps / 100}% of weighted issue price`);
+  console.log(`Max redeem/window: ${config.vault.maxRedeemPerWindow} shares`);
+  console.log(`Sale window:       ${new Date(saleStart * 1000).toISOString()} to ${new Date(saleEnd * 1000).toISOString()}`);
+  console.log("Price tiers:");
+  for (const tier of priceTiers) {
+    const ends = tier.endsAt === 0 ? "no expiry" : `until ${new Date(tier.endsAt * 1000).toISOString()}`;
+    console.log(`  up to share ${tier.upToShares}: ${ethers.formatUnits(tier.pricePerShareUsdc, 6)} USDC (${ends})`);
+  }
+  console.log("-".repeat(70));
+
+  if (!deploy) {
+    console.log("\nDry run complete. Re-run with SSF_V2_DEPLOY=true to deploy.");
+    return;
+  }
+
+  // ============ Step 2: Deploy SSFShareToken ============
+  console.log("\n[Step 2] Deploying SSFShareToken...");
+  const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+  const shareToken = await SSFShareToken.deploy(config.token.name, config.token.symbol, deployer.address);
+  await shareToken.waitForDeployment();
+  const shareTokenAddress = await shareToken.getAddress();
+  console.log(`  ✓ ${shareTokenAddress}`);
+
+  const maxSupply = await shareToken.MAX_SUPPLY();
+  if (maxSupply !== SHARE_TOKEN_MAX_SUPPLY) {
+    throw new Error(`SSFShareToken.MAX_SUPPLY is ${maxSupply}, config was validated against ${SHARE_TOKEN_MAX_SUPPLY}`);
+  }
+
+  // ============ Step 3: Deploy SSFReserveVaultV2 ============
+  console.log("\n[Step 3] Deploying SSFReserveVaultV2...");
+  const SSFReserveVaultV2 = await ethers.getContractFactory("SSFReserveVaultV2");
+  const reserveVault = await SSFReserveVaultV2.deploy(
+    usdc,
+    shareTokenAddress,
+    treasury,
+    deployer.address, // owner = deployer until the sale is registered
+    config.vault.floorBps,
+    config.vault.maxRedeemPerWindow
+  );
+  await reserveVault.waitForDeployment();
+  const reserveVaultAddress = await reserveVault.getAddress();
+  console.log(`  ✓ ${reserveVaultAddress}`);
+
+  // ============ Step 4: Deploy SSFShareSaleV2 ============
+  console.log("\n[Step 4] Deploying SSFShareSaleV2...");
+  const SSFShareSaleV2 = await ethers.getContractFactory("SSFShareSaleV2");
+  const shareSale = await SSFShareSaleV2.deploy(
+    usdc,
+    shareTokenAddress,
+    reserveVaultAddress,
+    treasury,
+    treasury, // owner = treasury
+    saleStart,
+    saleEnd,
+    saleConfig,
+    priceTiers
+  );
+  await shareSale.waitForDeployment();
+  const shareSaleAddress = await shareSale.getAddress();
+  console.log(`  ✓ ${shareSaleAddress}`);
+
+  // ============ Step 5: Wire vault, roles and ownership ============
+  console.log("\n[Step 5] Registering sale on vault and handing over ownership...");
+  await (await reserveVault.setShareSale(shareSaleAddress)).wait();
+  await (await reserveVault.transferOwnership(treasury)).wait();
+  console.log(`  ✓ Vault shareSale = ${shareSaleAddress}, owner = ${treasury}`);
+
+  await (await shareToken.grantRole(await shareToken.MINTER_ROLE(), shareSaleAddress)).wait();
+  await (await shareToken.grantRole(await shareToken.BURNER_ROLE(), reserveVaultAddress)).wait();
+  console.log(`  ✓ MINTER_ROLE → ${shareSaleAddress}`);
+  console.log(`  ✓ BURNER_ROLE → ${reserveVaultAddress}`);
+
+  const DEFAULT_ADMIN_ROLE = await shareToken.DEFAULT_ADMIN_ROLE();
+  await (await shareToken.grantRole(DEFAULT_ADMIN_ROLE, treasury)).wait();
+  console.log(`  ✓ Token admin → ${treasury}`);
+  if (config.renounceDeployerAdmin) {
+    await (await shareToken.renounceRole(DEFAULT_ADMIN_ROLE, deployer.address)).wait();
+    console.log("  ✓ Deployer admin renounced");
+  }
+
+  // ============ Step 6: Update manifest ============
+  const deployedAt = new Date().toISOString();
+  manifest.updatedAt = deployedAt;
+  manifest.contracts = {
+    ...manifest.contracts,
+    SSFShareToken_V2: {
+      version: await shareToken.VERSION(),
+      address: shareTokenAddress,
+      deployTx: shareToken.deploymentTransaction()?.hash,
+      deployedAt,
+    },
+    SSFReserveVault_V2: {
+      version: await reserveVault.VERSION(),
+      address: reserveVaultAddress,
+      deployTx: reserveVault.deploymentTransaction()?.hash,
+      deployedAt,
+    },
+    SSFShareSale_V2: {
+      version: await shareSale.VERSION(),
+      address: shareSaleAddress,
+      deployTx: shareSale.deploymentTransaction()?.hash,
+      saleStart,
+      saleEnd,
+      deployedAt,
+    },
+  };
+  fs.writeFileSync(deploymentPath, JSON.stringify(manifest, null, 2));
+  console.log(`\n[Step 6] Manifest updated: ${deploymentPath}`);
+
+  console.log("\n" + "=".repeat(70));
+  console.log("SSF V2 DEPLOYED");
+  console.log("=".repeat(70));
+  console.log(`SSFShareToken:      ${shareTokenAddress}`);
+  console.log(`SSFReserveVaultV2:  ${reserveVaultAddress}`);
+  console.log(`SSFShareSaleV2:     ${shareSaleAddress}`);
+  console.log("\nNext (from Treasury): setAllowlist([...], true), then unpause()");
+  console.log("=".repeat(70));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
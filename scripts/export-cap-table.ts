@@ -0,0 +1,113 @@
+/**
+ * Export the SSFShareToken cap table to CSV
+ *
+ * Reads holders(offset, limit) page by page, pinned to a single block so the
+ * snapshot is consistent, and writes:
+ *
+ *   holder,shares,ownership_pct
+ *   0xAbc...,1200,6.000000
+ *   0xDef...,300,1.500000
+ *
+ * Rows are sorted by shares (descending). ownership_pct is shares / totalSupply
+ * with 6 decimals, rounded down. The script checks that the exported shares add
+ * up to totalSupply at the same block.
+ *
+ * Output: deployments/<network>-cap-table-<block>.csv (or CAP_TABLE_OUT)
+ *
+ * Usage:
+ *   npx hardhat run scripts/export-cap-table.ts --network base-sepolia
+ *
+ *   # Another token (e.g. SSFShareToken_V2) or a historical block
+ *   CAP_TABLE_TOKEN=SSFShareToken_V2 CAP_TABLE_BLOCK=12345678 \
+ *     npx hardhat run scripts/export-cap-table.ts --network base-sepolia
+ */
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+
+const PAGE_SIZE = 500;
+const PCT_DECIMALS = 6;
+
+async function main() {
+  const tokenKey = process.env.CAP_TABLE_TOKEN ?? "SSFShareToken";
+
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 84532n ? "base-sepolia" : "base-mainnet";
+  const deploymentPath = path.join(__dirname, "..", "deployments", `${networkName}.json`);
+
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(`Deployment not found at ${deploymentPath}.`);
+  }
+  const manifest = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
+  const tokenAddress: string | undefined = manifest.contracts[tokenKey]?.address;
+  if (!tokenAddress) {
+    throw new Error(`${tokenKey} not found in deployment manifest.`);
+  }
+
+  const shareToken = await ethers.getContractAt("SSFShareToken", tokenAddress);
+  const blockTag = process.env.CAP_TABLE_BLOCK
+    ? Number(process.env.CAP_TABLE_BLOCK)
+    : await ethers.provider.getBlockNumber();
+
+  console.log("=".repeat(70));
+  console.log("SSF CAP TABLE EXPORT");
+  console.log("=".repeat(70));
+  console.log(`Token:   ${tokenKey} ${tokenAddress}`);
+  console.log(`Network: ${networkName} (chainId ${network.chainId})`);
+  console.log(`Block:   ${blockTag}`);
+
+  // Step 1: Enumerate holders
+  console.log("\n[Step 1] Reading holders...");
+  const holderCount = await shareToken.holderCount({ blockTag });
+  const totalSupply = await shareToken.totalSupply({ blockTag });
+  const holders: string[] = [];
+  for (let offset = 0n; offset < holderCount; offset += BigInt(PAGE_SIZE)) {
+    const page = await shareToken.holders(offset, PAGE_SIZE, { blockTag });
+    holders.push(...page);
+  }
+  if (BigInt(holders.length) !== holderCount) {
+    throw new Error(`Read ${holders.length} holders, holderCount() is ${holderCount}`);
+  }
+  console.log(`  ✓ ${holders.length} holders, ${totalSupply} shares outstanding`);
+
+  // Step 2: Balances
+  console.log("\n[Step 2] Reading balances...");
+  const rows: { holder: string; shares: bigint }[] = [];
+  for (const holder of holders) {
+    rows.push({ holder, shares: await shareToken.balanceOf(holder, { blockTag }) });
+  }
+  rows.sort((a, b) => (a.shares === b.shares ? a.holder.localeCompare(b.holder) : a.shares > b.shares ? -1 : 1));
+
+  const exported = rows.reduce((sum, row) => sum + row.shares, 0n);
+  if (exported !== totalSupply) {
+    throw new Error(`Exported ${exported} shares, totalSupply() is ${totalSupply}`);
+  }
+  console.log("  ✓ Balances sum to totalSupply");
+
+  // Step 3: Write CSV
+  const unit = 10n ** BigInt(PCT_DECIMALS);
+  const lines = ["holder,shares,ownership_pct"];
+  for (const { holder, shares } of rows) {
+    const pct = totalSupply === 0n ? 0n : (shares * 100n * unit) / totalSupply;
+    const fraction = (pct % unit).toString().padStart(PCT_DECIMALS, "0");
+    lines.push(`${holder},${shares},${pct / unit}.${fraction}`);
+  }
+
+  const outPath =
+    process.env.CAP_TABLE_OUT ??
+    path.join(__dirname, "..", "deployments", `${networkName}-cap-table-${blockTag}.csv`);
+  fs.writeFileSync(outPath, lines.join("\n") + "\n");
+  console.log(`\n[Step 3] Wrote ${outPath}`);
+
+  console.log("\n" + "=".repeat(70));
+  console.log("Top holders:");
+  for (const { holder, shares } of rows.slice(0, 10)) {
+    console.log(`  ${holder}  ${shares.toString().padStart(6)} shares`);
+  }
+  console.log("=".repeat(70));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,94 @@
+/**
+ * SSFShareSale purchase vouchers (EIP-712)
+ *
+ * The compliance backend approves each investor individually and signs a
+ * short-lived voucher instead of editing the on-chain allowlist. Buyers pass
+ * the voucher and signature to SSFShareSale.buyWithVoucher().
+ *
+ * Depends only on ethers so the backend can use it outside Hardhat.
+ * Must stay in sync with PURCHASE_VOUCHER_TYPEHASH and the
+ * EIP712("SSFShareSale", "1") domain in contracts/rwa/SSFShareSale.sol.
+ * Known-good vectors: test/fixtures/purchase-vouchers.json
+ */
+import { Signature, TypedDataDomain, TypedDataEncoder, verifyTypedData, getAddress } from "ethers";
+
+export interface PurchaseVoucher {
+  buyer: string;
+  maxShares: bigint;
+  expiry: bigint;  // Unix seconds UTC
+  nonce: bigint;   // Single use per buyer
+}
+
+/** Anything that can sign EIP-712 data (ethers Wallet, HardhatEthersSigner, KMS adapter) */
+export interface TypedDataSigner {
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, Array<{ name: string; type: string }>>,
+    value: Record<string, any>
+  ): Promise<string>;
+}
+
+export const PURCHASE_VOUCHER_TYPES = {
+  PurchaseVoucher: [
+    { name: "buyer", type: "address" },
+    { name: "maxShares", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+/**
+ * EIP-712 domain of a deployed SSFShareSale
+ */
+export function voucherDomain(chainId: bigint | number, verifyingContract: string): TypedDataDomain {
+  return {
+    name: "SSFShareSale",
+    version: "1",
+    chainId,
+    verifyingContract: getAddress(verifyingContract),
+  };
+}
+
+/**
+ * Digest the contract recovers the signer from
+ */
+export function hashPurchaseVoucher(domain: TypedDataDomain, voucher: PurchaseVoucher): string {
+  return TypedDataEncoder.hash(domain, PURCHASE_VOUCHER_TYPES, voucher);
+}
+
+/**
+ * Sign a voucher with the compliance key
+ */
+export async function signPurchaseVoucher(
+  signer: TypedDataSigner,
+  domain: TypedDataDomain,
+  voucher: PurchaseVoucher
+): Promise<string> {
+  return signer.signTypedData(domain, PURCHASE_VOUCHER_TYPES, voucher);
+}
+
+/**
+ * Recover the address that signed a voucher
+ */
+export function recoverVoucherSigner(domain: TypedDataDomain, voucher: PurchaseVoucher, signature: string): string {
+  return verifyTypedData(domain, PURCHASE_VOUCHER_TYPES, voucher, Signature.from(signature));
+}
+
+/**
+ * Off-chain pre-check mirroring buyWithVoucher(): signer matches and voucher not expired.
+ * Nonce reuse and caps are only known on-chain (voucherNonceUsed, purchasedShares).
+ */
+export function verifyPurchaseVoucher(
+  domain: TypedDataDomain,
+  voucher: PurchaseVoucher,
+  signature: string,
+  expectedSigner: string,
+  nowSeconds: bigint = BigInt(Math.floor(Date.now() / 1000))
+): boolean {
+  if (nowSeconds > voucher.expiry) return false;
+  try {
+    return recoverVoucherSigner(domain, voucher, signature) === getAddress(expectedSigner);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * SSF V2 deployment config (SSFShareToken + SSFReserveVaultV2 + SSFShareSaleV2)
+ *
+ * Each property fund gets one config file per network in scripts/config/ssf-v2/.
+ * Sale caps, reserve split and floor are immutable constructor arguments in V2,
+ * so a typo here is permanent: validateSSFV2Config() mirrors the on-chain
+ * constructor checks and runs before anything is deployed.
+ */
+import { getAddress, isAddress, parseUnits } from "ethers";
+import baseSepolia from "../config/ssf-v2/base-sepolia";
+import baseMainnet from "../config/ssf-v2/base-mainnet";
+
+export type SSFNetworkName = "base-sepolia" | "base-mainnet";
+
+export interface PriceTierConfig {
+  upToShares: number;         // Cumulative sharesSold this tier runs up to (exclusive)
+  priceUsdc: string;          // Decimal USDC per share, e.g. "900"
+  endsAfterDays?: number;     // Tier expires this many days after saleStart (omit = never)
+}
+
+export interface SSFV2DeployConfig {
+  network: SSFNetworkName;
+  usdc: string;               // "MockUSDC" resolves from the deployment manifest (testnet)
+  treasury: string;           // Receives net sale USDC; final owner/admin of all contracts
+  token: {
+    name: string;
+    symbol: string;
+  };
+  sale: {
+    maxShares: number;
+    maxSharesPerWallet: number;
+    maxAllowlist: number;
+    reserveBps: number;
+    startDelayHours: number;
+    durationDays: number;
+    priceTiers: PriceTierConfig[];
+  };
+  vault: {
+    floorBps: number;
+    maxRedeemPerWindow: number;
+  };
+  renounceDeployerAdmin: boolean;
+}
+
+const SSF_V2_CONFIGS: Record<SSFNetworkName, SSFV2DeployConfig> = {
+  "base-sepolia": baseSepolia,
+  "base-mainnet": baseMainnet,
+};
+
+/** SSFShareToken.MAX_SUPPLY (re-checked on-chain once the token is deployed) */
+export const SHARE_TOKEN_MAX_SUPPLY = 20_000n;
+
+/** SSFShareSaleV2.MAX_PRICE_TIERS */
+export const MAX_PRICE_TIERS = 8;
+
+/** SSFShareSaleV2.SaleConfig constructor tuple */
+export interface SaleConfigArgs {
+  maxShares: number;
+  maxSharesPerWallet: number;
+  maxAllowlist: number;
+  reserveBps: number;
+}
+
+/** SSFShareSaleV2.PriceTier constructor tuple */
+export interface PriceTierArgs {
+  upToShares: number;
+  endsAt: number;
+  pricePerShareUsdc: bigint;
+}
+
+/**
+ * Config for a network from scripts/config/ssf-v2/
+ */
+export function loadSSFV2Config(network: SSFNetworkName): SSFV2DeployConfig {
+  const config = SSF_V2_CONFIGS[network];
+  if (config.network !== network) {
+    throw new Error(`Config for ${network} declares network "${config.network}"`);
+  }
+  return config;
+}
+
+/**
+ * Check a config against the SSFShareSaleV2 / SSFReserveVaultV2 constructor rules.
+ * Returns every problem found rather than stopping at the first.
+ *
+ * @param maxSupply SSFShareToken.MAX_SUPPLY
+ */
+export function validateSSFV2Config(config: SSFV2DeployConfig, maxSupply: bigint): string[] {
+  const errors: string[] = [];
+  const { sale, vault } = config;
+
+  if (config.usdc !== "MockUSDC" && !isAddress(config.usdc)) {
+    errors.push(`usdc: not an address: ${config.usdc}`);
+  }
+  if (!isAddress(config.treasury)) {
+    errors.push(`treasury: not an address: ${config.treasury}`);
+  }
+
+  // Sale parameters
+  if (!Number.isInteger(sale.maxShares) || sale.maxShares <= 0 || BigInt(sale.maxShares) > maxSupply) {
+    errors.push(`sale.maxShares must be 1..${maxSupply} (SSFShareToken.MAX_SUPPLY), got ${sale.maxShares}`);
+  }
+  if (!Number.isInteger(sale.maxSharesPerWallet) || sale.maxSharesPerWallet <= 0 || sale.maxSharesPerWallet > sale.maxShares) {
+    errors.push(`sale.maxSharesPerWallet must be 1..maxShares, got ${sale.maxSharesPerWallet}`);
+  }
+  if (!Number.isInteger(sale.maxAllowlist) || sale.maxAllowlist <= 0) {
+    errors.push(`sale.maxAllowlist must be positive, got ${sale.maxAllowlist}`);
+  }
+  if (!Number.isInteger(sale.reserveBps) || sale.reserveBps > 10_000 || sale.reserveBps < vault.floorBps) {
+    errors.push(`sale.reserveBps must be vault.floorBps..10000, got ${sale.reserveBps}`);
+  }
+  if (sale.durationDays <= 0) {
+    errors.push(`sale.durationDays must be positive, got ${sale.durationDays}`);
+  }
+
+  // Vault parameters
+  if (!Number.isInteger(vault.floorBps) || vault.floorBps <= 0 || vault.floorBps > 10_000) {
+    errors.push(`vault.floorBps must be 1..10000, got ${vault.floorBps}`);
+  }
+
+  // Pricing schedule
+  const tiers = sale.priceTiers;
+  if (tiers.length === 0 || tiers.length > MAX_PRICE_TIERS) {
+    errors.push(`sale.priceTiers must have 1..${MAX_PRICE_TIERS} tiers, got ${tiers.length}`);
+  }
+  let previousUpTo = 0;
+  let previousPrice = 0n;
+  for (const [i, tier] of tiers.entries()) {
+    if (!Number.isInteger(tier.upToShares) || tier.upToShares <= previousUpTo) {
+      errors.push(`sale.priceTiers[${i}].upToShares must exceed ${previousUpTo}, got ${tier.upToShares}`);
+    }
+    previousUpTo = tier.upToShares;
+    try {
+      const price = parseUnits(tier.priceUsdc, 6);
+      if (price === 0n) {
+        errors.push(`sale.priceTiers[${i}].priceUsdc must be positive`);
+      }
+      if (price < previousPrice) {
+        errors.push(`sale.priceTiers[${i}].priceUsdc must not be below the previous tier, got ${tier.priceUsdc}`);
+      }
+      previousPrice = price;
+    } catch {
+      errors.push(`sale.priceTiers[${i}].priceUsdc is not a USDC amount: ${tier.priceUsdc}`);
+    }
+    if (tier.endsAfterDays !== undefined && tier.endsAfterDays <= 0) {
+      errors.push(`sale.priceTiers[${i}].endsAfterDays must be positive, got ${tier.endsAfterDays}`);
+    }
+  }
+  const last = tiers[tiers.length - 1];
+  if (last && (last.upToShares !== sale.maxShares || last.endsAfterDays !== undefined)) {
+    errors.push("sale.priceTiers: last tier must run up to maxShares and never expire");
+  }
+
+  return errors;
+}
+
+/**
+ * SSFShareSaleV2 constructor arguments for a given sale start
+ */
+export function toSaleArgs(
+  config: SSFV2DeployConfig,
+  saleStart: number
+): { saleConfig: SaleConfigArgs; priceTiers: PriceTierArgs[] } {
+  const { sale } = config;
+  return {
+    saleConfig: {
+      maxShares: sale.maxShares,
+      maxSharesPerWallet: sale.maxSharesPerWallet,
+      maxAllowlist: sale.maxAllowlist,
+      reserveBps: sale.reserveBps,
+    },
+    priceTiers: sale.priceTiers.map((tier) => ({
+      upToShares: tier.upToShares,
+      endsAt: tier.endsAfterDays === undefined ? 0 : saleStart + tier.endsAfterDays * 24 * 60 * 60,
+      pricePerShareUsdc: parseUnits(tier.priceUsdc, 6),
+    })),
+  };
+}
+
+/**
+ * Resolve usdc / treasury to checksummed addresses
+ */
+export function resolveAddresses(
+  config: SSFV2DeployConfig,
+  manifestContracts: Record<string, { address: string }>
+): { usdc: string; treasury: string } {
+  let usdc = config.usdc;
+  if (usdc === "MockUSDC") {
+    if (!manifestContracts.MockUSDC) {
+      throw new Error("usdc: MockUSDC not found in deployment manifest");
+    }
+    usdc = manifestContracts.MockUSDC.address;
+  }
+  return { usdc: getAddress(usdc), treasury: getAddress(config.treasury) };
+}
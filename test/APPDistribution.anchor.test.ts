@@ -0,0 +1,71 @@
+/**
+ * APPDistribution document anchoring tests
+ *
+ * Each exit event can carry the sha256 and URI of its closing statement or
+ * refinance docs, frozen once the event is finalized.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("APPDistribution - document anchoring", function () {
+  let usdc: Contract;
+  let appToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+
+  const EXIT = 0; // EventType.EXIT
+  const CLOSING_HASH = ethers.sha256(ethers.toUtf8Bytes("%PDF-1.7 closing statement"));
+  const CLOSING_URI = "ipfs://bafybeihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+  beforeEach(async function () {
+    [owner, treasury, alice] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockAPPToken = await ethers.getContractFactory("MockAPPToken");
+    appToken = await MockAPPToken.deploy(owner.address);
+
+    const APPDistribution = await ethers.getContractFactory("APPDistribution");
+    distribution = await APPDistribution.deploy(
+      await usdc.getAddress(),
+      await appToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    await distribution.connect(treasury).createEvent(EXIT, "Property Sale Q2 2026");
+    await distribution.connect(treasury).createEvent(EXIT, "Property Sale Q3 2026");
+  });
+
+  it("should anchor each event independently", async function () {
+    await expect(distribution.connect(treasury).anchorDocument(2n, CLOSING_HASH, CLOSING_URI))
+      .to.emit(distribution, "DocumentAnchored")
+      .withArgs(2n, CLOSING_HASH, CLOSING_URI);
+
+    expect((await distribution.exitEvents(2n)).contentHash).to.equal(CLOSING_HASH);
+    expect((await distribution.exitEvents(2n)).documentURI).to.equal(CLOSING_URI);
+    expect((await distribution.exitEvents(1n)).contentHash).to.equal(ethers.ZeroHash);
+  });
+
+  it("should be immutable after finalization", async function () {
+    await distribution.connect(treasury).anchorDocument(1n, CLOSING_HASH, CLOSING_URI);
+    await distribution.connect(treasury).finalizeEvent(1n);
+
+    await expect(distribution.connect(treasury).anchorDocument(1n, ethers.id("other"), CLOSING_URI))
+      .to.be.revertedWithCustomError(distribution, "EventAlreadyFinalized");
+  });
+
+  it("should reject unknown events, empty hashes and non-treasury callers", async function () {
+    await expect(distribution.connect(treasury).anchorDocument(3n, CLOSING_HASH, CLOSING_URI))
+      .to.be.revertedWithCustomError(distribution, "EventNotFound");
+    await expect(distribution.connect(treasury).anchorDocument(1n, ethers.ZeroHash, CLOSING_URI))
+      .to.be.revertedWithCustomError(distribution, "EmptyContentHash");
+    await expect(distribution.connect(alice).anchorDocument(1n, CLOSING_HASH, CLOSING_URI))
+      .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+  });
+});
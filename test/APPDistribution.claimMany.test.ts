@@ -0,0 +1,88 @@
+/**
+ * APPDistribution batch claim tests
+ *
+ * Mirrors the RENTDistribution batch claim suite for exit/refinance events.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("APPDistribution - batch claims", function () {
+  let usdc: Contract;
+  let appToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+
+  const EVENTS = 55;
+  const DEPOSIT = ethers.parseUnits("2000", 6);
+  // Per-item gas budget: as RENTDistribution, plus the waterfall and snapshot block reads
+  const CLAIM_MANY_GAS_PER_ITEM = 68_000n;
+  const REFINANCE = 1; // EventType.REFINANCE
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockAPPToken = await ethers.getContractFactory("MockAPPToken");
+    appToken = await MockAPPToken.deploy(owner.address);
+
+    const APPDistribution = await ethers.getContractFactory("APPDistribution");
+    distribution = await APPDistribution.deploy(
+      await usdc.getAddress(),
+      await appToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 60%, Bob 40%
+    await appToken.mint(alice.address, ethers.parseUnits("600", 18));
+    await appToken.mint(bob.address, ethers.parseUnits("400", 18));
+    await usdc.mint(treasury.address, DEPOSIT * BigInt(EVENTS));
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+
+    for (let i = 0; i < EVENTS; i++) {
+      await distribution.connect(treasury).createEvent(REFINANCE, `Refinance #${i + 1}`);
+      await distribution.connect(treasury).deposit(BigInt(i + 1), DEPOSIT);
+      await distribution.connect(treasury).finalizeEvent(BigInt(i + 1));
+    }
+  });
+
+  it("should return per-event amounts and the total", async function () {
+    const [amounts, total] = await distribution.getClaimableRange(bob.address, 1n, BigInt(EVENTS));
+
+    expect(amounts.length).to.equal(EVENTS);
+    expect(amounts[0]).to.equal(ethers.parseUnits("800", 6));
+    expect(total).to.equal(ethers.parseUnits("800", 6) * BigInt(EVENTS));
+  });
+
+  it("should revert on an inverted range", async function () {
+    await expect(distribution.getClaimableRange(bob.address, 2n, 1n))
+      .to.be.revertedWithCustomError(distribution, "InvalidRange");
+  });
+
+  it("should claim 55 events in one transaction within the gas budget", async function () {
+    const ids = Array.from({ length: EVENTS }, (_, i) => BigInt(i + 1));
+    const [, expected] = await distribution.getClaimableRange(alice.address, 1n, BigInt(EVENTS));
+
+    const receipt = await (await distribution.connect(alice).claimMany(ids)).wait();
+
+    expect(receipt!.gasUsed).to.be.lessThan(CLAIM_MANY_GAS_PER_ITEM * BigInt(EVENTS));
+    expect(await usdc.balanceOf(alice.address)).to.equal(expected);
+    expect((await distribution.exitEvents(1n)).totalClaimed).to.equal(ethers.parseUnits("1200", 6));
+  });
+
+  it("should skip claimed events and revert when nothing is left", async function () {
+    await distribution.connect(bob).claim(3n);
+    await distribution.connect(bob).claimMany([3n, 4n]);
+    expect(await usdc.balanceOf(bob.address)).to.equal(ethers.parseUnits("1600", 6));
+
+    await expect(distribution.connect(bob).claimMany([3n, 4n]))
+      .to.be.revertedWithCustomError(distribution, "NoClaimable");
+  });
+});
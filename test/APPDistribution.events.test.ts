@@ -0,0 +1,140 @@
+/**
+ * APPDistribution concurrent and cancellable event tests
+ *
+ * A refinance and a partial disposition can be open at the same time, so
+ * deposit() and finalizeEvent() target an explicit eventId. Events that
+ * fall through before finalization are cancelled and refunded to treasury.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("APPDistribution - concurrent events", function () {
+  let usdc: Contract;
+  let appToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+
+  const REFINANCE = 1; // EventType.REFINANCE
+  const DISPOSITION = 2; // EventType.DISPOSITION
+  const FUNDS = ethers.parseUnits("100000", 6);
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockAPPToken = await ethers.getContractFactory("MockAPPToken");
+    appToken = await MockAPPToken.deploy(owner.address);
+
+    const APPDistribution = await ethers.getContractFactory("APPDistribution");
+    distribution = await APPDistribution.deploy(
+      await usdc.getAddress(),
+      await appToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 70%, Bob 30%
+    await appToken.mint(alice.address, ethers.parseUnits("700", 18));
+    await appToken.mint(bob.address, ethers.parseUnits("300", 18));
+    await usdc.mint(treasury.address, FUNDS);
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+
+    await distribution.connect(treasury).createEvent(REFINANCE, "Refinance 2026");
+    await distribution.connect(treasury).createEvent(DISPOSITION, "Partial Disposition Lot B");
+  });
+
+  describe("overlapping events", function () {
+    it("should accept deposits into an earlier event after a later one is created", async function () {
+      await expect(distribution.connect(treasury).deposit(1n, ethers.parseUnits("10000", 6)))
+        .to.emit(distribution, "Deposited")
+        .withArgs(1n, ethers.parseUnits("10000", 6));
+      await distribution.connect(treasury).deposit(2n, ethers.parseUnits("4000", 6));
+      await distribution.connect(treasury).deposit(1n, ethers.parseUnits("2000", 6));
+
+      expect((await distribution.exitEvents(1n)).totalAmount).to.equal(ethers.parseUnits("12000", 6));
+      expect((await distribution.exitEvents(2n)).totalAmount).to.equal(ethers.parseUnits("4000", 6));
+    });
+
+    it("should finalize and claim each event independently", async function () {
+      await distribution.connect(treasury).deposit(1n, ethers.parseUnits("10000", 6));
+      await distribution.connect(treasury).deposit(2n, ethers.parseUnits("4000", 6));
+
+      await distribution.connect(treasury).finalizeEvent(2n);
+      expect((await distribution.getClaimable(alice.address, 2n)).amount).to.equal(ethers.parseUnits("2800", 6));
+      expect((await distribution.getClaimable(alice.address, 1n)).amount).to.equal(0n);
+
+      await distribution.connect(alice).claim(2n);
+      await distribution.connect(treasury).deposit(1n, ethers.parseUnits("1000", 6));
+      await distribution.connect(treasury).finalizeEvent(1n);
+
+      await distribution.connect(alice).claim(1n);
+      expect(await usdc.balanceOf(alice.address)).to.equal(ethers.parseUnits("10500", 6));
+    });
+
+    it("should reject deposits into unknown or finalized events", async function () {
+      await expect(distribution.connect(treasury).deposit(0n, 1n))
+        .to.be.revertedWithCustomError(distribution, "EventNotFound");
+      await expect(distribution.connect(treasury).deposit(3n, 1n))
+        .to.be.revertedWithCustomError(distribution, "EventNotFound");
+
+      await distribution.connect(treasury).finalizeEvent(1n);
+      await expect(distribution.connect(treasury).deposit(1n, 1n))
+        .to.be.revertedWithCustomError(distribution, "EventAlreadyFinalized");
+      await expect(distribution.connect(treasury).finalizeEvent(1n))
+        .to.be.revertedWithCustomError(distribution, "EventAlreadyFinalized");
+    });
+  });
+
+  describe("cancelEvent", function () {
+    beforeEach(async function () {
+      await distribution.connect(treasury).deposit(1n, ethers.parseUnits("10000", 6));
+      await distribution.connect(treasury).deposit(2n, ethers.parseUnits("4000", 6));
+    });
+
+    it("should refund deposits to treasury and leave other events intact", async function () {
+      await expect(distribution.connect(treasury).cancelEvent(2n))
+        .to.emit(distribution, "EventCancelled")
+        .withArgs(2n, treasury.address, ethers.parseUnits("4000", 6));
+
+      expect(await usdc.balanceOf(treasury.address)).to.equal(FUNDS - ethers.parseUnits("10000", 6));
+      expect(await usdc.balanceOf(await distribution.getAddress())).to.equal(ethers.parseUnits("10000", 6));
+
+      const evt = await distribution.exitEvents(2n);
+      expect(evt.cancelled).to.equal(true);
+      expect(evt.totalAmount).to.equal(0n);
+    });
+
+    it("should block deposits, finalization and claims on a cancelled event", async function () {
+      await distribution.connect(treasury).cancelEvent(2n);
+
+      await expect(distribution.connect(treasury).deposit(2n, 1n))
+        .to.be.revertedWithCustomError(distribution, "EventIsCancelled");
+      await expect(distribution.connect(treasury).finalizeEvent(2n))
+        .to.be.revertedWithCustomError(distribution, "EventIsCancelled");
+      await expect(distribution.connect(treasury).cancelEvent(2n))
+        .to.be.revertedWithCustomError(distribution, "EventIsCancelled");
+      await expect(distribution.connect(alice).claim(2n))
+        .to.be.revertedWithCustomError(distribution, "EventNotFinalized");
+      expect((await distribution.getClaimable(alice.address, 2n)).amount).to.equal(0n);
+    });
+
+    it("should not cancel a finalized event", async function () {
+      await distribution.connect(treasury).finalizeEvent(1n);
+
+      await expect(distribution.connect(treasury).cancelEvent(1n))
+        .to.be.revertedWithCustomError(distribution, "EventAlreadyFinalized");
+    });
+
+    it("should only be callable by treasury", async function () {
+      await expect(distribution.connect(alice).cancelEvent(1n))
+        .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+    });
+  });
+});
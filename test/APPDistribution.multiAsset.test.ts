@@ -0,0 +1,107 @@
+/**
+ * APPDistribution multi-asset payout tests
+ *
+ * An exit settling in two stablecoins is modelled as two concurrent events,
+ * each paying out in its own allowlisted token.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("APPDistribution - multi-asset payouts", function () {
+  let usdc: Contract;
+  let usdt: Contract;
+  let appToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let sponsor: any;
+
+  const EXIT = 0; // EventType.EXIT
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob, sponsor] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+    usdt = await MockUSDC.deploy(owner.address); // Stands in for USDT
+
+    const MockAPPToken = await ethers.getContractFactory("MockAPPToken");
+    appToken = await MockAPPToken.deploy(owner.address);
+
+    const APPDistribution = await ethers.getContractFactory("APPDistribution");
+    distribution = await APPDistribution.deploy(
+      await usdc.getAddress(),
+      await appToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 70%, Bob 30%
+    await appToken.mint(alice.address, ethers.parseUnits("700", 18));
+    await appToken.mint(bob.address, ethers.parseUnits("300", 18));
+    for (const token of [usdc, usdt]) {
+      await token.mint(treasury.address, ethers.parseUnits("100000", 6));
+      await token.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+    }
+    await distribution.connect(treasury).setPayoutTokenAllowed(await usdt.getAddress(), true);
+
+    // One sale settling partly in USDC, partly in USDT
+    await distribution.connect(treasury).createEvent(EXIT, "Property Sale - USDC leg");
+    await distribution.connect(treasury).createEvent(EXIT, "Property Sale - USDT leg");
+    await distribution.connect(treasury).setPayoutToken(2n, await usdt.getAddress());
+    await distribution.connect(treasury).deposit(1n, ethers.parseUnits("6000", 6));
+    await distribution.connect(treasury).deposit(2n, ethers.parseUnits("4000", 6));
+  });
+
+  it("should hold each leg in its own token", async function () {
+    expect((await distribution.exitEvents(2n)).payoutToken).to.equal(await usdt.getAddress());
+    expect(await usdc.balanceOf(await distribution.getAddress())).to.equal(ethers.parseUnits("6000", 6));
+    expect(await usdt.balanceOf(await distribution.getAddress())).to.equal(ethers.parseUnits("4000", 6));
+  });
+
+  it("should pay claimMany and report claimables per token", async function () {
+    await distribution.connect(treasury).finalizeEvent(1n);
+    await distribution.connect(treasury).finalizeEvent(2n);
+
+    const [token, amount] = await distribution.getClaimable(alice.address, 2n);
+    expect(token).to.equal(await usdt.getAddress());
+    expect(amount).to.equal(ethers.parseUnits("2800", 6));
+
+    const [tokens, amounts] = await distribution.getClaimableByToken(alice.address, 1n, 2n);
+    expect(tokens).to.deep.equal([await usdc.getAddress(), await usdt.getAddress()]);
+    expect(amounts).to.deep.equal([ethers.parseUnits("4200", 6), ethers.parseUnits("2800", 6)]);
+
+    await distribution.connect(alice).claimMany([1n, 2n]);
+    expect(await usdc.balanceOf(alice.address)).to.equal(ethers.parseUnits("4200", 6));
+    expect(await usdt.balanceOf(alice.address)).to.equal(ethers.parseUnits("2800", 6));
+    expect(await distribution.totalClaimedByToken(await usdt.getAddress())).to.equal(ethers.parseUnits("2800", 6));
+  });
+
+  it("should pay sponsor carry in the event's token", async function () {
+    await distribution.connect(treasury).createEvent(EXIT, "Refinance - USDT");
+    await distribution.connect(treasury).setPayoutToken(3n, await usdt.getAddress());
+    await distribution.connect(treasury).setWaterfall(3n, sponsor.address, 0n, 0n, 2000);
+    await distribution.connect(treasury).deposit(3n, ethers.parseUnits("1000", 6));
+    await distribution.connect(treasury).finalizeEvent(3n);
+
+    await distribution.connect(sponsor).claimCarry(3n);
+    expect(await usdt.balanceOf(sponsor.address)).to.equal(ethers.parseUnits("200", 6));
+  });
+
+  it("should refund a cancelled leg in its own token", async function () {
+    const before = await usdt.balanceOf(treasury.address);
+    await distribution.connect(treasury).cancelEvent(2n);
+
+    expect(await usdt.balanceOf(treasury.address)).to.equal(before + ethers.parseUnits("4000", 6));
+    expect(await distribution.totalDepositedByToken(await usdt.getAddress())).to.equal(0n);
+  });
+
+  it("should not change token after the first deposit", async function () {
+    await expect(distribution.connect(treasury).setPayoutToken(1n, await usdt.getAddress()))
+      .to.be.revertedWithCustomError(distribution, "EventHasDeposits");
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * APPDistribution snapshot tests
+ *
+ * Claims are computed against APP-PREF balances captured at finalizeEvent(),
+ * as in RENTDistribution, so tokens moved after finalization cannot claim an
+ * event twice. Concurrent events each keep their own snapshot.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("APPDistribution - snapshot balances", function () {
+  let usdc: Contract;
+  let appToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let mallory: any;
+
+  const DEPOSIT = ethers.parseUnits("1000", 6);
+  const EXIT = 0; // EventType.EXIT
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob, mallory] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockAPPToken = await ethers.getContractFactory("MockAPPToken");
+    appToken = await MockAPPToken.deploy(owner.address);
+
+    const APPDistribution = await ethers.getContractFactory("APPDistribution");
+    distribution = await APPDistribution.deploy(
+      await usdc.getAddress(),
+      await appToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 60%, Bob 40%
+    await appToken.mint(alice.address, ethers.parseUnits("600", 18));
+    await appToken.mint(bob.address, ethers.parseUnits("400", 18));
+    await usdc.mint(treasury.address, ethers.parseUnits("10000", 6));
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+  });
+
+  async function openEvent(amount: bigint) {
+    await distribution.connect(treasury).createEvent(EXIT, "Exit");
+    const eventId = await distribution.currentEventId();
+    await distribution.connect(treasury).deposit(eventId, amount);
+    return eventId;
+  }
+
+  it("should reject a weight token without balance checkpoints", async function () {
+    const APPDistribution = await ethers.getContractFactory("APPDistribution");
+    const usdcAddress = await usdc.getAddress();
+
+    await expect(APPDistribution.deploy(usdcAddress, usdcAddress, treasury.address, owner.address))
+      .to.be.revertedWithCustomError(APPDistribution, "UnsupportedWeightToken");
+  });
+
+  it("should record the snapshot block at finalization", async function () {
+    const eventId = await openEvent(DEPOSIT);
+    await distribution.connect(treasury).finalizeEvent(eventId);
+    const finalizeBlock = await ethers.provider.getBlockNumber();
+
+    expect(await distribution.snapshotBlocks(eventId)).to.equal(BigInt(finalizeBlock - 1));
+    expect((await distribution.exitEvents(eventId)).snapshotSupply).to.equal(ethers.parseUnits("1000", 18));
+  });
+
+  it("should not let transferred tokens claim the same event twice", async function () {
+    const eventId = await openEvent(DEPOSIT);
+    await distribution.connect(treasury).finalizeEvent(eventId);
+
+    // Alice claims her 60%, then moves her tokens to Mallory
+    await distribution.connect(alice).claim(eventId);
+    await appToken.connect(alice).transfer(mallory.address, ethers.parseUnits("600", 18));
+
+    expect((await distribution.getClaimable(mallory.address, eventId)).amount).to.equal(0n);
+    await expect(distribution.connect(mallory).claim(eventId))
+      .to.be.revertedWithCustomError(distribution, "NoClaimable");
+
+    // Bob's 40% is still fully funded
+    await distribution.connect(bob).claim(eventId);
+    expect((await distribution.exitEvents(eventId)).totalClaimed).to.equal(DEPOSIT);
+    expect(await usdc.balanceOf(await distribution.getAddress())).to.equal(0n);
+  });
+
+  it("should use each concurrent event's own snapshot", async function () {
+    const first = await openEvent(DEPOSIT);
+    const second = await openEvent(DEPOSIT);
+    await distribution.connect(treasury).finalizeEvent(first);
+
+    await appToken.connect(alice).transfer(bob.address, ethers.parseUnits("600", 18));
+    await distribution.connect(treasury).finalizeEvent(second);
+
+    expect((await distribution.getClaimable(alice.address, first)).amount).to.equal(ethers.parseUnits("600", 6));
+    expect((await distribution.getClaimable(alice.address, second)).amount).to.equal(0n);
+    expect((await distribution.getClaimable(bob.address, second)).amount).to.equal(DEPOSIT);
+
+    // Batch claims read the same snapshots
+    await distribution.connect(bob).claimMany([first, second]);
+    expect(await usdc.balanceOf(bob.address)).to.equal(ethers.parseUnits("400", 6) + DEPOSIT);
+  });
+});
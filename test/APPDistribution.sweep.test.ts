@@ -0,0 +1,94 @@
+/**
+ * APPDistribution unclaimed-funds expiry tests
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("APPDistribution - unclaimed sweep", function () {
+  let usdc: Contract;
+  let appToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+
+  const CLAIM_WINDOW = 365 * 24 * 60 * 60; // 1 year
+  const DEPOSIT = ethers.parseUnits("50000", 6);
+  const EXIT = 0; // EventType.EXIT
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockAPPToken = await ethers.getContractFactory("MockAPPToken");
+    appToken = await MockAPPToken.deploy(owner.address);
+
+    const APPDistribution = await ethers.getContractFactory("APPDistribution");
+    distribution = await APPDistribution.deploy(
+      await usdc.getAddress(),
+      await appToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    await appToken.mint(alice.address, ethers.parseUnits("700", 18));
+    await appToken.mint(bob.address, ethers.parseUnits("300", 18));
+    await usdc.mint(treasury.address, DEPOSIT);
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+
+    await distribution.connect(owner).setClaimWindow(CLAIM_WINDOW);
+    await distribution.connect(treasury).createEvent(EXIT, "Property Sale Q2 2026");
+    await distribution.connect(treasury).deposit(1n, DEPOSIT);
+    await distribution.connect(treasury).finalizeEvent(1n);
+  });
+
+  it("should sweep the unclaimed share after the deadline", async function () {
+    await distribution.connect(alice).claim(1n);
+    await time.increase(CLAIM_WINDOW + 1);
+
+    await expect(distribution.connect(bob).claim(1n))
+      .to.be.revertedWithCustomError(distribution, "ClaimExpired");
+
+    const bobShare = ethers.parseUnits("15000", 6);
+    await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+      .to.emit(distribution, "UnclaimedSwept")
+      .withArgs(1n, treasury.address, bobShare, DEPOSIT, DEPOSIT - bobShare);
+
+    expect(await usdc.balanceOf(treasury.address)).to.equal(bobShare);
+  });
+
+  it("should not sweep before the deadline or twice", async function () {
+    await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+      .to.be.revertedWithCustomError(distribution, "ClaimWindowOpen");
+
+    await time.increase(CLAIM_WINDOW + 1);
+    await distribution.connect(treasury).sweepUnclaimed(1n);
+
+    await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+      .to.be.revertedWithCustomError(distribution, "AlreadySwept");
+  });
+
+  it("should not give a deadline to an event that never expires", async function () {
+    await distribution.connect(owner).setClaimWindow(0);
+    await distribution.connect(treasury).createEvent(EXIT, "Property Sale Q3 2026");
+    await distribution.connect(treasury).finalizeEvent(2n);
+
+    const finite = (await time.latest()) + CLAIM_WINDOW;
+    await expect(distribution.connect(owner).setClaimDeadline(2n, finite))
+      .to.be.revertedWithCustomError(distribution, "NoClaimDeadline");
+    expect(await distribution.isExpired(2n)).to.equal(false);
+  });
+
+  it("should cap the claim window so finalization cannot overflow", async function () {
+    const max = await distribution.MAX_CLAIM_WINDOW();
+    await expect(distribution.connect(owner).setClaimWindow(max + 1n))
+      .to.be.revertedWithCustomError(distribution, "InvalidClaimWindow");
+    await distribution.connect(owner).setClaimWindow(max);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * APPDistribution waterfall tests
+ *
+ * Exit proceeds flow through: preferred return -> return of capital ->
+ * residual split with the sponsor's carried interest. Expected tranche and
+ * claim amounts come from spreadsheet-verified fixtures.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import fixtures from "./fixtures/app-waterfall.json";
+
+describe("APPDistribution - waterfall", function () {
+  let usdc: Contract;
+  let appToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let sponsor: any;
+
+  const EXIT = 0; // EventType.EXIT
+  const usdcUnits = (amount: string) => ethers.parseUnits(amount, 6);
+
+  async function getEvent(eventId: bigint) {
+    // getEvent collides with ethers' Contract.getEvent, so go through getFunction
+    return distribution.getFunction("getEvent")(eventId);
+  }
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob, sponsor] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockAPPToken = await ethers.getContractFactory("MockAPPToken");
+    appToken = await MockAPPToken.deploy(owner.address);
+
+    const APPDistribution = await ethers.getContractFactory("APPDistribution");
+    distribution = await APPDistribution.deploy(
+      await usdc.getAddress(),
+      await appToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    await appToken.mint(alice.address, ethers.parseUnits(fixtures.holders.alice, 18));
+    await appToken.mint(bob.address, ethers.parseUnits(fixtures.holders.bob, 18));
+    await usdc.mint(treasury.address, usdcUnits("10000000"));
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+  });
+
+  describe("spreadsheet fixtures", function () {
+    for (const fixture of fixtures.cases) {
+      it(`should allocate: ${fixture.name}`, async function () {
+        await distribution.connect(treasury).createEvent(EXIT, fixture.name);
+        await distribution.connect(treasury).setWaterfall(
+          1n,
+          sponsor.address,
+          usdcUnits(fixture.preferredReturn),
+          usdcUnits(fixture.returnOfCapital),
+          fixture.carryBps
+        );
+        await distribution.connect(treasury).deposit(1n, usdcUnits(fixture.totalAmount));
+        await distribution.connect(treasury).finalizeEvent(1n);
+
+        const evt = await getEvent(1n);
+        expect(evt.tranches.preferredReturn).to.equal(usdcUnits(fixture.expected.preferredReturn));
+        expect(evt.tranches.returnOfCapital).to.equal(usdcUnits(fixture.expected.returnOfCapital));
+        expect(evt.tranches.investorResidual).to.equal(usdcUnits(fixture.expected.investorResidual));
+        expect(evt.tranches.sponsorCarry).to.equal(usdcUnits(fixture.expected.sponsorCarry));
+
+        expect((await distribution.getClaimable(alice.address, 1n)).amount).to.equal(usdcUnits(fixture.expected.claims.alice));
+        expect((await distribution.getClaimable(bob.address, 1n)).amount).to.equal(usdcUnits(fixture.expected.claims.bob));
+
+        await distribution.connect(alice).claim(1n);
+        await distribution.connect(bob).claim(1n);
+        if (usdcUnits(fixture.expected.sponsorCarry) > 0n) {
+          await distribution.connect(sponsor).claimCarry(1n);
+        }
+
+        // Everything paid out except pro-rata rounding dust
+        const paid = (await getEvent(1n)).totalClaimed;
+        expect(usdcUnits(fixture.totalAmount) - paid).to.be.lessThan(2n);
+        expect(await usdc.balanceOf(sponsor.address)).to.equal(usdcUnits(fixture.expected.sponsorCarry));
+      });
+    }
+  });
+
+  describe("configuration", function () {
+    beforeEach(async function () {
+      await distribution.connect(treasury).createEvent(EXIT, "Property Sale Q2 2026");
+    });
+
+    it("should emit WaterfallConfigured", async function () {
+      await expect(distribution.connect(treasury).setWaterfall(1n, sponsor.address, 1n, 2n, 2000))
+        .to.emit(distribution, "WaterfallConfigured")
+        .withArgs(1n, sponsor.address, 1n, 2n, 2000);
+    });
+
+    it("should reject unknown events, bad carry and zero sponsor", async function () {
+      await expect(distribution.connect(treasury).setWaterfall(2n, sponsor.address, 0n, 0n, 2000))
+        .to.be.revertedWithCustomError(distribution, "EventNotFound");
+      await expect(distribution.connect(treasury).setWaterfall(1n, sponsor.address, 0n, 0n, 10_001))
+        .to.be.revertedWithCustomError(distribution, "InvalidCarryBps");
+      await expect(distribution.connect(treasury).setWaterfall(1n, ethers.ZeroAddress, 0n, 0n, 2000))
+        .to.be.revertedWithCustomError(distribution, "ZeroAddress");
+    });
+
+    it("should be immutable after finalization", async function () {
+      await distribution.connect(treasury).finalizeEvent(1n);
+
+      await expect(distribution.connect(treasury).setWaterfall(1n, sponsor.address, 0n, 0n, 2000))
+        .to.be.revertedWithCustomError(distribution, "EventAlreadyFinalized");
+    });
+
+    it("should default to plain pro-rata without a waterfall", async function () {
+      await distribution.connect(treasury).deposit(1n, usdcUnits("1000"));
+      await distribution.connect(treasury).finalizeEvent(1n);
+
+      const evt = await getEvent(1n);
+      expect(evt.tranches.investorResidual).to.equal(usdcUnits("1000"));
+      expect(evt.tranches.sponsorCarry).to.equal(0n);
+      expect((await distribution.getClaimable(alice.address, 1n)).amount).to.equal(usdcUnits("700"));
+    });
+  });
+
+  describe("claimCarry", function () {
+    beforeEach(async function () {
+      await distribution.connect(treasury).createEvent(EXIT, "Property Sale Q2 2026");
+      await distribution.connect(treasury).setWaterfall(1n, sponsor.address, usdcUnits("100"), usdcUnits("500"), 2000);
+      await distribution.connect(treasury).deposit(1n, usdcUnits("1600"));
+    });
+
+    it("should pay the sponsor once", async function () {
+      await distribution.connect(treasury).finalizeEvent(1n);
+
+      await expect(distribution.connect(sponsor).claimCarry(1n))
+        .to.emit(distribution, "CarryClaimed")
+        .withArgs(1n, sponsor.address, usdcUnits("200"));
+      await expect(distribution.connect(sponsor).claimCarry(1n))
+        .to.be.revertedWithCustomError(distribution, "AlreadyClaimed");
+    });
+
+    it("should reject non-sponsors and unfinalized events", async function () {
+      await expect(distribution.connect(sponsor).claimCarry(1n))
+        .to.be.revertedWithCustomError(distribution, "EventNotFinalized");
+
+      await distribution.connect(treasury).finalizeEvent(1n);
+      await expect(distribution.connect(alice).claimCarry(1n))
+        .to.be.revertedWithCustomError(distribution, "NotSponsor");
+    });
+  });
+});
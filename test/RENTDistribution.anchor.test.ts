@@ -0,0 +1,78 @@
+/**
+ * RENTDistribution document anchoring tests
+ *
+ * Each period can carry the sha256 and URI of its rent roll. Treasury may
+ * replace the anchor while the period is open; it is frozen at finalization.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("RENTDistribution - document anchoring", function () {
+  let usdc: Contract;
+  let rentToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+
+  const ROLL_HASH = ethers.sha256(ethers.toUtf8Bytes("holder,amount\n0xabc,100\n"));
+  const ROLL_URI = "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+
+  beforeEach(async function () {
+    [owner, treasury, alice] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockRENTToken = await ethers.getContractFactory("MockRENTToken");
+    rentToken = await MockRENTToken.deploy(owner.address);
+
+    const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
+    distribution = await RENTDistribution.deploy(
+      await usdc.getAddress(),
+      await rentToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    await distribution.connect(treasury).startPeriod();
+  });
+
+  it("should store the anchor and emit DocumentAnchored", async function () {
+    await expect(distribution.connect(treasury).anchorDocument(ROLL_HASH, ROLL_URI))
+      .to.emit(distribution, "DocumentAnchored")
+      .withArgs(1n, ROLL_HASH, ROLL_URI);
+
+    const period = await distribution.periods(1n);
+    expect(period.contentHash).to.equal(ROLL_HASH);
+    expect(period.documentURI).to.equal(ROLL_URI);
+  });
+
+  it("should allow replacing the anchor before finalization", async function () {
+    const corrected = ethers.sha256(ethers.toUtf8Bytes("corrected rent roll"));
+    await distribution.connect(treasury).anchorDocument(ROLL_HASH, ROLL_URI);
+    await distribution.connect(treasury).anchorDocument(corrected, "https://docs.example.com/roll-v2.csv");
+
+    const period = await distribution.periods(1n);
+    expect(period.contentHash).to.equal(corrected);
+    expect(period.documentURI).to.equal("https://docs.example.com/roll-v2.csv");
+  });
+
+  it("should be immutable after finalization", async function () {
+    await distribution.connect(treasury).anchorDocument(ROLL_HASH, ROLL_URI);
+    await distribution.connect(treasury).finalizePeriod();
+
+    await expect(distribution.connect(treasury).anchorDocument(ethers.id("other"), ROLL_URI))
+      .to.be.revertedWithCustomError(distribution, "PeriodAlreadyFinalized");
+    expect((await distribution.periods(1n)).contentHash).to.equal(ROLL_HASH);
+  });
+
+  it("should reject an empty hash and non-treasury callers", async function () {
+    await expect(distribution.connect(treasury).anchorDocument(ethers.ZeroHash, ROLL_URI))
+      .to.be.revertedWithCustomError(distribution, "EmptyContentHash");
+    await expect(distribution.connect(alice).anchorDocument(ROLL_HASH, ROLL_URI))
+      .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * RENTDistribution claim-on-behalf tests
+ *
+ * Custodial and smart-contract wallets cannot easily send transactions:
+ *   - distributeTo(): treasury pushes claims to many holders at once
+ *   - claimFor(): a relayer submits the holder's EIP-712 signature and pays gas
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("RENTDistribution - claim on behalf", function () {
+  let usdc: Contract;
+  let rentToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let carol: any;
+  let relayer: any;
+
+  const DEPOSIT = ethers.parseUnits("1000", 6);
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob, carol, relayer] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockRENTToken = await ethers.getContractFactory("MockRENTToken");
+    rentToken = await MockRENTToken.deploy(owner.address);
+
+    const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
+    distribution = await RENTDistribution.deploy(
+      await usdc.getAddress(),
+      await rentToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 50%, Bob 30%, Carol 20%
+    await rentToken.mint(alice.address, ethers.parseUnits("500", 18));
+    await rentToken.mint(bob.address, ethers.parseUnits("300", 18));
+    await rentToken.mint(carol.address, ethers.parseUnits("200", 18));
+    await usdc.mint(treasury.address, DEPOSIT);
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+
+    await distribution.connect(treasury).startPeriod();
+    await distribution.connect(treasury).deposit(DEPOSIT);
+    await distribution.connect(treasury).finalizePeriod();
+  });
+
+  async function signClaimFor(signer: any, holder: string, periodId: bigint, recipient: string, deadline: bigint) {
+    const domain = {
+      name: "RENTDistribution",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await distribution.getAddress(),
+    };
+    const types = {
+      ClaimFor: [
+        { name: "holder", type: "address" },
+        { name: "periodId", type: "uint256" },
+        { name: "recipient", type: "address" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+    return signer.signTypedData(domain, types, { holder, periodId, recipient, deadline });
+  }
+
+  describe("distributeTo", function () {
+    it("should pay every listed holder in one transaction", async function () {
+      await expect(distribution.connect(treasury).distributeTo(1n, [alice.address, bob.address, carol.address]))
+        .to.emit(distribution, "Distributed")
+        .withArgs(1n, 3n, DEPOSIT);
+
+      expect(await usdc.balanceOf(alice.address)).to.equal(ethers.parseUnits("500", 6));
+      expect(await usdc.balanceOf(bob.address)).to.equal(ethers.parseUnits("300", 6));
+      expect(await usdc.balanceOf(carol.address)).to.equal(ethers.parseUnits("200", 6));
+      expect((await distribution.periods(1n)).totalClaimed).to.equal(DEPOSIT);
+    });
+
+    it("should skip holders that already claimed", async function () {
+      await distribution.connect(alice).claim(1n);
+
+      await expect(distribution.connect(treasury).distributeTo(1n, [alice.address, bob.address, bob.address]))
+        .to.emit(distribution, "Distributed")
+        .withArgs(1n, 1n, ethers.parseUnits("300", 6));
+
+      expect(await usdc.balanceOf(alice.address)).to.equal(ethers.parseUnits("500", 6));
+      await expect(distribution.connect(bob).claim(1n))
+        .to.be.revertedWithCustomError(distribution, "AlreadyClaimed");
+    });
+
+    it("should only be callable by treasury on finalized periods", async function () {
+      await expect(distribution.connect(alice).distributeTo(1n, [alice.address]))
+        .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+
+      await distribution.connect(treasury).startPeriod();
+      await expect(distribution.connect(treasury).distributeTo(2n, [alice.address]))
+        .to.be.revertedWithCustomError(distribution, "PeriodNotFinalized");
+    });
+  });
+
+  describe("claimFor", function () {
+    let deadline: bigint;
+
+    beforeEach(async function () {
+      deadline = BigInt(await time.latest()) + 3600n;
+    });
+
+    it("should pay the recipient with the holder's signature", async function () {
+      const signature = await signClaimFor(bob, bob.address, 1n, carol.address, deadline);
+
+      await expect(distribution.connect(relayer).claimFor(bob.address, 1n, carol.address, deadline, signature))
+        .to.emit(distribution, "ClaimedFor")
+        .withArgs(1n, bob.address, carol.address, ethers.parseUnits("300", 6));
+
+      expect(await usdc.balanceOf(carol.address)).to.equal(ethers.parseUnits("300", 6));
+      expect(await usdc.balanceOf(relayer.address)).to.equal(0n);
+      expect(await distribution.hasClaimed(1n, bob.address)).to.equal(true);
+    });
+
+    it("should not be replayable", async function () {
+      const signature = await signClaimFor(bob, bob.address, 1n, bob.address, deadline);
+      await distribution.connect(relayer).claimFor(bob.address, 1n, bob.address, deadline, signature);
+
+      await expect(distribution.connect(relayer).claimFor(bob.address, 1n, bob.address, deadline, signature))
+        .to.be.revertedWithCustomError(distribution, "AlreadyClaimed");
+    });
+
+    it("should reject a signature from someone other than the holder", async function () {
+      const signature = await signClaimFor(relayer, bob.address, 1n, relayer.address, deadline);
+
+      await expect(distribution.connect(relayer).claimFor(bob.address, 1n, relayer.address, deadline, signature))
+        .to.be.revertedWithCustomError(distribution, "InvalidSignature");
+    });
+
+    it("should reject a redirected recipient", async function () {
+      const signature = await signClaimFor(bob, bob.address, 1n, bob.address, deadline);
+
+      await expect(distribution.connect(relayer).claimFor(bob.address, 1n, relayer.address, deadline, signature))
+        .to.be.revertedWithCustomError(distribution, "InvalidSignature");
+    });
+
+    it("should reject a zero recipient", async function () {
+      const signature = await signClaimFor(bob, bob.address, 1n, ethers.ZeroAddress, deadline);
+
+      await expect(distribution.connect(relayer).claimFor(bob.address, 1n, ethers.ZeroAddress, deadline, signature))
+        .to.be.revertedWithCustomError(distribution, "ZeroAddress");
+    });
+
+    it("should reject a signature past its deadline", async function () {
+      const signature = await signClaimFor(bob, bob.address, 1n, bob.address, deadline);
+      await time.increaseTo(deadline + 1n);
+
+      await expect(distribution.connect(relayer).claimFor(bob.address, 1n, bob.address, deadline, signature))
+        .to.be.revertedWithCustomError(distribution, "SignatureExpired");
+    });
+
+    it("should reject an extended deadline", async function () {
+      const signature = await signClaimFor(bob, bob.address, 1n, bob.address, deadline);
+
+      await expect(distribution.connect(relayer).claimFor(bob.address, 1n, bob.address, deadline + 1n, signature))
+        .to.be.revertedWithCustomError(distribution, "InvalidSignature");
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * RENTDistribution batch claim tests
+ *
+ * Investors holding for a year would otherwise call claim(periodId) once per
+ * month. claimMany() pays many periods in a single transfer and
+ * getClaimableRange() tells the front end which periods are worth claiming.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("RENTDistribution - batch claims", function () {
+  let usdc: Contract;
+  let rentToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+
+  const PERIODS = 60;
+  const DEPOSIT = ethers.parseUnits("1000", 6);
+  // Per-item gas budget: cold hasClaimed + totalClaimed writes dominate
+  const CLAIM_MANY_GAS_PER_ITEM = 65_000n;
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockRENTToken = await ethers.getContractFactory("MockRENTToken");
+    rentToken = await MockRENTToken.deploy(owner.address);
+
+    const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
+    distribution = await RENTDistribution.deploy(
+      await usdc.getAddress(),
+      await rentToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 75%, Bob 25%
+    await rentToken.mint(alice.address, ethers.parseUnits("750", 18));
+    await rentToken.mint(bob.address, ethers.parseUnits("250", 18));
+    await usdc.mint(treasury.address, DEPOSIT * BigInt(PERIODS));
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+
+    for (let i = 0; i < PERIODS; i++) {
+      await distribution.connect(treasury).startPeriod();
+      await distribution.connect(treasury).deposit(DEPOSIT);
+      await distribution.connect(treasury).finalizePeriod();
+    }
+  });
+
+  function range(from: number, to: number): bigint[] {
+    return Array.from({ length: to - from + 1 }, (_, i) => BigInt(from + i));
+  }
+
+  describe("getClaimableRange", function () {
+    it("should return per-period amounts and the total", async function () {
+      const [amounts, total] = await distribution.getClaimableRange(alice.address, 1n, BigInt(PERIODS));
+
+      expect(amounts.length).to.equal(PERIODS);
+      for (const amount of amounts) {
+        expect(amount).to.equal(ethers.parseUnits("750", 6));
+      }
+      expect(total).to.equal(ethers.parseUnits("750", 6) * BigInt(PERIODS));
+    });
+
+    it("should report zero for claimed and unknown periods", async function () {
+      await distribution.connect(alice).claim(2n);
+
+      const [amounts, total] = await distribution.getClaimableRange(alice.address, 1n, 3n);
+      expect(amounts).to.deep.equal([ethers.parseUnits("750", 6), 0n, ethers.parseUnits("750", 6)]);
+      expect(total).to.equal(ethers.parseUnits("1500", 6));
+
+      const [, beyond] = await distribution.getClaimableRange(alice.address, BigInt(PERIODS + 1), BigInt(PERIODS + 5));
+      expect(beyond).to.equal(0n);
+    });
+
+    it("should revert on an inverted range", async function () {
+      await expect(distribution.getClaimableRange(alice.address, 5n, 4n))
+        .to.be.revertedWithCustomError(distribution, "InvalidRange");
+    });
+  });
+
+  describe("claimMany", function () {
+    it("should claim 60 periods in one transaction within the gas budget", async function () {
+      const ids = range(1, PERIODS);
+      const [, expected] = await distribution.getClaimableRange(alice.address, 1n, BigInt(PERIODS));
+
+      const tx = await distribution.connect(alice).claimMany(ids);
+      const receipt = await tx.wait();
+
+      expect(receipt!.gasUsed).to.be.lessThan(CLAIM_MANY_GAS_PER_ITEM * BigInt(PERIODS));
+      expect(await usdc.balanceOf(alice.address)).to.equal(expected);
+
+      const [, remaining] = await distribution.getClaimableRange(alice.address, 1n, BigInt(PERIODS));
+      expect(remaining).to.equal(0n);
+    });
+
+    it("should emit Claimed per period and update totalClaimed", async function () {
+      await expect(distribution.connect(bob).claimMany([1n, 2n]))
+        .to.emit(distribution, "Claimed").withArgs(1n, bob.address, ethers.parseUnits("250", 6))
+        .and.to.emit(distribution, "Claimed").withArgs(2n, bob.address, ethers.parseUnits("250", 6));
+
+      expect((await distribution.periods(1n)).totalClaimed).to.equal(ethers.parseUnits("250", 6));
+      expect(await distribution.hasClaimed(2n, bob.address)).to.equal(true);
+    });
+
+    it("should skip already-claimed and duplicate periods", async function () {
+      await distribution.connect(bob).claim(1n);
+
+      await distribution.connect(bob).claimMany([1n, 2n, 2n, 3n]);
+
+      expect(await usdc.balanceOf(bob.address)).to.equal(ethers.parseUnits("750", 6));
+    });
+
+    it("should revert when nothing is claimable", async function () {
+      await distribution.connect(bob).claimMany([1n]);
+
+      await expect(distribution.connect(bob).claimMany([1n, BigInt(PERIODS + 1)]))
+        .to.be.revertedWithCustomError(distribution, "NoClaimable");
+    });
+
+    it("should match the sum of individual claims", async function () {
+      await distribution.connect(alice).claimMany(range(1, 10));
+      for (let i = 1; i <= 10; i++) {
+        await distribution.connect(bob).claim(BigInt(i));
+      }
+
+      expect(await usdc.balanceOf(alice.address) + await usdc.balanceOf(bob.address))
+        .to.equal(DEPOSIT * 10n);
+    });
+  });
+});
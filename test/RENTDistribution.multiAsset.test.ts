@@ -0,0 +1,166 @@
+/**
+ * RENTDistribution multi-asset payout tests
+ *
+ * Some properties pay rent in EURC or USDT. Each period pays out in one
+ * token from the treasury allowlist; claimMany() pays one transfer per token
+ * and getClaimable() / getClaimableByToken() report what a holder can claim
+ * in each.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("RENTDistribution - multi-asset payouts", function () {
+  let usdc: Contract;
+  let eurc: Contract;
+  let rentToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+
+  const DEPOSIT = ethers.parseUnits("1000", 6);
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+    eurc = await MockUSDC.deploy(owner.address); // Stands in for EURC
+
+    const MockRENTToken = await ethers.getContractFactory("MockRENTToken");
+    rentToken = await MockRENTToken.deploy(owner.address);
+
+    const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
+    distribution = await RENTDistribution.deploy(
+      await usdc.getAddress(),
+      await rentToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 75%, Bob 25%
+    await rentToken.mint(alice.address, ethers.parseUnits("750", 18));
+    await rentToken.mint(bob.address, ethers.parseUnits("250", 18));
+    for (const token of [usdc, eurc]) {
+      await token.mint(treasury.address, DEPOSIT * 10n);
+      await token.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+    }
+  });
+
+  async function runPeriod(token?: Contract) {
+    await distribution.connect(treasury).startPeriod();
+    if (token) {
+      await distribution.connect(treasury).setPayoutToken(await token.getAddress());
+    }
+    await distribution.connect(treasury).deposit(DEPOSIT);
+    await distribution.connect(treasury).finalizePeriod();
+  }
+
+  describe("allowlist", function () {
+    it("should allow USDC by default and pay USDC periods", async function () {
+      expect(await distribution.allowedPayoutTokens(await usdc.getAddress())).to.equal(true);
+      expect(await distribution.allowedPayoutTokens(await eurc.getAddress())).to.equal(false);
+
+      await runPeriod();
+      expect((await distribution.periods(1n)).payoutToken).to.equal(await usdc.getAddress());
+    });
+
+    it("should reject tokens that are not allowlisted", async function () {
+      await distribution.connect(treasury).startPeriod();
+
+      await expect(distribution.connect(treasury).setPayoutToken(await eurc.getAddress()))
+        .to.be.revertedWithCustomError(distribution, "PayoutTokenNotAllowed");
+    });
+
+    it("should only be managed by treasury", async function () {
+      await expect(distribution.connect(alice).setPayoutTokenAllowed(await eurc.getAddress(), true))
+        .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+      await expect(distribution.connect(treasury).setPayoutTokenAllowed(await eurc.getAddress(), true))
+        .to.emit(distribution, "PayoutTokenAllowed")
+        .withArgs(await eurc.getAddress(), true);
+    });
+
+    it("should block deposits in a token removed from the allowlist", async function () {
+      await distribution.connect(treasury).setPayoutTokenAllowed(await eurc.getAddress(), true);
+      await distribution.connect(treasury).startPeriod();
+      await distribution.connect(treasury).setPayoutToken(await eurc.getAddress());
+      await distribution.connect(treasury).setPayoutTokenAllowed(await eurc.getAddress(), false);
+
+      await expect(distribution.connect(treasury).deposit(DEPOSIT))
+        .to.be.revertedWithCustomError(distribution, "PayoutTokenNotAllowed");
+    });
+  });
+
+  describe("setPayoutToken", function () {
+    beforeEach(async function () {
+      await distribution.connect(treasury).setPayoutTokenAllowed(await eurc.getAddress(), true);
+      await distribution.connect(treasury).startPeriod();
+    });
+
+    it("should switch the open period's payout token", async function () {
+      await expect(distribution.connect(treasury).setPayoutToken(await eurc.getAddress()))
+        .to.emit(distribution, "PayoutTokenSet")
+        .withArgs(1n, await eurc.getAddress());
+
+      await distribution.connect(treasury).deposit(DEPOSIT);
+      expect(await eurc.balanceOf(await distribution.getAddress())).to.equal(DEPOSIT);
+    });
+
+    it("should not change token after the first deposit", async function () {
+      await distribution.connect(treasury).deposit(DEPOSIT);
+
+      await expect(distribution.connect(treasury).setPayoutToken(await eurc.getAddress()))
+        .to.be.revertedWithCustomError(distribution, "PeriodHasDeposits");
+    });
+  });
+
+  describe("claims", function () {
+    beforeEach(async function () {
+      await distribution.connect(treasury).setPayoutTokenAllowed(await eurc.getAddress(), true);
+      await runPeriod();     // 1: USDC
+      await runPeriod(eurc); // 2: EURC
+      await runPeriod();     // 3: USDC
+    });
+
+    it("should pay each period in its own token", async function () {
+      await distribution.connect(alice).claim(2n);
+
+      expect(await eurc.balanceOf(alice.address)).to.equal(ethers.parseUnits("750", 6));
+      expect(await usdc.balanceOf(alice.address)).to.equal(0n);
+    });
+
+    it("should report claimable amounts per token", async function () {
+      const [token, amount] = await distribution.getClaimable(alice.address, 2n);
+      expect(token).to.equal(await eurc.getAddress());
+      expect(amount).to.equal(ethers.parseUnits("750", 6));
+
+      const [tokens, amounts] = await distribution.getClaimableByToken(alice.address, 1n, 3n);
+
+      expect(tokens).to.deep.equal([await usdc.getAddress(), await eurc.getAddress()]);
+      expect(amounts).to.deep.equal([ethers.parseUnits("1500", 6), ethers.parseUnits("750", 6)]);
+    });
+
+    it("should pay claimMany with one transfer per token", async function () {
+      await distribution.connect(bob).claimMany([1n, 2n, 3n]);
+
+      expect(await usdc.balanceOf(bob.address)).to.equal(ethers.parseUnits("500", 6));
+      expect(await eurc.balanceOf(bob.address)).to.equal(ethers.parseUnits("250", 6));
+
+      const [tokens] = await distribution.getClaimableByToken(bob.address, 1n, 3n);
+      expect(tokens.length).to.equal(0);
+    });
+
+    it("should track deposits and claims per token", async function () {
+      await distribution.connect(alice).claimMany([1n, 2n]);
+      await distribution.connect(treasury).distributeTo(2n, [bob.address]);
+
+      expect(await distribution.totalDepositedByToken(await usdc.getAddress())).to.equal(DEPOSIT * 2n);
+      expect(await distribution.totalDepositedByToken(await eurc.getAddress())).to.equal(DEPOSIT);
+      expect(await distribution.totalClaimedByToken(await usdc.getAddress())).to.equal(ethers.parseUnits("750", 6));
+      expect(await distribution.totalClaimedByToken(await eurc.getAddress())).to.equal(DEPOSIT);
+    });
+  });
+});
@@ -118,7 +118,7 @@ describe("RENTDistribution - periodId sourcing", function () {
       await distribution.connect(treasury).finalizePeriod();
 
       // === Claim using periodId from event ===
-      const claimable = await distribution.getClaimable(holder.address, periodId);
+      const [, claimable] = await distribution.getClaimable(holder.address, periodId);
       expect(claimable).to.equal(depositAmount); // holder owns 100% of supply
 
       await distribution.connect(holder).claim(periodId);
@@ -148,11 +148,11 @@ describe("RENTDistribution - periodId sourcing", function () {
       expect(periodId2).to.equal(periodId1 + 1n);
 
       // Trying to claim period 2 (empty) should return 0 claimable
-      const claimablePeriod2 = await distribution.getClaimable(holder.address, periodId2);
+      const [, claimablePeriod2] = await distribution.getClaimable(holder.address, periodId2);
       expect(claimablePeriod2).to.equal(0n);
 
       // Claiming period 1 should work
-      const claimablePeriod1 = await distribution.getClaimable(holder.address, periodId1);
+      const [, claimablePeriod1] = await distribution.getClaimable(holder.address, periodId1);
       expect(claimablePeriod1).to.equal(depositAmount);
     });
   });
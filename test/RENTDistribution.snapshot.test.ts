@@ -0,0 +1,129 @@
+/**
+ * RENTDistribution snapshot tests
+ *
+ * Claims must be computed against RENT-SEN balances captured at finalization.
+ * Before the fix, getClaimable() read the holder's live balance, so shares
+ * transferred after finalizePeriod() could claim the same period twice and
+ * drain USDC owed to other holders.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("RENTDistribution - snapshot balances", function () {
+  let usdc: Contract;
+  let rentToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let mallory: any;
+
+  const DEPOSIT = ethers.parseUnits("1000", 6);
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob, mallory] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockRENTToken = await ethers.getContractFactory("MockRENTToken");
+    rentToken = await MockRENTToken.deploy(owner.address);
+
+    const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
+    distribution = await RENTDistribution.deploy(
+      await usdc.getAddress(),
+      await rentToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 60%, Bob 40%
+    await rentToken.mint(alice.address, ethers.parseUnits("600", 18));
+    await rentToken.mint(bob.address, ethers.parseUnits("400", 18));
+    await usdc.mint(treasury.address, ethers.parseUnits("10000", 6));
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+  });
+
+  async function runPeriod(amount: bigint) {
+    await distribution.connect(treasury).startPeriod();
+    await distribution.connect(treasury).deposit(amount);
+    await distribution.connect(treasury).finalizePeriod();
+    return await distribution.currentPeriodId();
+  }
+
+  it("should reject a weight token without balance checkpoints", async function () {
+    const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
+    const usdcAddress = await usdc.getAddress();
+
+    await expect(RENTDistribution.deploy(usdcAddress, usdcAddress, treasury.address, owner.address))
+      .to.be.revertedWithCustomError(RENTDistribution, "UnsupportedWeightToken");
+    await expect(RENTDistribution.deploy(usdcAddress, alice.address, treasury.address, owner.address))
+      .to.be.revertedWithCustomError(RENTDistribution, "UnsupportedWeightToken");
+  });
+
+  it("should record the snapshot block at finalization", async function () {
+    const periodId = await runPeriod(DEPOSIT);
+    const finalizeBlock = await ethers.provider.getBlockNumber();
+
+    const period = await distribution.periods(periodId);
+    expect(period.snapshotBlock).to.equal(BigInt(finalizeBlock - 1));
+    expect(period.snapshotSupply).to.equal(ethers.parseUnits("1000", 18));
+  });
+
+  it("should not let transferred shares claim the same period twice", async function () {
+    const periodId = await runPeriod(DEPOSIT);
+
+    // Alice claims her 60%, then moves her shares to Mallory
+    await distribution.connect(alice).claim(periodId);
+    await rentToken.connect(alice).transfer(mallory.address, ethers.parseUnits("600", 18));
+
+    // Mallory held nothing at the snapshot
+    expect((await distribution.getClaimable(mallory.address, periodId)).amount).to.equal(0n);
+    await expect(distribution.connect(mallory).claim(periodId))
+      .to.be.revertedWithCustomError(distribution, "NoClaimable");
+
+    // Bob's 40% is still fully funded
+    await distribution.connect(bob).claim(periodId);
+    expect(await usdc.balanceOf(bob.address)).to.equal(ethers.parseUnits("400", 6));
+
+    const period = await distribution.periods(periodId);
+    expect(period.totalClaimed).to.equal(DEPOSIT);
+    expect(await usdc.balanceOf(await distribution.getAddress())).to.equal(0n);
+  });
+
+  it("should keep the snapshot entitlement after the holder transfers out", async function () {
+    const periodId = await runPeriod(DEPOSIT);
+
+    await rentToken.connect(bob).transfer(mallory.address, ethers.parseUnits("400", 18));
+
+    expect((await distribution.getClaimable(bob.address, periodId)).amount).to.equal(ethers.parseUnits("400", 6));
+    await distribution.connect(bob).claim(periodId);
+    expect(await usdc.balanceOf(bob.address)).to.equal(ethers.parseUnits("400", 6));
+  });
+
+  it("should include transfers made before finalization", async function () {
+    await distribution.connect(treasury).startPeriod();
+    await distribution.connect(treasury).deposit(DEPOSIT);
+
+    await rentToken.connect(bob).transfer(mallory.address, ethers.parseUnits("100", 18));
+    await distribution.connect(treasury).finalizePeriod();
+    const periodId = await distribution.currentPeriodId();
+
+    expect((await distribution.getClaimable(bob.address, periodId)).amount).to.equal(ethers.parseUnits("300", 6));
+    expect((await distribution.getClaimable(mallory.address, periodId)).amount).to.equal(ethers.parseUnits("100", 6));
+  });
+
+  it("should use each period's own snapshot", async function () {
+    const period1 = await runPeriod(DEPOSIT);
+
+    await rentToken.connect(alice).transfer(bob.address, ethers.parseUnits("600", 18));
+    const period2 = await runPeriod(DEPOSIT);
+
+    expect((await distribution.getClaimable(alice.address, period1)).amount).to.equal(ethers.parseUnits("600", 6));
+    expect((await distribution.getClaimable(alice.address, period2)).amount).to.equal(0n);
+    expect((await distribution.getClaimable(bob.address, period2)).amount).to.equal(DEPOSIT);
+  });
+});
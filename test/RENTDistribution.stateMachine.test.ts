@@ -0,0 +1,162 @@
+/**
+ * RENTDistribution period state machine tests
+ *
+ * NONE -> OPEN (startPeriod) -> FINALIZED (finalizePeriod)
+ *
+ * Every illegal transition must revert with an explicit error. Before this
+ * guard, deposits could land in period 0 or in a finalized period (changing
+ * totalDeposited after holders started claiming) and finalizePeriod() could
+ * re-snapshot supply.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("RENTDistribution - period state machine", function () {
+  let usdc: Contract;
+  let rentToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let holder: any;
+
+  const DEPOSIT = ethers.parseUnits("1000", 6);
+  const NONE = 0n;
+  const OPEN = 1n;
+  const FINALIZED = 2n;
+
+  beforeEach(async function () {
+    [owner, treasury, holder] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockRENTToken = await ethers.getContractFactory("MockRENTToken");
+    rentToken = await MockRENTToken.deploy(owner.address);
+
+    const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
+    distribution = await RENTDistribution.deploy(
+      await usdc.getAddress(),
+      await rentToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    await rentToken.mint(holder.address, ethers.parseUnits("100", 18));
+    await usdc.mint(treasury.address, DEPOSIT * 10n);
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+  });
+
+  describe("NONE (before any startPeriod)", function () {
+    it("should report NONE", async function () {
+      expect(await distribution.periodState(1n)).to.equal(NONE);
+    });
+
+    it("should reject deposit", async function () {
+      await expect(distribution.connect(treasury).deposit(DEPOSIT))
+        .to.be.revertedWithCustomError(distribution, "NoActivePeriod");
+    });
+
+    it("should reject finalizePeriod", async function () {
+      await expect(distribution.connect(treasury).finalizePeriod())
+        .to.be.revertedWithCustomError(distribution, "NoActivePeriod");
+    });
+
+    it("should reject claim", async function () {
+      await expect(distribution.connect(holder).claim(0n))
+        .to.be.revertedWithCustomError(distribution, "PeriodNotFinalized");
+    });
+  });
+
+  describe("OPEN", function () {
+    beforeEach(async function () {
+      await distribution.connect(treasury).startPeriod();
+    });
+
+    it("should report OPEN and accept deposits", async function () {
+      expect(await distribution.periodState(1n)).to.equal(OPEN);
+
+      await expect(distribution.connect(treasury).deposit(DEPOSIT))
+        .to.emit(distribution, "Deposited")
+        .withArgs(1n, DEPOSIT);
+    });
+
+    it("should reject starting another period", async function () {
+      await expect(distribution.connect(treasury).startPeriod())
+        .to.be.revertedWithCustomError(distribution, "PeriodStillOpen");
+    });
+
+    it("should reject claim", async function () {
+      await distribution.connect(treasury).deposit(DEPOSIT);
+
+      await expect(distribution.connect(holder).claim(1n))
+        .to.be.revertedWithCustomError(distribution, "PeriodNotFinalized");
+    });
+  });
+
+  describe("FINALIZED", function () {
+    beforeEach(async function () {
+      await distribution.connect(treasury).startPeriod();
+      await distribution.connect(treasury).deposit(DEPOSIT);
+      await distribution.connect(treasury).finalizePeriod();
+    });
+
+    it("should report FINALIZED", async function () {
+      expect(await distribution.periodState(1n)).to.equal(FINALIZED);
+    });
+
+    it("should reject late deposits", async function () {
+      await expect(distribution.connect(treasury).deposit(DEPOSIT))
+        .to.be.revertedWithCustomError(distribution, "PeriodAlreadyFinalized");
+
+      expect((await distribution.periods(1n)).totalDeposited).to.equal(DEPOSIT);
+    });
+
+    it("should reject finalizing twice", async function () {
+      const before = await distribution.periods(1n);
+
+      await expect(distribution.connect(treasury).finalizePeriod())
+        .to.be.revertedWithCustomError(distribution, "PeriodAlreadyFinalized");
+
+      const after = await distribution.periods(1n);
+      expect(after.snapshotBlock).to.equal(before.snapshotBlock);
+      expect(after.snapshotSupply).to.equal(before.snapshotSupply);
+    });
+
+    it("should allow starting the next period", async function () {
+      await expect(distribution.connect(treasury).startPeriod())
+        .to.emit(distribution, "PeriodStarted");
+
+      expect(await distribution.periodState(2n)).to.equal(OPEN);
+    });
+  });
+
+  describe("Retired", function () {
+    it("should reject new periods and deposits but allow finalizing the last one", async function () {
+      await distribution.connect(treasury).startPeriod();
+      await distribution.connect(treasury).deposit(DEPOSIT);
+      await distribution.connect(owner).retire();
+
+      await expect(distribution.connect(treasury).deposit(DEPOSIT))
+        .to.be.revertedWithCustomError(distribution, "ContractRetired");
+
+      await distribution.connect(treasury).finalizePeriod();
+
+      await expect(distribution.connect(treasury).startPeriod())
+        .to.be.revertedWithCustomError(distribution, "ContractRetired");
+      await expect(distribution.connect(holder).claim(1n)).to.not.be.reverted;
+    });
+  });
+
+  describe("Access control", function () {
+    it("should reject non-treasury transitions", async function () {
+      await expect(distribution.connect(holder).startPeriod())
+        .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+      await expect(distribution.connect(holder).deposit(DEPOSIT))
+        .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+      await expect(distribution.connect(holder).finalizePeriod())
+        .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * RENTDistribution unclaimed-funds expiry tests
+ *
+ * USDC nobody claims (rounding dust, lost wallets) must not stay locked
+ * forever. Periods finalized with a claim window expire, after which
+ * treasury can sweep totalDeposited - totalClaimed exactly once.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("RENTDistribution - unclaimed sweep", function () {
+  let usdc: Contract;
+  let rentToken: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+
+  const CLAIM_WINDOW = 180 * 24 * 60 * 60; // 180 days
+  const DEPOSIT = ethers.parseUnits("1000", 6);
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const MockRENTToken = await ethers.getContractFactory("MockRENTToken");
+    rentToken = await MockRENTToken.deploy(owner.address);
+
+    const RENTDistribution = await ethers.getContractFactory("RENTDistribution");
+    distribution = await RENTDistribution.deploy(
+      await usdc.getAddress(),
+      await rentToken.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    // Alice 2/3, Bob 1/3 -> rounding leaves dust
+    await rentToken.mint(alice.address, 2n);
+    await rentToken.mint(bob.address, 1n);
+    await usdc.mint(treasury.address, DEPOSIT * 2n);
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+
+    await distribution.connect(owner).setClaimWindow(CLAIM_WINDOW);
+    await distribution.connect(treasury).startPeriod();
+    await distribution.connect(treasury).deposit(DEPOSIT);
+    await distribution.connect(treasury).finalizePeriod();
+  });
+
+  it("should set the claim deadline at finalization", async function () {
+    const period = await distribution.periods(1n);
+    expect(period.claimDeadline).to.equal(period.endTime + BigInt(CLAIM_WINDOW));
+  });
+
+  it("should not sweep while the claim window is open", async function () {
+    await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+      .to.be.revertedWithCustomError(distribution, "ClaimWindowOpen");
+  });
+
+  it("should sweep exactly totalDeposited - totalClaimed after the deadline", async function () {
+    await distribution.connect(alice).claim(1n); // 666.666666 USDC
+
+    await time.increase(CLAIM_WINDOW + 1);
+
+    const period = await distribution.periods(1n);
+    const unclaimed = period.totalDeposited - period.totalClaimed;
+    const treasuryBefore = await usdc.balanceOf(treasury.address);
+
+    await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+      .to.emit(distribution, "UnclaimedSwept")
+      .withArgs(1n, treasury.address, unclaimed, period.totalDeposited, period.totalClaimed);
+
+    expect(await usdc.balanceOf(treasury.address) - treasuryBefore).to.equal(unclaimed);
+    expect(await usdc.balanceOf(await distribution.getAddress())).to.equal(0n);
+    expect((await distribution.periods(1n)).swept).to.equal(true);
+  });
+
+  it("should sweep rounding dust once every holder has claimed", async function () {
+    await distribution.connect(alice).claim(1n);
+    await distribution.connect(bob).claim(1n);
+    await time.increase(CLAIM_WINDOW + 1);
+
+    await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+      .to.emit(distribution, "UnclaimedSwept")
+      .withArgs(1n, treasury.address, 1n, DEPOSIT, DEPOSIT - 1n);
+  });
+
+  it("should block claims after the deadline", async function () {
+    await time.increase(CLAIM_WINDOW + 1);
+
+    expect(await distribution.isExpired(1n)).to.equal(true);
+    expect((await distribution.getClaimable(bob.address, 1n)).amount).to.equal(0n);
+    await expect(distribution.connect(bob).claim(1n))
+      .to.be.revertedWithCustomError(distribution, "ClaimExpired");
+  });
+
+  it("should not sweep twice", async function () {
+    await time.increase(CLAIM_WINDOW + 1);
+    await distribution.connect(treasury).sweepUnclaimed(1n);
+
+    await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+      .to.be.revertedWithCustomError(distribution, "AlreadySwept");
+  });
+
+  it("should only allow treasury to sweep", async function () {
+    await time.increase(CLAIM_WINDOW + 1);
+
+    await expect(distribution.connect(alice).sweepUnclaimed(1n))
+      .to.be.revertedWithCustomError(distribution, "OnlyTreasury");
+  });
+
+  it("should not sweep periods without a deadline", async function () {
+    await distribution.connect(owner).setClaimWindow(0);
+    await distribution.connect(treasury).startPeriod();
+    await distribution.connect(treasury).deposit(DEPOSIT);
+    await distribution.connect(treasury).finalizePeriod();
+
+    await time.increase(CLAIM_WINDOW * 10);
+
+    expect(await distribution.isExpired(2n)).to.equal(false);
+    await expect(distribution.connect(treasury).sweepUnclaimed(2n))
+      .to.be.revertedWithCustomError(distribution, "NoClaimDeadline");
+  });
+
+  it("should cap the claim window so finalization cannot overflow", async function () {
+    const max = await distribution.MAX_CLAIM_WINDOW();
+    await expect(distribution.connect(owner).setClaimWindow(max + 1n))
+      .to.be.revertedWithCustomError(distribution, "InvalidClaimWindow");
+    await expect(distribution.connect(owner).setClaimWindow(2n ** 64n - 1n))
+      .to.be.revertedWithCustomError(distribution, "InvalidClaimWindow");
+
+    await distribution.connect(owner).setClaimWindow(max);
+    await distribution.connect(treasury).startPeriod();
+    await distribution.connect(treasury).finalizePeriod();
+    expect((await distribution.periods(2n)).claimDeadline).to.equal(BigInt(await time.latest()) + max);
+  });
+
+  describe("setClaimDeadline", function () {
+    it("should extend the deadline", async function () {
+      const period = await distribution.periods(1n);
+      const extended = period.claimDeadline + 86_400n;
+
+      await expect(distribution.connect(owner).setClaimDeadline(1n, extended))
+        .to.emit(distribution, "ClaimDeadlineUpdated")
+        .withArgs(1n, extended);
+
+      await time.increase(CLAIM_WINDOW + 1);
+      expect(await distribution.isExpired(1n)).to.equal(false);
+    });
+
+    it("should not shorten the deadline", async function () {
+      const period = await distribution.periods(1n);
+
+      await expect(distribution.connect(owner).setClaimDeadline(1n, period.claimDeadline - 1n))
+        .to.be.revertedWithCustomError(distribution, "InvalidClaimDeadline");
+    });
+
+    it("should not give a deadline to a period that never expires", async function () {
+      await distribution.connect(owner).setClaimWindow(0);
+      await distribution.connect(treasury).startPeriod();
+      await distribution.connect(treasury).deposit(DEPOSIT);
+      await distribution.connect(treasury).finalizePeriod();
+
+      const finite = (await time.latest()) + CLAIM_WINDOW;
+      await expect(distribution.connect(owner).setClaimDeadline(2n, finite))
+        .to.be.revertedWithCustomError(distribution, "NoClaimDeadline");
+      expect((await distribution.periods(2n)).claimDeadline).to.equal(0n);
+    });
+  });
+});
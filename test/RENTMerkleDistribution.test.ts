@@ -0,0 +1,256 @@
+/**
+ * RENTMerkleDistribution Unit Tests
+ *
+ * Entitlements are computed off-chain and committed as a Merkle root at
+ * finalization. Leaves match StandardMerkleTree(["address", "uint256"]),
+ * the same encoding scripts/build-rent-merkle.ts produces. Withheld amounts
+ * return to treasury at finalization; unclaimed ones via sweepUnclaimed().
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("RENTMerkleDistribution", function () {
+  let usdc: Contract;
+  let distribution: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let mallory: any;
+
+  let tree: StandardMerkleTree<[string, bigint]>;
+
+  const DEPOSIT = ethers.parseUnits("1000", 6);
+  const ALICE_AMOUNT = ethers.parseUnits("612.5", 6);
+  const BOB_AMOUNT = ethers.parseUnits("287.5", 6);
+  const MERKLE_TOTAL = ALICE_AMOUNT + BOB_AMOUNT; // 100 USDC withheld
+  const CLAIM_WINDOW = 90 * 24 * 60 * 60;
+
+  function proofFor(holder: string): string[] {
+    for (const [i, [addr]] of tree.entries()) {
+      if (addr === holder) return tree.getProof(i);
+    }
+    throw new Error(`No leaf for ${holder}`);
+  }
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob, mallory] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const RENTMerkleDistribution = await ethers.getContractFactory("RENTMerkleDistribution");
+    distribution = await RENTMerkleDistribution.deploy(
+      await usdc.getAddress(),
+      treasury.address,
+      owner.address
+    );
+
+    await usdc.mint(treasury.address, ethers.parseUnits("10000", 6));
+    await usdc.connect(treasury).approve(await distribution.getAddress(), ethers.MaxUint256);
+
+    tree = StandardMerkleTree.of(
+      [
+        [alice.address, ALICE_AMOUNT],
+        [bob.address, BOB_AMOUNT],
+      ],
+      ["address", "uint256"]
+    );
+
+    await distribution.connect(treasury).startPeriod();
+    await distribution.connect(treasury).deposit(DEPOSIT);
+  });
+
+  describe("Period lifecycle", function () {
+    it("should reject deposits and finalization before any period is started", async function () {
+      const RENTMerkleDistribution = await ethers.getContractFactory("RENTMerkleDistribution");
+      const fresh = await RENTMerkleDistribution.deploy(await usdc.getAddress(), treasury.address, owner.address);
+
+      await expect(fresh.connect(treasury).deposit(1n))
+        .to.be.revertedWithCustomError(fresh, "NoActivePeriod");
+      await expect(fresh.connect(treasury).finalizePeriod(tree.root, 0n))
+        .to.be.revertedWithCustomError(fresh, "NoActivePeriod");
+    });
+
+    it("should not start a new period while the current one is open", async function () {
+      await expect(distribution.connect(treasury).startPeriod())
+        .to.be.revertedWithCustomError(distribution, "PeriodStillOpen");
+
+      await distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL);
+      await expect(distribution.connect(treasury).startPeriod())
+        .to.emit(distribution, "PeriodStarted");
+      expect(await distribution.currentPeriodId()).to.equal(2n);
+    });
+  });
+
+  describe("finalizePeriod", function () {
+    it("should store root and total", async function () {
+      await expect(distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL))
+        .to.emit(distribution, "PeriodFinalized")
+        .withArgs(1n, DEPOSIT, tree.root, MERKLE_TOTAL);
+
+      const period = await distribution.periods(1n);
+      expect(period.merkleRoot).to.equal(tree.root);
+      expect(period.merkleTotal).to.equal(MERKLE_TOTAL);
+      expect(period.finalized).to.equal(true);
+    });
+
+    it("should reject a total above deposits", async function () {
+      await expect(distribution.connect(treasury).finalizePeriod(tree.root, DEPOSIT + 1n))
+        .to.be.revertedWithCustomError(distribution, "MerkleTotalExceedsDeposits");
+    });
+
+    it("should reject an empty root", async function () {
+      await expect(distribution.connect(treasury).finalizePeriod(ethers.ZeroHash, MERKLE_TOTAL))
+        .to.be.revertedWithCustomError(distribution, "ZeroRoot");
+    });
+
+    it("should not finalize twice or accept late deposits", async function () {
+      await distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL);
+
+      await expect(distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL))
+        .to.be.revertedWithCustomError(distribution, "PeriodAlreadyFinalized");
+      await expect(distribution.connect(treasury).deposit(1n))
+        .to.be.revertedWithCustomError(distribution, "PeriodAlreadyFinalized");
+    });
+  });
+
+  describe("claim", function () {
+    beforeEach(async function () {
+      await distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL);
+    });
+
+    it("should pay the leaf amount for a valid proof", async function () {
+      await expect(distribution.connect(alice).claim(1n, ALICE_AMOUNT, proofFor(alice.address)))
+        .to.emit(distribution, "Claimed")
+        .withArgs(1n, alice.address, ALICE_AMOUNT);
+
+      expect(await usdc.balanceOf(alice.address)).to.equal(ALICE_AMOUNT);
+      expect((await distribution.periods(1n)).totalClaimed).to.equal(ALICE_AMOUNT);
+    });
+
+    it("should reject a tampered amount", async function () {
+      await expect(distribution.connect(alice).claim(1n, ALICE_AMOUNT + 1n, proofFor(alice.address)))
+        .to.be.revertedWithCustomError(distribution, "InvalidProof");
+    });
+
+    it("should reject another holder's proof", async function () {
+      await expect(distribution.connect(mallory).claim(1n, ALICE_AMOUNT, proofFor(alice.address)))
+        .to.be.revertedWithCustomError(distribution, "InvalidProof");
+    });
+
+    it("should reject a second claim", async function () {
+      await distribution.connect(bob).claim(1n, BOB_AMOUNT, proofFor(bob.address));
+
+      await expect(distribution.connect(bob).claim(1n, BOB_AMOUNT, proofFor(bob.address)))
+        .to.be.revertedWithCustomError(distribution, "AlreadyClaimed");
+    });
+
+    it("should hold exactly the entitlements once all are claimed", async function () {
+      await distribution.connect(alice).claim(1n, ALICE_AMOUNT, proofFor(alice.address));
+      await distribution.connect(bob).claim(1n, BOB_AMOUNT, proofFor(bob.address));
+
+      expect(await usdc.balanceOf(await distribution.getAddress())).to.equal(0n);
+    });
+
+    it("should not pay out beyond merkleTotal when the leaves over-allocate", async function () {
+      // Period 2 holds funds that period 3's bad root must not reach
+      await distribution.connect(treasury).startPeriod();
+      await distribution.connect(treasury).deposit(DEPOSIT);
+      await distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL);
+
+      // Leaves sum to 2 * DEPOSIT against a declared total of DEPOSIT
+      const badTree = StandardMerkleTree.of(
+        [
+          [alice.address, DEPOSIT],
+          [mallory.address, DEPOSIT],
+        ],
+        ["address", "uint256"]
+      );
+      await distribution.connect(treasury).startPeriod();
+      await distribution.connect(treasury).deposit(DEPOSIT);
+      await distribution.connect(treasury).finalizePeriod(badTree.root, DEPOSIT);
+
+      await distribution.connect(alice).claim(3n, DEPOSIT, badTree.getProof(0));
+      await expect(distribution.connect(mallory).claim(3n, DEPOSIT, badTree.getProof(1)))
+        .to.be.revertedWithCustomError(distribution, "ExceedsMerkleTotal");
+
+      await distribution.connect(bob).claim(2n, BOB_AMOUNT, proofFor(bob.address));
+      expect((await distribution.periods(3n)).totalClaimed).to.equal(DEPOSIT);
+    });
+  });
+
+  describe("Recovery", function () {
+    it("should return withheld funds to treasury at finalization", async function () {
+      const treasuryBefore = await usdc.balanceOf(treasury.address);
+
+      await expect(distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL))
+        .to.emit(distribution, "WithheldReturned")
+        .withArgs(1n, treasury.address, DEPOSIT - MERKLE_TOTAL);
+
+      expect(await usdc.balanceOf(treasury.address) - treasuryBefore).to.equal(DEPOSIT - MERKLE_TOTAL);
+      expect(await usdc.balanceOf(await distribution.getAddress())).to.equal(MERKLE_TOTAL);
+    });
+
+    it("should sweep unclaimed entitlements after the claim deadline", async function () {
+      await distribution.setClaimWindow(CLAIM_WINDOW);
+      await distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL);
+      await distribution.connect(alice).claim(1n, ALICE_AMOUNT, proofFor(alice.address));
+
+      await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+        .to.be.revertedWithCustomError(distribution, "ClaimWindowOpen");
+
+      await time.increase(CLAIM_WINDOW + 1);
+      await expect(distribution.connect(bob).claim(1n, BOB_AMOUNT, proofFor(bob.address)))
+        .to.be.revertedWithCustomError(distribution, "ClaimExpired");
+
+      const treasuryBefore = await usdc.balanceOf(treasury.address);
+      await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+        .to.emit(distribution, "UnclaimedSwept")
+        .withArgs(1n, treasury.address, BOB_AMOUNT, MERKLE_TOTAL, ALICE_AMOUNT);
+
+      expect(await usdc.balanceOf(treasury.address) - treasuryBefore).to.equal(BOB_AMOUNT);
+      expect(await usdc.balanceOf(await distribution.getAddress())).to.equal(0n);
+      await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+        .to.be.revertedWithCustomError(distribution, "AlreadySwept");
+    });
+
+    it("should only extend deadlines, and never add one to a period without", async function () {
+      await distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL);
+      const later = (await time.latest()) + CLAIM_WINDOW;
+
+      await expect(distribution.setClaimDeadline(1n, later))
+        .to.be.revertedWithCustomError(distribution, "NoClaimDeadline");
+      await expect(distribution.connect(treasury).sweepUnclaimed(1n))
+        .to.be.revertedWithCustomError(distribution, "NoClaimDeadline");
+
+      await distribution.setClaimWindow(CLAIM_WINDOW);
+      await distribution.connect(treasury).startPeriod();
+      await distribution.connect(treasury).deposit(DEPOSIT);
+      await distribution.connect(treasury).finalizePeriod(tree.root, MERKLE_TOTAL);
+      const deadline = (await distribution.periods(2n)).claimDeadline;
+
+      await expect(distribution.setClaimDeadline(2n, deadline - 1n))
+        .to.be.revertedWithCustomError(distribution, "InvalidClaimDeadline");
+      await expect(distribution.setClaimDeadline(2n, deadline + 1n))
+        .to.emit(distribution, "ClaimDeadlineUpdated")
+        .withArgs(2n, deadline + 1n);
+    });
+
+    it("should cap the claim window so finalization cannot overflow", async function () {
+      const max = await distribution.MAX_CLAIM_WINDOW();
+      await expect(distribution.setClaimWindow(max + 1n))
+        .to.be.revertedWithCustomError(distribution, "InvalidClaimWindow");
+      await distribution.setClaimWindow(max);
+    });
+  });
+
+  it("should reject claims before finalization", async function () {
+    await expect(distribution.connect(alice).claim(1n, ALICE_AMOUNT, proofFor(alice.address)))
+      .to.be.revertedWithCustomError(distribution, "PeriodNotFinalized");
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * SSFReserveVault permit redemption tests
+ *
+ * SSFShareToken supports EIP-2612, so a holder can sign a permit for the vault
+ * and a relayer submits redeemWithPermit(). USDC always goes to the holder.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signature } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFReserveVault - permit redemptions", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let reserveVault: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let relayer: any;
+
+  const FLOOR_PRICE = ethers.parseUnits("500", 6);
+
+  async function signPermit(holder: any, value: bigint, deadline: bigint): Promise<Signature> {
+    const domain = {
+      name: await shareToken.name(),
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await shareToken.getAddress(),
+    };
+    const types = {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+    const message = {
+      owner: holder.address,
+      spender: await reserveVault.getAddress(),
+      value,
+      nonce: await shareToken.nonces(holder.address),
+      deadline,
+    };
+    return Signature.from(await holder.signTypedData(domain, types, message));
+  }
+
+  beforeEach(async function () {
+    [owner, treasury, alice, relayer] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const SSFReserveVault = await ethers.getContractFactory("SSFReserveVault");
+    reserveVault = await SSFReserveVault.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      100
+    );
+    const vaultAddress = await reserveVault.getAddress();
+
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), owner.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), vaultAddress);
+    await shareToken.mint(alice.address, 20);
+    await usdc.mint(vaultAddress, 20n * FLOOR_PRICE);
+  });
+
+  it("should redeem with a relayed permit and pay the holder", async function () {
+    const deadline = BigInt(await time.latest()) + 3600n;
+    const sig = await signPermit(alice, 10n, deadline);
+
+    await expect(reserveVault.connect(relayer).redeemWithPermit(alice.address, 10n, deadline, sig.v, sig.r, sig.s))
+      .to.emit(reserveVault, "Redeemed")
+      .withArgs(alice.address, 10n, 10n * FLOOR_PRICE);
+
+    expect(await usdc.balanceOf(alice.address)).to.equal(10n * FLOOR_PRICE);
+    expect(await usdc.balanceOf(relayer.address)).to.equal(0n);
+    expect(await shareToken.balanceOf(alice.address)).to.equal(10n);
+    expect(await shareToken.totalSupply()).to.equal(10n);
+    expect(await shareToken.allowance(alice.address, await reserveVault.getAddress())).to.equal(0n);
+  });
+
+  it("should reject a replayed permit or a different amount", async function () {
+    const deadline = BigInt(await time.latest()) + 3600n;
+    const sig = await signPermit(alice, 5n, deadline);
+
+    await expect(reserveVault.connect(relayer).redeemWithPermit(alice.address, 6n, deadline, sig.v, sig.r, sig.s))
+      .to.be.revertedWithCustomError(shareToken, "ERC2612InvalidSigner");
+
+    await reserveVault.connect(relayer).redeemWithPermit(alice.address, 5n, deadline, sig.v, sig.r, sig.s);
+    await expect(reserveVault.connect(relayer).redeemWithPermit(alice.address, 5n, deadline, sig.v, sig.r, sig.s))
+      .to.be.revertedWithCustomError(shareToken, "ERC2612InvalidSigner");
+  });
+
+  it("should reject an expired permit", async function () {
+    const deadline = BigInt(await time.latest()) - 1n;
+    const sig = await signPermit(alice, 5n, deadline);
+
+    await expect(reserveVault.connect(relayer).redeemWithPermit(alice.address, 5n, deadline, sig.v, sig.r, sig.s))
+      .to.be.revertedWithCustomError(shareToken, "ERC2612ExpiredSignature");
+  });
+
+  it("should apply the holder's wallet limits", async function () {
+    await reserveVault.setWalletLimits(5n, 0);
+    const deadline = BigInt(await time.latest()) + 3600n;
+    const sig = await signPermit(alice, 6n, deadline);
+
+    await expect(reserveVault.connect(relayer).redeemWithPermit(alice.address, 6n, deadline, sig.v, sig.r, sig.s))
+      .to.be.revertedWithCustomError(reserveVault, "WalletRateLimitExceeded");
+  });
+});
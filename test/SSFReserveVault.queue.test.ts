@@ -0,0 +1,362 @@
+/**
+ * SSFReserveVault redemption queue tests
+ *
+ * requestRedeem() escrows shares in a FIFO queue; processQueue() pays requests
+ * in order as rate-limit capacity and reserve allow, partially filling the head
+ * request. Requests are cancellable, and redeem() is closed while the queue is open.
+ * With SSFComplianceModule attached, the vault is registered as an escrow agent.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFReserveVault - redemption queue", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let reserveVault: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let keeper: any;
+
+  const FLOOR_PRICE = ethers.parseUnits("500", 6);
+  const MAX_REDEEM_PER_WINDOW = 100n;
+  const WINDOW = 7 * 24 * 60 * 60;
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob, keeper] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const SSFReserveVault = await ethers.getContractFactory("SSFReserveVault");
+    reserveVault = await SSFReserveVault.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      MAX_REDEEM_PER_WINDOW
+    );
+    const vaultAddress = await reserveVault.getAddress();
+
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), owner.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), vaultAddress);
+    await shareToken.mint(alice.address, 150);
+    await shareToken.mint(bob.address, 50);
+    await shareToken.connect(alice).approve(vaultAddress, ethers.MaxUint256);
+    await shareToken.connect(bob).approve(vaultAddress, ethers.MaxUint256);
+
+    // Fully reserved: 200 shares x 500 USDC
+    await usdc.mint(vaultAddress, 200n * FLOOR_PRICE);
+  });
+
+  describe("requestRedeem", function () {
+    it("should escrow shares and record the request", async function () {
+      await expect(reserveVault.connect(alice).requestRedeem(120))
+        .to.emit(reserveVault, "RedeemRequested")
+        .withArgs(0n, alice.address, 120n);
+
+      expect(await shareToken.balanceOf(alice.address)).to.equal(30n);
+      expect(await shareToken.balanceOf(await reserveVault.getAddress())).to.equal(120n);
+      expect(await reserveVault.queuedShares()).to.equal(120n);
+      expect(await reserveVault.queueLength()).to.equal(1n);
+
+      const request = await reserveVault.redemptionQueue(0);
+      expect(request.holder).to.equal(alice.address);
+      expect(request.shares).to.equal(120n);
+    });
+
+    it("should revert on zero shares", async function () {
+      await expect(reserveVault.connect(alice).requestRedeem(0))
+        .to.be.revertedWithCustomError(reserveVault, "ZeroShares");
+    });
+
+    it("should close direct redemptions while requests are queued", async function () {
+      await reserveVault.connect(alice).requestRedeem(10);
+      await expect(reserveVault.connect(bob).redeem(1))
+        .to.be.revertedWithCustomError(reserveVault, "QueueNotEmpty");
+    });
+  });
+
+  describe("processQueue", function () {
+    beforeEach(async function () {
+      await reserveVault.connect(alice).requestRedeem(120);
+      await reserveVault.connect(bob).requestRedeem(50);
+    });
+
+    it("should pay in order and partially fill at the window limit", async function () {
+      await expect(reserveVault.connect(keeper).processQueue(10))
+        .to.emit(reserveVault, "RedeemRequestFilled")
+        .withArgs(0n, alice.address, 100n, 100n * FLOOR_PRICE);
+
+      expect(await usdc.balanceOf(alice.address)).to.equal(100n * FLOOR_PRICE);
+      expect(await usdc.balanceOf(bob.address)).to.equal(0n);
+      expect((await reserveVault.redemptionQueue(0)).shares).to.equal(20n);
+      expect(await reserveVault.queueHead()).to.equal(0n);
+      expect(await reserveVault.queuedShares()).to.equal(70n);
+      expect(await shareToken.totalSupply()).to.equal(100n);
+    });
+
+    it("should continue in the next window", async function () {
+      await reserveVault.processQueue(10);
+      await time.increase(WINDOW);
+      await reserveVault.processQueue(10);
+
+      expect(await usdc.balanceOf(alice.address)).to.equal(120n * FLOOR_PRICE);
+      expect(await usdc.balanceOf(bob.address)).to.equal(50n * FLOOR_PRICE);
+      expect(await reserveVault.queueHead()).to.equal(2n);
+      expect(await reserveVault.queuedShares()).to.equal(0n);
+    });
+
+    it("should partially fill when the reserve runs out", async function () {
+      await reserveVault.setRateLimit(0, WINDOW);
+      await shareToken.mint(bob.address, 100);
+      await reserveVault.connect(bob).requestRedeem(100);
+
+      // Reserve covers 200 shares: 120 + 50 in full, then 30 of the last 100
+      await expect(reserveVault.processQueue(10))
+        .to.emit(reserveVault, "RedeemRequestFilled")
+        .withArgs(2n, bob.address, 30n, 30n * FLOOR_PRICE);
+
+      expect(await reserveVault.queueHead()).to.equal(2n);
+      expect((await reserveVault.redemptionQueue(2)).shares).to.equal(70n);
+      expect(await usdc.balanceOf(await reserveVault.getAddress())).to.equal(0n);
+    });
+
+    it("should respect maxRequests", async function () {
+      await reserveVault.setRateLimit(0, WINDOW);
+      await reserveVault.processQueue(1);
+
+      expect(await reserveVault.queueHead()).to.equal(1n);
+      expect(await usdc.balanceOf(bob.address)).to.equal(0n);
+    });
+
+    it("should skip cancelled requests", async function () {
+      await reserveVault.connect(alice).cancelRedeem(0);
+      await reserveVault.processQueue(10);
+
+      expect(await usdc.balanceOf(bob.address)).to.equal(50n * FLOOR_PRICE);
+      expect(await reserveVault.queueHead()).to.equal(2n);
+    });
+
+    it("should reopen direct redemptions once the queue is drained", async function () {
+      await reserveVault.setRateLimit(0, WINDOW);
+      await reserveVault.processQueue(10);
+
+      await reserveVault.connect(alice).redeem(30);
+      expect(await usdc.balanceOf(alice.address)).to.equal(150n * FLOOR_PRICE);
+    });
+
+    it("should block processing while paused", async function () {
+      await reserveVault.pause();
+      await expect(reserveVault.processQueue(10)).to.be.revertedWithCustomError(reserveVault, "EnforcedPause");
+    });
+  });
+
+  describe("cancelRedeem", function () {
+    beforeEach(async function () {
+      await reserveVault.connect(alice).requestRedeem(120);
+    });
+
+    it("should return the unfilled shares", async function () {
+      await reserveVault.processQueue(1);
+
+      await expect(reserveVault.connect(alice).cancelRedeem(0))
+        .to.emit(reserveVault, "RedeemRequestCancelled")
+        .withArgs(0n, alice.address, 20n);
+      expect(await shareToken.balanceOf(alice.address)).to.equal(50n);
+      expect(await reserveVault.queuedShares()).to.equal(0n);
+    });
+
+    it("should only let the holder cancel, once", async function () {
+      await expect(reserveVault.connect(bob).cancelRedeem(0))
+        .to.be.revertedWithCustomError(reserveVault, "NotRequestHolder");
+
+      await reserveVault.connect(alice).cancelRedeem(0);
+      await expect(reserveVault.connect(alice).cancelRedeem(0))
+        .to.be.revertedWithCustomError(reserveVault, "RequestNotOpen");
+      await expect(reserveVault.connect(alice).cancelRedeem(5))
+        .to.be.revertedWithCustomError(reserveVault, "RequestNotOpen");
+    });
+
+    it("should work while paused", async function () {
+      await reserveVault.pause();
+      await reserveVault.connect(alice).cancelRedeem(0);
+      expect(await shareToken.balanceOf(alice.address)).to.equal(150n);
+    });
+  });
+
+  describe("Frozen holders", function () {
+    let replacement: any;
+
+    beforeEach(async function () {
+      replacement = (await ethers.getSigners())[5];
+      await shareToken.grantRole(await shareToken.FREEZER_ROLE(), owner.address);
+      await shareToken.grantRole(await shareToken.RECOVERY_ROLE(), owner.address);
+      await reserveVault.setRateLimit(0, WINDOW);
+      await reserveVault.connect(alice).requestRedeem(120);
+      await reserveVault.connect(bob).requestRedeem(50);
+    });
+
+    it("should pay a recovered holder's replacement", async function () {
+      await shareToken.recoverWallet(alice.address, replacement.address);
+
+      await expect(reserveVault.processQueue(10))
+        .to.emit(reserveVault, "RedeemRequestFilled")
+        .withArgs(0n, alice.address, 120n, 120n * FLOOR_PRICE);
+      expect(await usdc.balanceOf(alice.address)).to.equal(0n);
+      expect(await usdc.balanceOf(replacement.address)).to.equal(120n * FLOOR_PRICE);
+      expect(await usdc.balanceOf(bob.address)).to.equal(50n * FLOOR_PRICE);
+    });
+
+    it("should hold a frozen holder's request and keep the queue moving", async function () {
+      await shareToken.freeze(alice.address);
+
+      await expect(reserveVault.processQueue(10))
+        .to.emit(reserveVault, "RedeemRequestHeld")
+        .withArgs(0n, alice.address, 120n);
+      expect(await usdc.balanceOf(alice.address)).to.equal(0n);
+      expect(await usdc.balanceOf(bob.address)).to.equal(50n * FLOOR_PRICE);
+      expect(await reserveVault.heldShares(alice.address)).to.equal(120n);
+      expect(await reserveVault.queuedShares()).to.equal(0n);
+      expect(await reserveVault.queueHead()).to.equal(2n);
+
+      await expect(reserveVault.releaseHeldShares(alice.address))
+        .to.be.revertedWithCustomError(reserveVault, "WalletFrozen");
+    });
+
+    it("should release held shares once the holder is unfrozen or recovered", async function () {
+      await shareToken.freeze(alice.address);
+      await reserveVault.processQueue(10);
+
+      await shareToken.recoverWallet(alice.address, replacement.address);
+      await expect(reserveVault.connect(keeper).releaseHeldShares(alice.address))
+        .to.emit(reserveVault, "HeldSharesReleased")
+        .withArgs(alice.address, replacement.address, 120n);
+      expect(await shareToken.balanceOf(replacement.address)).to.equal(150n);
+
+      await expect(reserveVault.releaseHeldShares(alice.address))
+        .to.be.revertedWithCustomError(reserveVault, "NoHeldShares");
+    });
+  });
+
+  describe("With compliance", function () {
+    let compliance: Contract;
+
+    const US = 840;
+    const RECIPIENT_NOT_VERIFIED = 2;
+    const LOCKUP_ACTIVE = 5;
+
+    beforeEach(async function () {
+      // Fresh token and vault: the module must be attached before the first mint
+      const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+      shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+      const SSFReserveVault = await ethers.getContractFactory("SSFReserveVault");
+      reserveVault = await SSFReserveVault.deploy(
+        await usdc.getAddress(),
+        await shareToken.getAddress(),
+        treasury.address,
+        owner.address,
+        MAX_REDEEM_PER_WINDOW
+      );
+      const vaultAddress = await reserveVault.getAddress();
+
+      const SSFIdentityRegistry = await ethers.getContractFactory("SSFIdentityRegistry");
+      const registry = await SSFIdentityRegistry.deploy(owner.address);
+      await registry.grantRole(await registry.REGISTRAR_ROLE(), owner.address);
+      await registry.registerIdentities([alice.address, bob.address], [US, US]);
+
+      const SSFComplianceModule = await ethers.getContractFactory("SSFComplianceModule");
+      compliance = await SSFComplianceModule.deploy(
+        await shareToken.getAddress(),
+        await registry.getAddress(),
+        owner.address
+      );
+      await compliance.setAllowedCountries([US], true);
+      await compliance.setMaxHolders(2);
+      await compliance.setLockupUntil((await time.latest()) + 365 * 24 * 60 * 60);
+      await shareToken.setCompliance(await compliance.getAddress());
+
+      await shareToken.grantRole(await shareToken.MINTER_ROLE(), owner.address);
+      await shareToken.grantRole(await shareToken.BURNER_ROLE(), vaultAddress);
+      await shareToken.mint(alice.address, 150);
+      await shareToken.mint(bob.address, 50);
+      await shareToken.connect(alice).approve(vaultAddress, ethers.MaxUint256);
+      await usdc.mint(vaultAddress, 200n * FLOOR_PRICE);
+    });
+
+    it("should reject escrow into an unregistered vault", async function () {
+      await expect(reserveVault.connect(alice).requestRedeem(10))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(RECIPIENT_NOT_VERIFIED);
+    });
+
+    it("should escrow, cancel and fill through a registered vault", async function () {
+      const vaultAddress = await reserveVault.getAddress();
+      await expect(compliance.setEscrowAgent(vaultAddress, true))
+        .to.emit(compliance, "EscrowAgentUpdated")
+        .withArgs(vaultAddress, true);
+
+      // Lockup active and both holder slots taken: the vault is neither checked nor counted
+      await reserveVault.connect(alice).requestRedeem(150);
+      expect(await compliance.holderCount()).to.equal(1n);
+
+      await reserveVault.connect(alice).cancelRedeem(0);
+      expect(await shareToken.balanceOf(alice.address)).to.equal(150n);
+      expect(await compliance.holderCount()).to.equal(2n);
+
+      await reserveVault.connect(alice).requestRedeem(100);
+      await reserveVault.processQueue(10);
+      expect(await usdc.balanceOf(alice.address)).to.equal(100n * FLOOR_PRICE);
+      expect(await shareToken.balanceOf(vaultAddress)).to.equal(0n);
+      expect(await compliance.holderCount()).to.equal(2n);
+    });
+
+    it("should still block holder-to-holder transfers during the lockup", async function () {
+      await compliance.setEscrowAgent(await reserveVault.getAddress(), true);
+
+      await expect(shareToken.connect(alice).transfer(bob.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(LOCKUP_ACTIVE);
+    });
+  });
+
+  describe("Queue views", function () {
+    beforeEach(async function () {
+      await reserveVault.connect(alice).requestRedeem(120);
+      await reserveVault.connect(bob).requestRedeem(50);
+    });
+
+    it("should report position ahead of a request", async function () {
+      expect(await reserveVault.queuePosition(0)).to.deep.equal([0n, 0n]);
+      expect(await reserveVault.queuePosition(1)).to.deep.equal([1n, 120n]);
+
+      await reserveVault.processQueue(10);
+      expect(await reserveVault.queuePosition(1)).to.deep.equal([1n, 20n]);
+    });
+
+    it("should estimate the fill window from rate-limit capacity", async function () {
+      const windowStart = await reserveVault.redeemWindowStart();
+
+      // 120 + 50 shares needed, 100 per window: bob fills in the second window
+      const [windowsAhead, fillableAt] = await reserveVault.estimatedFillWindow(1);
+      expect(windowsAhead).to.equal(1n);
+      expect(fillableAt).to.equal(windowStart + BigInt(WINDOW));
+
+      await reserveVault.connect(alice).cancelRedeem(0);
+      expect((await reserveVault.estimatedFillWindow(1))[0]).to.equal(0n);
+    });
+
+    it("should reject closed requests", async function () {
+      await reserveVault.connect(bob).cancelRedeem(1);
+      await expect(reserveVault.queuePosition(1)).to.be.revertedWithCustomError(reserveVault, "RequestNotOpen");
+    });
+  });
+});
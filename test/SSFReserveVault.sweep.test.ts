@@ -0,0 +1,276 @@
+/**
+ * SSFReserveVault timelocked sweep and attestation tests
+ *
+ * proposeSweep() announces a withdrawal of excess reserve; executeSweep() pays it
+ * to treasury after sweepDelay, within maxSweepPerPeriod. Loosening that policy
+ * waits out the current sweepDelay. attestReserve() emits balance, required
+ * reserve and coverage for monitoring.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFReserveVault - timelocked sweep", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let reserveVault: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+
+  const FLOOR_PRICE = ethers.parseUnits("500", 6);
+  const MAX_REDEEM_PER_WINDOW = 100n;
+  const DAY = 24 * 60 * 60;
+  // 100 shares outstanding, 10,000 USDC above the floor reserve
+  const REQUIRED = 100n * FLOOR_PRICE;
+  const EXCESS = ethers.parseUnits("10000", 6);
+
+  beforeEach(async function () {
+    [owner, treasury, alice] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const SSFReserveVault = await ethers.getContractFactory("SSFReserveVault");
+    reserveVault = await SSFReserveVault.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      MAX_REDEEM_PER_WINDOW
+    );
+    const vaultAddress = await reserveVault.getAddress();
+
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), owner.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), vaultAddress);
+    await shareToken.mint(alice.address, 100);
+
+    await usdc.mint(vaultAddress, REQUIRED + EXCESS);
+  });
+
+  describe("proposeSweep", function () {
+    it("should record the sweep and announce when it can execute", async function () {
+      const executableAt = (await time.latest()) + 1 + 2 * DAY;
+      await time.setNextBlockTimestamp(executableAt - 2 * DAY);
+
+      await expect(reserveVault.proposeSweep(EXCESS))
+        .to.emit(reserveVault, "SweepProposed")
+        .withArgs(EXCESS, executableAt);
+
+      const pending = await reserveVault.pendingSweep();
+      expect(pending.amount).to.equal(EXCESS);
+      expect(pending.executableAt).to.equal(BigInt(executableAt));
+      expect(await usdc.balanceOf(treasury.address)).to.equal(0n);
+    });
+
+    it("should only let the owner propose", async function () {
+      await expect(reserveVault.connect(alice).proposeSweep(1))
+        .to.be.revertedWithCustomError(reserveVault, "OwnableUnauthorizedAccount");
+    });
+
+    it("should reject zero, above-excess and overlapping proposals", async function () {
+      await expect(reserveVault.proposeSweep(0))
+        .to.be.revertedWithCustomError(reserveVault, "ZeroAmount");
+      await expect(reserveVault.proposeSweep(EXCESS + 1n))
+        .to.be.revertedWithCustomError(reserveVault, "ExceedsExcess");
+
+      await reserveVault.proposeSweep(1);
+      await expect(reserveVault.proposeSweep(1))
+        .to.be.revertedWithCustomError(reserveVault, "SweepAlreadyPending");
+    });
+
+    it("should reject proposals above the period cap", async function () {
+      await reserveVault.setSweepPolicy(2 * DAY, EXCESS / 2n, 30 * DAY);
+      await expect(reserveVault.proposeSweep(EXCESS / 2n + 1n))
+        .to.be.revertedWithCustomError(reserveVault, "ExceedsSweepCap");
+    });
+  });
+
+  describe("executeSweep", function () {
+    beforeEach(async function () {
+      await reserveVault.proposeSweep(EXCESS);
+    });
+
+    it("should not execute before the delay", async function () {
+      const { executableAt } = await reserveVault.pendingSweep();
+      await time.increaseTo(executableAt - 2n);
+
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "SweepNotReady")
+        .withArgs(executableAt);
+    });
+
+    it("should pay treasury, clear the proposal and attest", async function () {
+      await time.increase(2 * DAY);
+
+      await expect(reserveVault.executeSweep())
+        .to.emit(reserveVault, "ExcessSwept")
+        .withArgs(treasury.address, EXCESS)
+        .and.to.emit(reserveVault, "ReserveAttested")
+        .withArgs(REQUIRED, REQUIRED, 10_000n, 100n);
+
+      expect(await usdc.balanceOf(treasury.address)).to.equal(EXCESS);
+      expect((await reserveVault.pendingSweep()).amount).to.equal(0n);
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "NoPendingSweep");
+    });
+
+    it("should re-check excess at execution", async function () {
+      // New issuance raises the required reserve past what was announced
+      await shareToken.mint(alice.address, 1);
+      await time.increase(2 * DAY);
+
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "ExceedsExcess");
+    });
+
+    it("should be cancellable by the owner", async function () {
+      await expect(reserveVault.connect(alice).cancelSweep())
+        .to.be.revertedWithCustomError(reserveVault, "OwnableUnauthorizedAccount");
+
+      await expect(reserveVault.cancelSweep())
+        .to.emit(reserveVault, "SweepCancelled")
+        .withArgs(EXCESS);
+      await expect(reserveVault.cancelSweep())
+        .to.be.revertedWithCustomError(reserveVault, "NoPendingSweep");
+    });
+
+    it("should not execute once wind-down has started", async function () {
+      await time.increase(2 * DAY);
+      await reserveVault.startWindDown();
+
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "WindDownActive");
+    });
+  });
+
+  describe("Per-period cap", function () {
+    const CAP = ethers.parseUnits("4000", 6);
+
+    beforeEach(async function () {
+      await reserveVault.setSweepPolicy(2 * DAY, CAP, 30 * DAY);
+    });
+
+    it("should cap executed sweeps per period", async function () {
+      await reserveVault.proposeSweep(CAP);
+      await time.increase(2 * DAY);
+      await reserveVault.executeSweep();
+      expect(await reserveVault.remainingSweepCap()).to.equal(0n);
+
+      await reserveVault.proposeSweep(1);
+      await time.increase(2 * DAY);
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "ExceedsSweepCap");
+    });
+
+    it("should reset the cap in the next period", async function () {
+      await reserveVault.proposeSweep(CAP);
+      await time.increase(2 * DAY);
+      await reserveVault.executeSweep();
+
+      await reserveVault.proposeSweep(CAP);
+      await time.increase(30 * DAY);
+      expect(await reserveVault.remainingSweepCap()).to.equal(CAP);
+      await reserveVault.executeSweep();
+
+      expect(await usdc.balanceOf(treasury.address)).to.equal(2n * CAP);
+    });
+  });
+
+  describe("setSweepPolicy", function () {
+    it("should emit SweepPolicyUpdated", async function () {
+      await expect(reserveVault.setSweepPolicy(3 * DAY, 5n, 7 * DAY))
+        .to.emit(reserveVault, "SweepPolicyUpdated")
+        .withArgs(3 * DAY, 5n, 7 * DAY);
+      expect(await reserveVault.sweepDelay()).to.equal(BigInt(3 * DAY));
+    });
+
+    it("should enforce the minimum delay and a non-zero period", async function () {
+      await expect(reserveVault.setSweepPolicy(DAY - 1, 0, 30 * DAY))
+        .to.be.revertedWithCustomError(reserveVault, "InvalidSweepPolicy");
+      await expect(reserveVault.setSweepPolicy(DAY, 0, 0))
+        .to.be.revertedWithCustomError(reserveVault, "InvalidSweepPolicy");
+      await expect(reserveVault.connect(alice).setSweepPolicy(DAY, 0, DAY))
+        .to.be.revertedWithCustomError(reserveVault, "OwnableUnauthorizedAccount");
+    });
+
+    describe("Loosening", function () {
+      const CAP = ethers.parseUnits("4000", 6);
+
+      beforeEach(async function () {
+        await reserveVault.setSweepPolicy(3 * DAY, CAP, 30 * DAY);
+      });
+
+      it("should queue a shorter delay and a removed cap behind the current delay", async function () {
+        const effectiveAt = (await time.latest()) + 1 + 3 * DAY;
+        await time.setNextBlockTimestamp(effectiveAt - 3 * DAY);
+
+        await expect(reserveVault.setSweepPolicy(DAY, 0, 30 * DAY))
+          .to.emit(reserveVault, "SweepPolicyProposed")
+          .withArgs(DAY, 0n, 30 * DAY, effectiveAt)
+          .and.not.to.emit(reserveVault, "SweepPolicyUpdated");
+
+        // Still the old policy: a sweep above the old cap is rejected
+        expect(await reserveVault.sweepDelay()).to.equal(BigInt(3 * DAY));
+        await expect(reserveVault.proposeSweep(EXCESS))
+          .to.be.revertedWithCustomError(reserveVault, "ExceedsSweepCap");
+
+        await time.increaseTo(effectiveAt - 2);
+        await expect(reserveVault.applySweepPolicy())
+          .to.be.revertedWithCustomError(reserveVault, "SweepPolicyNotReady")
+          .withArgs(effectiveAt);
+
+        await time.increaseTo(effectiveAt);
+        await expect(reserveVault.applySweepPolicy())
+          .to.emit(reserveVault, "SweepPolicyUpdated")
+          .withArgs(DAY, 0n, 30 * DAY);
+        expect(await reserveVault.maxSweepPerPeriod()).to.equal(0n);
+        expect((await reserveVault.pendingSweepPolicy()).effectiveAt).to.equal(0n);
+      });
+
+      it("should queue a higher cap or a shorter cap period", async function () {
+        await expect(reserveVault.setSweepPolicy(3 * DAY, CAP + 1n, 30 * DAY))
+          .to.emit(reserveVault, "SweepPolicyProposed");
+        await expect(reserveVault.setSweepPolicy(3 * DAY, CAP, 29 * DAY))
+          .to.emit(reserveVault, "SweepPolicyProposed");
+        expect(await reserveVault.maxSweepPerPeriod()).to.equal(CAP);
+      });
+
+      it("should apply tightening immediately and drop a queued loosening", async function () {
+        await reserveVault.setSweepPolicy(DAY, 0, 30 * DAY);
+
+        await expect(reserveVault.setSweepPolicy(4 * DAY, CAP / 2n, 60 * DAY))
+          .to.emit(reserveVault, "SweepPolicyUpdated")
+          .withArgs(4 * DAY, CAP / 2n, 60 * DAY);
+
+        await time.increase(4 * DAY);
+        await expect(reserveVault.applySweepPolicy())
+          .to.be.revertedWithCustomError(reserveVault, "NoPendingSweepPolicy");
+      });
+    });
+  });
+
+  describe("attestReserve", function () {
+    it("should let anyone emit balance, required reserve and coverage", async function () {
+      await expect(reserveVault.connect(alice).attestReserve())
+        .to.emit(reserveVault, "ReserveAttested")
+        .withArgs(REQUIRED + EXCESS, REQUIRED, 12_000n, 100n);
+      expect(await reserveVault.lastAttestedAt()).to.equal(BigInt(await time.latest()));
+    });
+
+    it("should report an empty supply and under-coverage", async function () {
+      await shareToken.connect(alice).approve(await reserveVault.getAddress(), 100);
+      await reserveVault.connect(alice).redeem(100);
+      expect(await reserveVault.coverageBps()).to.equal(ethers.MaxUint256);
+
+      // 10,000 USDC left against 100 new shares at the 500 USDC floor
+      await shareToken.mint(alice.address, 100);
+      expect(await reserveVault.coverageBps()).to.equal(2_000n);
+    });
+  });
+});
@@ -4,7 +4,7 @@
  * Tests the complete SSF V1 flow:
  * - Buy shares: USDC splits 50% treasury / 50% reserve
  * - Redeem shares: Burn tokens, receive floor price (500 USDC)
- * - Sweep excess: Owner can withdraw above required reserve
+ * - Sweep excess: Owner can withdraw above required reserve after the sweep delay
  * - Rate limiting: Max redemptions per window
  */
 
@@ -194,7 +194,7 @@ describe("SSFReserveVault", function () {
       // Balance = 5000 USDC
       // Excess = 0
       
-      await expect(reserveVault.connect(owner).sweepExcess(1n))
+      await expect(reserveVault.connect(owner).proposeSweep(1n))
         .to.be.revertedWithCustomError(reserveVault, "ExceedsExcess");
     });
     
@@ -216,7 +216,9 @@ describe("SSFReserveVault", function () {
       expect(await reserveVault.excessReserveUSDC()).to.equal(ethers.parseUnits("1000", 6));
       
       const treasuryBefore = await usdc.balanceOf(await treasury.getAddress());
-      await reserveVault.connect(owner).sweepExcess(ethers.parseUnits("1000", 6));
+      await reserveVault.connect(owner).proposeSweep(ethers.parseUnits("1000", 6));
+      await time.increase(await reserveVault.sweepDelay());
+      await reserveVault.connect(owner).executeSweep();
       const treasuryAfter = await usdc.balanceOf(await treasury.getAddress());
       
       expect(treasuryAfter - treasuryBefore).to.equal(ethers.parseUnits("1000", 6));
@@ -335,7 +337,9 @@ describe("SSFReserveVault", function () {
       expect(await reserveVault.excessReserveUSDC())
         .to.equal(ethers.parseUnits("5000", 6));
       
-      await reserveVault.connect(owner).sweepExcess(ethers.parseUnits("5000", 6));
+      await reserveVault.connect(owner).proposeSweep(ethers.parseUnits("5000", 6));
+      await time.increase(await reserveVault.sweepDelay());
+      await reserveVault.connect(owner).executeSweep();
       
       // Reserve back to required minimum
       expect(await usdc.balanceOf(await reserveVault.getAddress()))
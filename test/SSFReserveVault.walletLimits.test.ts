@@ -0,0 +1,203 @@
+/**
+ * SSFReserveVault per-wallet limit tests
+ *
+ * Optional per-wallet shares per rate-limit window, and a minimum holding period
+ * measured from when the wallet's newest shares were minted (SSFShareToken.lastAcquiredAt),
+ * carried across transfers.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFReserveVault - per-wallet limits", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let shareSale: Contract;
+  let reserveVault: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let bobBoughtAt: number;
+
+  const MAX_REDEEM_PER_WINDOW = 100n;
+  const MAX_PER_WALLET = 30n;
+  const HOLDING_PERIOD = 30 * 24 * 60 * 60;
+  const WINDOW = 7 * 24 * 60 * 60;
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const SSFReserveVault = await ethers.getContractFactory("SSFReserveVault");
+    reserveVault = await SSFReserveVault.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      MAX_REDEEM_PER_WINDOW
+    );
+    const vaultAddress = await reserveVault.getAddress();
+
+    const saleStart = (await time.latest()) + 60;
+    const SSFShareSale = await ethers.getContractFactory("SSFShareSale");
+    shareSale = await SSFShareSale.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      vaultAddress,
+      treasury.address,
+      owner.address,
+      saleStart,
+      saleStart + 90 * 24 * 60 * 60
+    );
+    const saleAddress = await shareSale.getAddress();
+
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), saleAddress);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), vaultAddress);
+    await shareSale.setAllowlist([alice.address, bob.address], true);
+
+    for (const buyer of [alice, bob]) {
+      await usdc.mint(buyer.address, ethers.parseUnits("100000", 6));
+      await usdc.connect(buyer).approve(saleAddress, ethers.MaxUint256);
+      await shareToken.connect(buyer).approve(vaultAddress, ethers.MaxUint256);
+    }
+
+    await time.increaseTo(saleStart);
+    await shareSale.unpause();
+    await shareSale.connect(alice).buy(60n);
+    await shareSale.connect(bob).buy(20n);
+    bobBoughtAt = await time.latest();
+  });
+
+  describe("Configuration", function () {
+    it("should record acquisition times on the token", async function () {
+      expect(await shareToken.lastAcquiredAt(bob.address)).to.equal(BigInt(bobBoughtAt));
+    });
+
+    it("should only let the owner set limits", async function () {
+      await expect(reserveVault.connect(alice).setWalletLimits(MAX_PER_WALLET, HOLDING_PERIOD))
+        .to.be.revertedWithCustomError(reserveVault, "OwnableUnauthorizedAccount");
+    });
+
+    it("should emit WalletLimitsUpdated", async function () {
+      await expect(reserveVault.setWalletLimits(MAX_PER_WALLET, HOLDING_PERIOD))
+        .to.emit(reserveVault, "WalletLimitsUpdated")
+        .withArgs(MAX_PER_WALLET, HOLDING_PERIOD);
+    });
+
+    it("should leave redemptions unrestricted by default", async function () {
+      await reserveVault.connect(alice).redeem(60);
+      expect(await shareToken.balanceOf(alice.address)).to.equal(0n);
+    });
+  });
+
+  describe("Per-wallet window limit", function () {
+    beforeEach(async function () {
+      await reserveVault.setWalletLimits(MAX_PER_WALLET, 0);
+    });
+
+    it("should cap a single wallet below the global window", async function () {
+      await reserveVault.connect(alice).redeem(30);
+      await expect(reserveVault.connect(alice).redeem(1))
+        .to.be.revertedWithCustomError(reserveVault, "WalletRateLimitExceeded");
+
+      // Others still have room in the global window
+      await reserveVault.connect(bob).redeem(20);
+      expect(await reserveVault.redeemedThisWindow()).to.equal(50n);
+    });
+
+    it("should reset with the window", async function () {
+      await reserveVault.connect(alice).redeem(30);
+      await time.increase(WINDOW);
+
+      expect(await reserveVault.remainingWalletCapacity(alice.address)).to.equal(MAX_PER_WALLET);
+      await reserveVault.connect(alice).redeem(30);
+      expect(await shareToken.balanceOf(alice.address)).to.equal(0n);
+    });
+
+    it("should count queued requests and not refund capacity on cancel", async function () {
+      await reserveVault.connect(alice).requestRedeem(20);
+      await reserveVault.connect(alice).cancelRedeem(0);
+
+      await expect(reserveVault.connect(alice).requestRedeem(11))
+        .to.be.revertedWithCustomError(reserveVault, "WalletRateLimitExceeded");
+      expect(await reserveVault.remainingWalletCapacity(alice.address)).to.equal(10n);
+    });
+
+    it("should report the lesser of personal and global capacity", async function () {
+      expect(await reserveVault.remainingWalletCapacity(alice.address)).to.equal(MAX_PER_WALLET);
+
+      await reserveVault.setRateLimit(25, WINDOW);
+      expect(await reserveVault.remainingWalletCapacity(alice.address)).to.equal(25n);
+
+      await reserveVault.connect(bob).redeem(20);
+      expect(await reserveVault.remainingWalletCapacity(alice.address)).to.equal(5n);
+      expect(await reserveVault.remainingWalletCapacity(bob.address)).to.equal(5n);
+    });
+  });
+
+  describe("Holding period", function () {
+    beforeEach(async function () {
+      await reserveVault.setWalletLimits(0, HOLDING_PERIOD);
+    });
+
+    it("should block redemption until the holding period has passed", async function () {
+      const redeemableAt = (await shareToken.lastAcquiredAt(alice.address)) + BigInt(HOLDING_PERIOD);
+      expect(await reserveVault.holdingPeriodEnd(alice.address)).to.equal(redeemableAt);
+
+      await expect(reserveVault.connect(alice).redeem(1))
+        .to.be.revertedWithCustomError(reserveVault, "HoldingPeriodActive")
+        .withArgs(redeemableAt);
+      await expect(reserveVault.connect(alice).requestRedeem(1))
+        .to.be.revertedWithCustomError(reserveVault, "HoldingPeriodActive")
+        .withArgs(redeemableAt);
+
+      await time.increaseTo(redeemableAt);
+      await reserveVault.connect(alice).redeem(1);
+    });
+
+    it("should restart on a new purchase", async function () {
+      await time.increase(HOLDING_PERIOD);
+      await shareSale.connect(alice).buy(1n);
+
+      await expect(reserveVault.connect(alice).redeem(1))
+        .to.be.revertedWithCustomError(reserveVault, "HoldingPeriodActive");
+    });
+
+    it("should follow shares moved to a fresh wallet", async function () {
+      const redeemableAt = (await shareToken.lastAcquiredAt(bob.address)) + BigInt(HOLDING_PERIOD);
+      await shareToken.connect(bob).transfer(owner.address, 5);
+
+      expect(await reserveVault.holdingPeriodEnd(owner.address)).to.equal(redeemableAt);
+      await shareToken.approve(await reserveVault.getAddress(), 5);
+      await expect(reserveVault.redeem(5))
+        .to.be.revertedWithCustomError(reserveVault, "HoldingPeriodActive")
+        .withArgs(redeemableAt);
+
+      await time.increaseTo(redeemableAt);
+      await reserveVault.redeem(5);
+    });
+
+    it("should keep the later time when older shares arrive", async function () {
+      await time.increase(HOLDING_PERIOD);
+      await shareToken.connect(alice).transfer(bob.address, 5);
+
+      expect(await shareToken.lastAcquiredAt(bob.address)).to.equal(BigInt(bobBoughtAt));
+      await reserveVault.connect(bob).redeem(25);
+    });
+
+    it("should be lifted during wind-down", async function () {
+      await reserveVault.startWindDown();
+
+      expect(await reserveVault.holdingPeriodEnd(alice.address)).to.equal(0n);
+      await reserveVault.connect(alice).redeem(60);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * SSFReserveVault wind-down tests
+ *
+ * Simulates a reserve shortfall (reserve below requiredReserveUSDC()). Outside
+ * wind-down the first redeemers get the full floor and the last get nothing;
+ * after startWindDown() every share is paid reserve / totalSupply.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("SSFReserveVault - wind-down", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let reserveVault: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let carol: any;
+
+  const FLOOR_PRICE = ethers.parseUnits("500", 6);
+  const MAX_REDEEM_PER_WINDOW = 100n;
+  // 200 shares outstanding, reserve covers half: 250 USDC per share pro-rata
+  const RESERVE = 100n * FLOOR_PRICE;
+  const PRO_RATA = ethers.parseUnits("250", 6);
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob, carol] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const SSFReserveVault = await ethers.getContractFactory("SSFReserveVault");
+    reserveVault = await SSFReserveVault.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      MAX_REDEEM_PER_WINDOW
+    );
+    const vaultAddress = await reserveVault.getAddress();
+
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), owner.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), vaultAddress);
+    await shareToken.mint(alice.address, 100);
+    await shareToken.mint(bob.address, 60);
+    await shareToken.mint(carol.address, 40);
+
+    await usdc.mint(vaultAddress, RESERVE);
+  });
+
+  describe("Shortfall without wind-down", function () {
+    it("should pay early redeemers in full and leave late ones with nothing", async function () {
+      await reserveVault.setRateLimit(0, 7 * 24 * 60 * 60);
+      await reserveVault.connect(alice).redeem(100);
+      expect(await usdc.balanceOf(alice.address)).to.equal(100n * FLOOR_PRICE);
+
+      await expect(reserveVault.connect(bob).redeem(1))
+        .to.be.revertedWithCustomError(reserveVault, "InsufficientReserve");
+    });
+  });
+
+  describe("startWindDown", function () {
+    it("should only be callable by the owner, once", async function () {
+      await expect(reserveVault.connect(alice).startWindDown())
+        .to.be.revertedWithCustomError(reserveVault, "OwnableUnauthorizedAccount");
+
+      await expect(reserveVault.startWindDown())
+        .to.emit(reserveVault, "WindDownStarted")
+        .withArgs(RESERVE, 200n, 200n * FLOOR_PRICE);
+      expect(await reserveVault.windDown()).to.equal(true);
+
+      await expect(reserveVault.startWindDown())
+        .to.be.revertedWithCustomError(reserveVault, "WindDownActive");
+    });
+
+    it("should disable sweeps", async function () {
+      await reserveVault.startWindDown();
+      await expect(reserveVault.proposeSweep(1))
+        .to.be.revertedWithCustomError(reserveVault, "WindDownActive");
+    });
+  });
+
+  describe("Pro-rata redemptions", function () {
+    beforeEach(async function () {
+      await reserveVault.startWindDown();
+    });
+
+    it("should quote reserve / totalSupply per share", async function () {
+      expect(await reserveVault.redemptionPayout(1)).to.equal(PRO_RATA);
+      expect(await reserveVault.redemptionPayout(40)).to.equal(40n * PRO_RATA);
+    });
+
+    it("should pay every holder the same rate regardless of order", async function () {
+      await reserveVault.connect(alice).redeem(100);
+      await reserveVault.connect(bob).redeem(60);
+      await reserveVault.connect(carol).redeem(40);
+
+      expect(await usdc.balanceOf(alice.address)).to.equal(100n * PRO_RATA);
+      expect(await usdc.balanceOf(bob.address)).to.equal(60n * PRO_RATA);
+      expect(await usdc.balanceOf(carol.address)).to.equal(40n * PRO_RATA);
+      expect(await usdc.balanceOf(await reserveVault.getAddress())).to.equal(0n);
+      expect(await shareToken.totalSupply()).to.equal(0n);
+    });
+
+    it("should never pay out more than the reserve when the rate does not divide evenly", async function () {
+      // 1 extra USDC unit over 200 shares: payouts round down, last redeemer takes the rest
+      await usdc.mint(await reserveVault.getAddress(), 1n);
+
+      await reserveVault.connect(carol).redeem(40);
+      await reserveVault.connect(bob).redeem(60);
+      await reserveVault.connect(alice).redeem(100);
+
+      expect(await usdc.balanceOf(carol.address)).to.equal(40n * PRO_RATA);
+      expect(await usdc.balanceOf(bob.address)).to.equal(60n * PRO_RATA);
+      expect(await usdc.balanceOf(alice.address)).to.equal(100n * PRO_RATA + 1n);
+      expect(await usdc.balanceOf(await reserveVault.getAddress())).to.equal(0n);
+    });
+
+    it("should ignore the rate limit", async function () {
+      expect(await reserveVault.remainingRedeemCapacity()).to.equal(ethers.MaxUint256);
+      await shareToken.connect(bob).transfer(alice.address, 60);
+
+      await reserveVault.connect(alice).redeem(160);
+      expect(await usdc.balanceOf(alice.address)).to.equal(160n * PRO_RATA);
+    });
+
+    it("should pay queued requests pro-rata and let holders redeem around the queue", async function () {
+      await shareToken.connect(alice).approve(await reserveVault.getAddress(), 100);
+      await reserveVault.connect(alice).requestRedeem(100);
+
+      await reserveVault.connect(bob).redeem(60);
+      await expect(reserveVault.processQueue(1))
+        .to.emit(reserveVault, "RedeemRequestFilled")
+        .withArgs(0n, alice.address, 100n, 100n * PRO_RATA);
+
+      expect(await usdc.balanceOf(bob.address)).to.equal(60n * PRO_RATA);
+      expect(await usdc.balanceOf(await reserveVault.getAddress())).to.equal(40n * PRO_RATA);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * SSFReserveVaultV2 rolling rate limit tests
+ *
+ * The fixed window in v1 allows 2x maxRedeemPerWindow across a window boundary.
+ * V2 counts the current and previous RATE_LIMIT_SLOTS slots instead. The property
+ * test fuzzes redemption timings and sizes from fixed seeds and checks that:
+ *   - no interval of redeemWindowDuration seconds ever exceeds the cap
+ *   - a rejection only happens when the last window + one slot is actually full
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+
+/**
+ * Deterministic PRNG (mulberry32) so failures reproduce from the seed
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("SSFReserveVaultV2 - rolling rate limit", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let reserveVault: Contract;
+  let owner: any;
+  let treasury: any;
+  let holder: any;
+
+  const MAX_REDEEM_PER_WINDOW = 50n;
+  const WINDOW = 7 * 24 * 60 * 60;
+  const SLOT = WINDOW / 7;
+  const ISSUED = 10_000n;
+
+  beforeEach(async function () {
+    [owner, treasury, holder] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const SSFReserveVaultV2 = await ethers.getContractFactory("SSFReserveVaultV2");
+    reserveVault = await SSFReserveVaultV2.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      5_000,
+      MAX_REDEEM_PER_WINDOW
+    );
+    const vaultAddress = await reserveVault.getAddress();
+
+    // Owner stands in for the sale: 10,000 shares issued at 1,000 USDC, floor 500 USDC
+    await reserveVault.setShareSale(owner.address);
+    await reserveVault.recordIssuance(ISSUED, ISSUED * ethers.parseUnits("1000", 6));
+
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), owner.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), vaultAddress);
+    await shareToken.mint(holder.address, ISSUED);
+    await usdc.mint(vaultAddress, ISSUED * ethers.parseUnits("500", 6));
+  });
+
+  describe("Window boundary", function () {
+    it("should not allow 2x the cap across a window boundary", async function () {
+      await reserveVault.connect(holder).redeem(MAX_REDEEM_PER_WINDOW);
+
+      // A fixed window would reset here
+      await time.increase(WINDOW - 10);
+      await expect(reserveVault.connect(holder).redeem(1))
+        .to.be.revertedWithCustomError(reserveVault, "RateLimitExceeded");
+    });
+
+    it("should free capacity one window plus one slot later", async function () {
+      await reserveVault.connect(holder).redeem(MAX_REDEEM_PER_WINDOW);
+      expect(await reserveVault.remainingRedeemCapacity()).to.equal(0n);
+
+      await time.increase(WINDOW + SLOT);
+      expect(await reserveVault.remainingRedeemCapacity()).to.equal(MAX_REDEEM_PER_WINDOW);
+      await reserveVault.connect(holder).redeem(MAX_REDEEM_PER_WINDOW);
+    });
+
+    it("should release older slots while newer ones still count", async function () {
+      await reserveVault.connect(holder).redeem(20);
+      await time.increase(3 * SLOT);
+      await reserveVault.connect(holder).redeem(30);
+
+      await time.increase(WINDOW - 2 * SLOT);
+      expect(await reserveVault.redeemedThisWindow()).to.equal(30n);
+      expect(await reserveVault.remainingRedeemCapacity()).to.equal(20n);
+    });
+  });
+
+  describe("Configuration", function () {
+    it("should report slot length and reject a zero window", async function () {
+      expect(await reserveVault.rateLimitSlotLength()).to.equal(BigInt(SLOT));
+
+      await reserveVault.setRateLimit(MAX_REDEEM_PER_WINDOW, 10);
+      expect(await reserveVault.rateLimitSlotLength()).to.equal(2n); // ceil(10 / 7)
+
+      await expect(reserveVault.setRateLimit(MAX_REDEEM_PER_WINDOW, 0))
+        .to.be.revertedWithCustomError(reserveVault, "InvalidWindowDuration");
+    });
+
+    it("should clear history on reconfiguration", async function () {
+      await reserveVault.connect(holder).redeem(MAX_REDEEM_PER_WINDOW);
+      await reserveVault.setRateLimit(MAX_REDEEM_PER_WINDOW, WINDOW);
+      expect(await reserveVault.redeemedThisWindow()).to.equal(0n);
+    });
+  });
+
+  describe("Property: no rolling interval exceeds the cap", function () {
+    const SEEDS = [1, 7, 42, 1337, 20260301];
+    const STEPS = 40;
+
+    for (const seed of SEEDS) {
+      it(`should hold for seed ${seed}`, async function () {
+        const rand = mulberry32(seed);
+        const randInt = (min: number, max: number) => min + Math.floor(rand() * (max - min + 1));
+
+        const accepted: { t: number; shares: bigint }[] = [];
+        let now = await time.latest();
+
+        for (let step = 0; step < STEPS; step++) {
+          // Mix of bursts, in-slot gaps, multi-slot gaps and hits right around slot boundaries
+          const kind = rand();
+          let next: number;
+          if (kind < 0.3) {
+            next = now + randInt(1, 60);
+          } else if (kind < 0.6) {
+            next = now + randInt(1, SLOT);
+          } else if (kind < 0.85) {
+            next = now + randInt(SLOT, WINDOW + SLOT);
+          } else {
+            const boundary = (Math.floor(now / SLOT) + randInt(1, 7)) * SLOT;
+            next = Math.max(now + 1, boundary + randInt(-2, 2));
+          }
+          now = next;
+          const shares = BigInt(randInt(1, Number(MAX_REDEEM_PER_WINDOW)));
+
+          await time.setNextBlockTimestamp(now);
+          try {
+            await reserveVault.connect(holder).redeem(shares);
+            accepted.push({ t: now, shares });
+          } catch (error: any) {
+            expect(error.message).to.contain("RateLimitExceeded");
+            await mine();
+
+            // Rejections must be justified by the last window + one slot
+            const recent = accepted
+              .filter((r) => r.t > now - WINDOW - SLOT)
+              .reduce((sum, r) => sum + r.shares, 0n);
+            expect(recent + shares, `seed ${seed} step ${step}: rejected with room`).to.be.greaterThan(
+              MAX_REDEEM_PER_WINDOW
+            );
+          }
+        }
+
+        expect(accepted.length, `seed ${seed}: nothing redeemed`).to.be.greaterThan(0);
+
+        // Every rolling interval of WINDOW seconds peaks at an accepted redemption
+        for (const end of accepted) {
+          const inWindow = accepted
+            .filter((r) => r.t > end.t - WINDOW && r.t <= end.t)
+            .reduce((sum, r) => sum + r.shares, 0n);
+          expect(inWindow, `seed ${seed}: window ending ${end.t}`).to.be.at.most(MAX_REDEEM_PER_WINDOW);
+        }
+      });
+    }
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * SSFReserveVaultV2 timelocked sweep and attestation tests
+ *
+ * Same flow as SSFReserveVault v1: proposeSweep() announces a withdrawal of
+ * excess reserve, executeSweep() pays it to treasury after sweepDelay within
+ * maxSweepPerPeriod, and loosening that policy waits out the current delay.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFReserveVaultV2 - timelocked sweep", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let reserveVault: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+
+  const DAY = 24 * 60 * 60;
+  // 100 shares issued at 1,000 USDC with a 50% floor, 10,000 USDC above it
+  const ISSUED = 100n;
+  const REQUIRED = ISSUED * ethers.parseUnits("500", 6);
+  const EXCESS = ethers.parseUnits("10000", 6);
+
+  beforeEach(async function () {
+    [owner, treasury, alice] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const SSFReserveVaultV2 = await ethers.getContractFactory("SSFReserveVaultV2");
+    reserveVault = await SSFReserveVaultV2.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      5_000,
+      0
+    );
+    const vaultAddress = await reserveVault.getAddress();
+
+    // Owner stands in for the sale
+    await reserveVault.setShareSale(owner.address);
+    await reserveVault.recordIssuance(ISSUED, ISSUED * ethers.parseUnits("1000", 6));
+
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), owner.address);
+    await shareToken.mint(alice.address, ISSUED);
+    await usdc.mint(vaultAddress, REQUIRED + EXCESS);
+  });
+
+  describe("Sweep", function () {
+    it("should pay treasury only after the delay", async function () {
+      const executableAt = (await time.latest()) + 1 + 2 * DAY;
+      await time.setNextBlockTimestamp(executableAt - 2 * DAY);
+
+      await expect(reserveVault.proposeSweep(EXCESS))
+        .to.emit(reserveVault, "SweepProposed")
+        .withArgs(EXCESS, executableAt);
+
+      await time.increaseTo(executableAt - 2);
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "SweepNotReady")
+        .withArgs(executableAt);
+
+      await time.increaseTo(executableAt);
+      await expect(reserveVault.executeSweep())
+        .to.emit(reserveVault, "ExcessSwept")
+        .withArgs(treasury.address, EXCESS)
+        .and.to.emit(reserveVault, "ReserveAttested")
+        .withArgs(REQUIRED, REQUIRED, 10_000n, ISSUED);
+
+      expect(await usdc.balanceOf(treasury.address)).to.equal(EXCESS);
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "NoPendingSweep");
+    });
+
+    it("should re-check excess at execution", async function () {
+      await reserveVault.proposeSweep(EXCESS);
+      await shareToken.mint(alice.address, 1);
+      await time.increase(2 * DAY);
+
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "ExceedsExcess");
+    });
+
+    it("should reject above-excess proposals and let the owner cancel", async function () {
+      await expect(reserveVault.proposeSweep(EXCESS + 1n))
+        .to.be.revertedWithCustomError(reserveVault, "ExceedsExcess");
+
+      await reserveVault.proposeSweep(EXCESS);
+      await expect(reserveVault.connect(alice).cancelSweep())
+        .to.be.revertedWithCustomError(reserveVault, "OwnableUnauthorizedAccount");
+      await expect(reserveVault.cancelSweep())
+        .to.emit(reserveVault, "SweepCancelled")
+        .withArgs(EXCESS);
+    });
+
+    it("should cap executed sweeps per period", async function () {
+      const cap = ethers.parseUnits("4000", 6);
+      await reserveVault.setSweepPolicy(2 * DAY, cap, 30 * DAY);
+
+      await reserveVault.proposeSweep(cap);
+      await time.increase(2 * DAY);
+      await reserveVault.executeSweep();
+      expect(await reserveVault.remainingSweepCap()).to.equal(0n);
+
+      await reserveVault.proposeSweep(1);
+      await time.increase(2 * DAY);
+      await expect(reserveVault.executeSweep())
+        .to.be.revertedWithCustomError(reserveVault, "ExceedsSweepCap");
+    });
+  });
+
+  describe("setSweepPolicy", function () {
+    it("should queue loosening behind the current delay", async function () {
+      const effectiveAt = (await time.latest()) + 1 + 2 * DAY;
+      await time.setNextBlockTimestamp(effectiveAt - 2 * DAY);
+
+      await expect(reserveVault.setSweepPolicy(DAY, 0, 30 * DAY))
+        .to.emit(reserveVault, "SweepPolicyProposed")
+        .withArgs(DAY, 0n, 30 * DAY, effectiveAt);
+      expect(await reserveVault.sweepDelay()).to.equal(BigInt(2 * DAY));
+
+      await expect(reserveVault.applySweepPolicy())
+        .to.be.revertedWithCustomError(reserveVault, "SweepPolicyNotReady")
+        .withArgs(effectiveAt);
+
+      await time.increaseTo(effectiveAt);
+      await expect(reserveVault.applySweepPolicy())
+        .to.emit(reserveVault, "SweepPolicyUpdated")
+        .withArgs(DAY, 0n, 30 * DAY);
+      expect(await reserveVault.sweepDelay()).to.equal(BigInt(DAY));
+    });
+
+    it("should apply tightening immediately", async function () {
+      await expect(reserveVault.setSweepPolicy(3 * DAY, 5n, 7 * DAY))
+        .to.emit(reserveVault, "SweepPolicyUpdated")
+        .withArgs(3 * DAY, 5n, 7 * DAY);
+      await expect(reserveVault.applySweepPolicy())
+        .to.be.revertedWithCustomError(reserveVault, "NoPendingSweepPolicy");
+    });
+
+    it("should enforce the minimum delay and owner access", async function () {
+      await expect(reserveVault.setSweepPolicy(DAY - 1, 0, 30 * DAY))
+        .to.be.revertedWithCustomError(reserveVault, "InvalidSweepPolicy");
+      await expect(reserveVault.connect(alice).setSweepPolicy(3 * DAY, 0, DAY))
+        .to.be.revertedWithCustomError(reserveVault, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("attestReserve", function () {
+    it("should let anyone emit balance, required reserve and coverage", async function () {
+      await expect(reserveVault.connect(alice).attestReserve())
+        .to.emit(reserveVault, "ReserveAttested")
+        .withArgs(REQUIRED + EXCESS, REQUIRED, 12_000n, ISSUED);
+      expect(await reserveVault.lastAttestedAt()).to.equal(BigInt(await time.latest()));
+    });
+  });
+});
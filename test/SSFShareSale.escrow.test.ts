@@ -0,0 +1,265 @@
+/**
+ * SSFShareSale escrow / soft cap tests
+ *
+ * With a soft cap set, USDC stays in the sale until saleEnd. A raise that meets
+ * the cap is released by finalizeSale(); one that misses it is unwound by refund().
+ * Escrowed shares are locked in the buyer's wallet and the sale window is frozen
+ * until then.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFShareSale - escrow and soft cap", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let shareSale: Contract;
+  let owner: any;
+  let treasury: any;
+  let reserve: any;
+  let alice: any;
+  let bob: any;
+  let saleEnd: number;
+
+  const PRICE_PER_SHARE = ethers.parseUnits("1000", 6);
+  const SOFT_CAP = 10n;
+
+  beforeEach(async function () {
+    [owner, treasury, reserve, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const saleStart = (await time.latest()) + 60;
+    saleEnd = saleStart + 30 * 24 * 60 * 60;
+    const SSFShareSale = await ethers.getContractFactory("SSFShareSale");
+    shareSale = await SSFShareSale.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      reserve.address,
+      treasury.address,
+      owner.address,
+      saleStart,
+      saleEnd
+    );
+    const saleAddress = await shareSale.getAddress();
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), saleAddress);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), saleAddress);
+    await shareToken.setTransferLock(saleAddress);
+    await shareSale.setAllowlist([alice.address, bob.address], true);
+    await shareSale.setSoftCap(SOFT_CAP);
+
+    for (const buyer of [alice, bob]) {
+      await usdc.mint(buyer.address, ethers.parseUnits("100000", 6));
+      await usdc.connect(buyer).approve(saleAddress, ethers.MaxUint256);
+    }
+
+    await time.increaseTo(saleStart);
+    await shareSale.unpause();
+  });
+
+  describe("Configuration", function () {
+    it("should reject a soft cap above MAX_SHARES", async function () {
+      const SSFShareSale = await ethers.getContractFactory("SSFShareSale");
+      const start = (await time.latest()) + 60;
+      const fresh = await SSFShareSale.deploy(
+        await usdc.getAddress(),
+        await shareToken.getAddress(),
+        reserve.address,
+        treasury.address,
+        owner.address,
+        start,
+        start + 1000
+      );
+      await expect(fresh.setSoftCap(20_001n)).to.be.revertedWithCustomError(fresh, "InvalidSoftCap");
+      await expect(fresh.setSoftCap(20_000n)).to.emit(fresh, "SoftCapUpdated").withArgs(20_000n);
+    });
+
+    it("should lock the soft cap after the first purchase", async function () {
+      await shareSale.connect(alice).buy(1n);
+      await expect(shareSale.setSoftCap(0n)).to.be.revertedWithCustomError(shareSale, "SoftCapLocked");
+    });
+
+    it("should freeze the sale window once escrowed shares are sold", async function () {
+      const start = await time.latest();
+      await shareSale.setSaleWindow(start, saleEnd + 60);
+
+      await shareSale.connect(alice).buy(1n);
+      await expect(shareSale.setSaleWindow(start, saleEnd + 3600))
+        .to.be.revertedWithCustomError(shareSale, "SaleWindowLocked");
+      await expect(shareSale.setSaleWindow(start, saleEnd))
+        .to.be.revertedWithCustomError(shareSale, "SaleWindowLocked");
+    });
+  });
+
+  describe("Escrowed purchases", function () {
+    it("should hold USDC in the sale instead of splitting it", async function () {
+      await shareSale.connect(alice).buy(4n);
+
+      const cost = 4n * PRICE_PER_SHARE;
+      expect(await usdc.balanceOf(await shareSale.getAddress())).to.equal(cost);
+      expect(await usdc.balanceOf(treasury.address)).to.equal(0n);
+      expect(await usdc.balanceOf(reserve.address)).to.equal(0n);
+      expect(await shareSale.escrowedUsdc()).to.equal(cost);
+      expect(await shareSale.escrowedUsdcOf(alice.address)).to.equal(cost);
+      expect(await shareToken.balanceOf(alice.address)).to.equal(4n);
+    });
+  });
+
+  describe("Soft cap met", function () {
+    beforeEach(async function () {
+      await shareSale.connect(alice).buy(6n);
+      await shareSale.connect(bob).buy(4n);
+    });
+
+    it("should not finalize before saleEnd", async function () {
+      await expect(shareSale.finalizeSale()).to.be.revertedWithCustomError(shareSale, "SaleNotEnded");
+    });
+
+    it("should split escrow between treasury and reserve on finalize", async function () {
+      await time.increaseTo(saleEnd + 1);
+
+      const total = SOFT_CAP * PRICE_PER_SHARE;
+      await expect(shareSale.connect(bob).finalizeSale())
+        .to.emit(shareSale, "SaleFinalized")
+        .withArgs(SOFT_CAP, total / 2n, total / 2n);
+
+      expect(await usdc.balanceOf(treasury.address)).to.equal(total / 2n);
+      expect(await usdc.balanceOf(reserve.address)).to.equal(total / 2n);
+      expect(await usdc.balanceOf(await shareSale.getAddress())).to.equal(0n);
+      expect(await shareSale.escrowedUsdc()).to.equal(0n);
+      expect(await shareSale.saleFinalized()).to.equal(true);
+    });
+
+    it("should finalize only once and block refunds", async function () {
+      await time.increaseTo(saleEnd + 1);
+      await shareSale.finalizeSale();
+
+      await expect(shareSale.finalizeSale()).to.be.revertedWithCustomError(shareSale, "SaleAlreadyFinalized");
+      await expect(shareSale.connect(alice).refund()).to.be.revertedWithCustomError(shareSale, "SoftCapMet");
+    });
+
+    it("should lock purchased shares until finalize", async function () {
+      await expect(shareToken.connect(alice).transfer(bob.address, 1n))
+        .to.be.revertedWithCustomError(shareToken, "SharesLocked")
+        .withArgs(alice.address, 6n);
+
+      await time.increaseTo(saleEnd + 1);
+      await shareSale.finalizeSale();
+      expect(await shareSale.lockedBalanceOf(alice.address)).to.equal(0n);
+      await shareToken.connect(alice).transfer(bob.address, 1n);
+      expect(await shareToken.balanceOf(bob.address)).to.equal(5n);
+    });
+
+    it("should not reopen a finalized sale", async function () {
+      await time.increaseTo(saleEnd + 1);
+      await shareSale.finalizeSale();
+
+      const now = await time.latest();
+      await expect(shareSale.setSaleWindow(now, now + 3600))
+        .to.be.revertedWithCustomError(shareSale, "SaleAlreadyFinalized");
+      expect(await shareSale.isSaleActive()).to.equal(false);
+    });
+  });
+
+  describe("Soft cap missed", function () {
+    beforeEach(async function () {
+      await shareSale.connect(alice).buy(3n);
+      await shareSale.connect(bob).buy(2n);
+    });
+
+    it("should not refund before saleEnd", async function () {
+      await expect(shareSale.connect(alice).refund()).to.be.revertedWithCustomError(shareSale, "SaleNotEnded");
+    });
+
+    it("should not finalize", async function () {
+      await time.increaseTo(saleEnd + 1);
+      await expect(shareSale.finalizeSale()).to.be.revertedWithCustomError(shareSale, "SoftCapNotMet");
+    });
+
+    it("should burn shares and return USDC on refund", async function () {
+      await time.increaseTo(saleEnd + 1);
+      const before = await usdc.balanceOf(alice.address);
+      const cost = 3n * PRICE_PER_SHARE;
+
+      await expect(shareSale.connect(alice).refund())
+        .to.emit(shareSale, "Refunded")
+        .withArgs(alice.address, 3n, cost);
+
+      expect(await usdc.balanceOf(alice.address)).to.equal(before + cost);
+      expect(await shareToken.balanceOf(alice.address)).to.equal(0n);
+      expect(await shareSale.purchasedShares(alice.address)).to.equal(0n);
+      expect(await shareSale.sharesSold()).to.equal(2n);
+      expect(await shareSale.escrowedUsdc()).to.equal(2n * PRICE_PER_SHARE);
+    });
+
+    it("should refund each buyer once", async function () {
+      await time.increaseTo(saleEnd + 1);
+      await shareSale.connect(alice).refund();
+      await shareSale.connect(bob).refund();
+
+      await expect(shareSale.connect(alice).refund()).to.be.revertedWithCustomError(shareSale, "NothingToRefund");
+      expect(await usdc.balanceOf(await shareSale.getAddress())).to.equal(0n);
+      expect(await shareToken.totalSupply()).to.equal(0n);
+    });
+
+    it("should keep shares in the buyer's wallet so refund still works", async function () {
+      await expect(shareToken.connect(alice).transfer(bob.address, 1n))
+        .to.be.revertedWithCustomError(shareToken, "SharesLocked");
+
+      await time.increaseTo(saleEnd + 1);
+      await expect(shareToken.connect(alice).transfer(bob.address, 1n))
+        .to.be.revertedWithCustomError(shareToken, "SharesLocked");
+
+      await shareSale.connect(alice).refund();
+      expect(await shareToken.balanceOf(alice.address)).to.equal(0n);
+      expect(await shareToken.balanceOf(bob.address)).to.equal(2n);
+    });
+
+    it("should only lock the escrowed purchase", async function () {
+      // Shares from elsewhere move freely
+      await shareToken.grantRole(await shareToken.MINTER_ROLE(), owner.address);
+      await shareToken.mint(alice.address, 2n);
+
+      await shareToken.connect(alice).transfer(bob.address, 2n);
+      await expect(shareToken.connect(alice).transfer(bob.address, 1n))
+        .to.be.revertedWithCustomError(shareToken, "SharesLocked")
+        .withArgs(alice.address, 3n);
+    });
+  });
+
+  describe("Without a soft cap", function () {
+    it("should keep the immediate split and disable finalize / refund", async function () {
+      const SSFShareSale = await ethers.getContractFactory("SSFShareSale");
+      const start = (await time.latest()) + 60;
+      const legacy = await SSFShareSale.deploy(
+        await usdc.getAddress(),
+        await shareToken.getAddress(),
+        reserve.address,
+        treasury.address,
+        owner.address,
+        start,
+        start + 1000
+      );
+      const legacyAddress = await legacy.getAddress();
+      await shareToken.grantRole(await shareToken.MINTER_ROLE(), legacyAddress);
+      await legacy.setAllowlist([alice.address], true);
+      await usdc.connect(alice).approve(legacyAddress, ethers.MaxUint256);
+      await time.increaseTo(start);
+      await legacy.unpause();
+
+      await legacy.connect(alice).buy(2n);
+      expect(await usdc.balanceOf(treasury.address)).to.equal(PRICE_PER_SHARE);
+      expect(await usdc.balanceOf(reserve.address)).to.equal(PRICE_PER_SHARE);
+
+      await time.increaseTo(start + 1001);
+      await expect(legacy.finalizeSale()).to.be.revertedWithCustomError(legacy, "NotEscrowed");
+      await expect(legacy.connect(alice).refund()).to.be.revertedWithCustomError(legacy, "NotEscrowed");
+    });
+  });
+});
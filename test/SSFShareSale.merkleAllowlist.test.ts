@@ -0,0 +1,135 @@
+/**
+ * SSFShareSale Merkle allowlist tests
+ *
+ * Raises with thousands of accredited investors publish a root of
+ * (investor, maxShares) leaves instead of storing every address on-chain.
+ * Leaves match StandardMerkleTree(["address", "uint256"]), the encoding
+ * scripts/build-sale-allowlist.ts produces.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+
+describe("SSFShareSale - Merkle allowlist", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let shareSale: Contract;
+  let owner: any;
+  let treasury: any;
+  let reserve: any;
+  let alice: any;
+  let bob: any;
+  let mallory: any;
+
+  let tree: StandardMerkleTree<[string, bigint]>;
+
+  const ALICE_CAP = 25n;
+  const BOB_CAP = 1_500n; // Above MAX_SHARES_PER_WALLET, contract cap still applies
+  const INVESTOR_COUNT = 2_000;
+
+  function proofFor(investor: string): string[] {
+    for (const [i, [addr]] of tree.entries()) {
+      if (addr === investor) return tree.getProof(i);
+    }
+    throw new Error(`No leaf for ${investor}`);
+  }
+
+  before(async function () {
+    [owner, treasury, reserve, alice, bob, mallory] = await ethers.getSigners();
+
+    // Realistic raise size: 2,000 investors including the test wallets
+    const leaves: [string, bigint][] = [
+      [alice.address, ALICE_CAP],
+      [bob.address, BOB_CAP],
+    ];
+    for (let i = 1; leaves.length < INVESTOR_COUNT; i++) {
+      leaves.push([ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(i), 20)), 100n]);
+    }
+    tree = StandardMerkleTree.of(leaves, ["address", "uint256"]);
+  });
+
+  beforeEach(async function () {
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const now = await time.latest();
+    const saleStart = now + 60;
+    const SSFShareSale = await ethers.getContractFactory("SSFShareSale");
+    shareSale = await SSFShareSale.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      reserve.address,
+      treasury.address,
+      owner.address,
+      saleStart,
+      saleStart + 90 * 24 * 60 * 60
+    );
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), await shareSale.getAddress());
+    await shareSale.setAllowlistRoot(tree.root);
+
+    for (const buyer of [alice, bob, mallory]) {
+      await usdc.mint(buyer.address, ethers.parseUnits("2000000", 6));
+      await usdc.connect(buyer).approve(await shareSale.getAddress(), ethers.MaxUint256);
+    }
+
+    await time.increaseTo(saleStart);
+    await shareSale.unpause();
+  });
+
+  it("should let a leaf investor buy with a proof", async function () {
+    await expect(shareSale.connect(alice).buy(10n, ALICE_CAP, proofFor(alice.address)))
+      .to.emit(shareSale, "Purchased")
+      .withArgs(alice.address, 10n, ethers.parseUnits("10000", 6));
+
+    expect(await shareToken.balanceOf(alice.address)).to.equal(10n);
+    expect(await shareSale.allowlistCount()).to.equal(0n);
+  });
+
+  it("should enforce the per-leaf cap across purchases", async function () {
+    await shareSale.connect(alice).buy(20n, ALICE_CAP, proofFor(alice.address));
+
+    await expect(shareSale.connect(alice).buy(6n, ALICE_CAP, proofFor(alice.address)))
+      .to.be.revertedWithCustomError(shareSale, "WalletCapExceeded");
+    await shareSale.connect(alice).buy(5n, ALICE_CAP, proofFor(alice.address));
+  });
+
+  it("should still apply the contract per-wallet cap", async function () {
+    await expect(shareSale.connect(bob).buy(1_001n, BOB_CAP, proofFor(bob.address)))
+      .to.be.revertedWithCustomError(shareSale, "WalletCapExceeded");
+  });
+
+  it("should reject an inflated cap or another investor's proof", async function () {
+    await expect(shareSale.connect(alice).buy(30n, 100n, proofFor(alice.address)))
+      .to.be.revertedWithCustomError(shareSale, "InvalidProof");
+    await expect(shareSale.connect(mallory).buy(1n, ALICE_CAP, proofFor(alice.address)))
+      .to.be.revertedWithCustomError(shareSale, "InvalidProof");
+  });
+
+  it("should reject Merkle purchases when no root is set", async function () {
+    await expect(shareSale.setAllowlistRoot(ethers.ZeroHash))
+      .to.emit(shareSale, "AllowlistRootUpdated")
+      .withArgs(tree.root, ethers.ZeroHash);
+
+    await expect(shareSale.connect(alice).buy(1n, ALICE_CAP, proofFor(alice.address)))
+      .to.be.revertedWithCustomError(shareSale, "NotAllowlisted");
+  });
+
+  it("should keep the on-chain allowlist working alongside the root", async function () {
+    await shareSale.setAllowlist([mallory.address], true);
+
+    await shareSale.connect(mallory).buy(3n);
+    expect(await shareToken.balanceOf(mallory.address)).to.equal(3n);
+  });
+
+  it("should only let the owner set the root", async function () {
+    await expect(shareSale.connect(alice).setAllowlistRoot(ethers.ZeroHash))
+      .to.be.revertedWithCustomError(shareSale, "OwnableUnauthorizedAccount");
+  });
+});
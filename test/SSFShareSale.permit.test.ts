@@ -0,0 +1,134 @@
+/**
+ * SSFShareSale permit purchase tests
+ *
+ * USDC on Base supports EIP-2612, so allowlisted buyers can sign a permit
+ * and buy in one transaction via buyWithPermit(). Uses MockUSDCPermit.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signature } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFShareSale - permit purchases", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let shareSale: Contract;
+  let owner: any;
+  let treasury: any;
+  let reserve: any;
+  let alice: any;
+  let mallory: any;
+
+  const PRICE_PER_SHARE = ethers.parseUnits("1000", 6);
+
+  async function signPermit(holder: any, value: bigint, deadline: bigint): Promise<Signature> {
+    const domain = {
+      name: await usdc.name(),
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await usdc.getAddress(),
+    };
+    const types = {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+    const message = {
+      owner: holder.address,
+      spender: await shareSale.getAddress(),
+      value,
+      nonce: await usdc.nonces(holder.address),
+      deadline,
+    };
+    return Signature.from(await holder.signTypedData(domain, types, message));
+  }
+
+  beforeEach(async function () {
+    [owner, treasury, reserve, alice, mallory] = await ethers.getSigners();
+
+    const MockUSDCPermit = await ethers.getContractFactory("MockUSDCPermit");
+    usdc = await MockUSDCPermit.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const saleStart = (await time.latest()) + 60;
+    const SSFShareSale = await ethers.getContractFactory("SSFShareSale");
+    shareSale = await SSFShareSale.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      reserve.address,
+      treasury.address,
+      owner.address,
+      saleStart,
+      saleStart + 90 * 24 * 60 * 60
+    );
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), await shareSale.getAddress());
+    await shareSale.setAllowlist([alice.address], true);
+
+    await usdc.mint(alice.address, ethers.parseUnits("100000", 6));
+    await usdc.mint(mallory.address, ethers.parseUnits("100000", 6));
+
+    await time.increaseTo(saleStart);
+    await shareSale.unpause();
+  });
+
+  it("should buy in a single transaction without prior approval", async function () {
+    const shares = 3n;
+    const cost = shares * PRICE_PER_SHARE;
+    const deadline = BigInt(await time.latest()) + 600n;
+    const sig = await signPermit(alice, cost, deadline);
+
+    await expect(shareSale.connect(alice).buyWithPermit(shares, deadline, sig.v, sig.r, sig.s))
+      .to.emit(shareSale, "Purchased")
+      .withArgs(alice.address, shares, cost);
+
+    expect(await shareToken.balanceOf(alice.address)).to.equal(shares);
+    expect(await usdc.balanceOf(treasury.address)).to.equal(cost / 2n);
+    expect(await usdc.balanceOf(reserve.address)).to.equal(cost / 2n);
+    expect(await usdc.allowance(alice.address, await shareSale.getAddress())).to.equal(0n);
+  });
+
+  it("should still succeed when the permit was front-run", async function () {
+    const cost = PRICE_PER_SHARE;
+    const deadline = BigInt(await time.latest()) + 600n;
+    const sig = await signPermit(alice, cost, deadline);
+
+    // Anyone can submit the permit first, consuming the nonce
+    await usdc.connect(mallory).permit(alice.address, await shareSale.getAddress(), cost, deadline, sig.v, sig.r, sig.s);
+
+    await shareSale.connect(alice).buyWithPermit(1n, deadline, sig.v, sig.r, sig.s);
+    expect(await shareToken.balanceOf(alice.address)).to.equal(1n);
+  });
+
+  it("should revert when the permit is invalid and there is no allowance", async function () {
+    const deadline = BigInt(await time.latest()) + 600n;
+    const sig = await signPermit(alice, PRICE_PER_SHARE, deadline);
+
+    // Permit covers 1 share, purchase asks for 2
+    await expect(shareSale.connect(alice).buyWithPermit(2n, deadline, sig.v, sig.r, sig.s))
+      .to.be.revertedWithCustomError(usdc, "ERC20InsufficientAllowance");
+  });
+
+  it("should revert on an expired permit", async function () {
+    const deadline = BigInt(await time.latest()) + 600n;
+    const sig = await signPermit(alice, PRICE_PER_SHARE, deadline);
+    await time.increaseTo(deadline + 1n);
+
+    await expect(shareSale.connect(alice).buyWithPermit(1n, deadline, sig.v, sig.r, sig.s))
+      .to.be.revertedWithCustomError(usdc, "ERC20InsufficientAllowance");
+  });
+
+  it("should require the allowlist", async function () {
+    const deadline = BigInt(await time.latest()) + 600n;
+    const sig = await signPermit(mallory, PRICE_PER_SHARE, deadline);
+
+    await expect(shareSale.connect(mallory).buyWithPermit(1n, deadline, sig.v, sig.r, sig.s))
+      .to.be.revertedWithCustomError(shareSale, "NotAllowlisted");
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * SSFShareSale signed voucher tests
+ *
+ * Compliance signs PurchaseVoucher(buyer, maxShares, expiry, nonce) with a
+ * rotatable key; buyers redeem it through buyWithVoucher(). Vouchers are
+ * produced by scripts/lib/purchase-voucher.ts, which is also checked against
+ * the fixed vectors in test/fixtures/purchase-vouchers.json.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, TypedDataDomain } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  PurchaseVoucher,
+  hashPurchaseVoucher,
+  recoverVoucherSigner,
+  signPurchaseVoucher,
+  verifyPurchaseVoucher,
+  voucherDomain,
+} from "../scripts/lib/purchase-voucher";
+import vectors from "./fixtures/purchase-vouchers.json";
+
+describe("SSFShareSale - signed vouchers", function () {
+  describe("voucher module test vectors", function () {
+    const domain = vectors.domain as TypedDataDomain;
+    const toVoucher = (v: (typeof vectors.vectors)[number]["voucher"]): PurchaseVoucher => ({
+      buyer: v.buyer,
+      maxShares: BigInt(v.maxShares),
+      expiry: BigInt(v.expiry),
+      nonce: BigInt(v.nonce),
+    });
+
+    for (const [i, vector] of vectors.vectors.entries()) {
+      it(`should reproduce vector ${i}`, async function () {
+        const voucher = toVoucher(vector.voucher);
+        const wallet = new ethers.Wallet(vectors.signerPrivateKey);
+
+        expect(hashPurchaseVoucher(domain, voucher)).to.equal(vector.digest);
+        expect(await signPurchaseVoucher(wallet, domain, voucher)).to.equal(vector.signature);
+        expect(recoverVoucherSigner(domain, voucher, vector.signature)).to.equal(vectors.signer);
+        expect(verifyPurchaseVoucher(domain, voucher, vector.signature, vectors.signer, 0n)).to.equal(true);
+      });
+    }
+
+    it("should reject tampered, expired and foreign-signer vouchers", async function () {
+      const vector = vectors.vectors[0];
+      const voucher = toVoucher(vector.voucher);
+
+      expect(verifyPurchaseVoucher(domain, { ...voucher, maxShares: 26n }, vector.signature, vectors.signer, 0n))
+        .to.equal(false);
+      expect(verifyPurchaseVoucher(domain, voucher, vector.signature, vectors.signer, voucher.expiry + 1n))
+        .to.equal(false);
+      expect(verifyPurchaseVoucher(domain, voucher, vector.signature, ethers.ZeroAddress, 0n)).to.equal(false);
+      expect(verifyPurchaseVoucher({ ...domain, chainId: 8453 }, voucher, vector.signature, vectors.signer, 0n))
+        .to.equal(false);
+    });
+  });
+
+  describe("buyWithVoucher", function () {
+    let usdc: Contract;
+    let shareToken: Contract;
+    let shareSale: Contract;
+    let owner: any;
+    let treasury: any;
+    let reserve: any;
+    let compliance: any;
+    let alice: any;
+    let mallory: any;
+    let domain: TypedDataDomain;
+
+    async function issue(overrides: Partial<PurchaseVoucher> = {}, signer: any = compliance) {
+      const voucher: PurchaseVoucher = {
+        buyer: alice.address,
+        maxShares: 50n,
+        expiry: BigInt(await time.latest()) + 3600n,
+        nonce: 1n,
+        ...overrides,
+      };
+      return { voucher, signature: await signPurchaseVoucher(signer, domain, voucher) };
+    }
+
+    beforeEach(async function () {
+      [owner, treasury, reserve, compliance, alice, mallory] = await ethers.getSigners();
+
+      const MockUSDC = await ethers.getContractFactory("MockUSDC");
+      usdc = await MockUSDC.deploy(owner.address);
+
+      const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+      shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+      const saleStart = (await time.latest()) + 60;
+      const SSFShareSale = await ethers.getContractFactory("SSFShareSale");
+      shareSale = await SSFShareSale.deploy(
+        await usdc.getAddress(),
+        await shareToken.getAddress(),
+        reserve.address,
+        treasury.address,
+        owner.address,
+        saleStart,
+        saleStart + 90 * 24 * 60 * 60
+      );
+      await shareToken.grantRole(await shareToken.MINTER_ROLE(), await shareSale.getAddress());
+      await shareSale.setVoucherSigner(compliance.address);
+
+      domain = voucherDomain((await ethers.provider.getNetwork()).chainId, await shareSale.getAddress());
+
+      for (const buyer of [alice, mallory]) {
+        await usdc.mint(buyer.address, ethers.parseUnits("1000000", 6));
+        await usdc.connect(buyer).approve(await shareSale.getAddress(), ethers.MaxUint256);
+      }
+
+      await time.increaseTo(saleStart);
+      await shareSale.unpause();
+    });
+
+    it("should buy with a valid voucher", async function () {
+      const { voucher, signature } = await issue();
+
+      expect(await shareSale.verifyVoucher(voucher, signature)).to.equal(true);
+      await expect(shareSale.connect(alice).buyWithVoucher(10n, voucher, signature))
+        .to.emit(shareSale, "VoucherRedeemed")
+        .withArgs(alice.address, 1n, 10n);
+
+      expect(await shareToken.balanceOf(alice.address)).to.equal(10n);
+      expect(await shareSale.voucherNonceUsed(alice.address, 1n)).to.equal(true);
+    });
+
+    it("should not reuse a nonce", async function () {
+      const { voucher, signature } = await issue();
+      await shareSale.connect(alice).buyWithVoucher(10n, voucher, signature);
+
+      await expect(shareSale.connect(alice).buyWithVoucher(10n, voucher, signature))
+        .to.be.revertedWithCustomError(shareSale, "VoucherAlreadyUsed");
+    });
+
+    it("should enforce maxShares as a cumulative wallet cap", async function () {
+      const first = await issue({ nonce: 1n });
+      await shareSale.connect(alice).buyWithVoucher(40n, first.voucher, first.signature);
+
+      const second = await issue({ nonce: 2n });
+      await expect(shareSale.connect(alice).buyWithVoucher(11n, second.voucher, second.signature))
+        .to.be.revertedWithCustomError(shareSale, "WalletCapExceeded");
+    });
+
+    it("should reject expired vouchers", async function () {
+      const { voucher, signature } = await issue();
+      await time.increaseTo(voucher.expiry + 1n);
+
+      await expect(shareSale.connect(alice).buyWithVoucher(1n, voucher, signature))
+        .to.be.revertedWithCustomError(shareSale, "VoucherExpired");
+    });
+
+    it("should reject vouchers used by another wallet or signed by a stranger", async function () {
+      const { voucher, signature } = await issue();
+      await expect(shareSale.connect(mallory).buyWithVoucher(1n, voucher, signature))
+        .to.be.revertedWithCustomError(shareSale, "InvalidSignature");
+
+      const forged = await issue({ buyer: mallory.address }, mallory);
+      await expect(shareSale.connect(mallory).buyWithVoucher(1n, forged.voucher, forged.signature))
+        .to.be.revertedWithCustomError(shareSale, "InvalidSignature");
+    });
+
+    it("should invalidate unspent vouchers when the signer rotates", async function () {
+      const { voucher, signature } = await issue();
+
+      await expect(shareSale.setVoucherSigner(mallory.address))
+        .to.emit(shareSale, "VoucherSignerUpdated")
+        .withArgs(compliance.address, mallory.address);
+      await expect(shareSale.connect(alice).buyWithVoucher(1n, voucher, signature))
+        .to.be.revertedWithCustomError(shareSale, "InvalidSignature");
+
+      await shareSale.setVoucherSigner(ethers.ZeroAddress);
+      expect(await shareSale.verifyVoucher(voucher, signature)).to.equal(false);
+    });
+
+    it("should only let the owner rotate the signer", async function () {
+      await expect(shareSale.connect(alice).setVoucherSigner(alice.address))
+        .to.be.revertedWithCustomError(shareSale, "OwnableUnauthorizedAccount");
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * SSFShareSaleV2 / SSFReserveVaultV2 constructor parameter tests
+ *
+ * Sale caps, allowlist size, reserve split and floor are immutable constructor
+ * arguments, validated against each other, SSFShareToken.MAX_SUPPLY and the
+ * vault's FLOOR_BPS.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFShareSaleV2 - sale parameters", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let vault: Contract;
+  let saleFactory: any;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+
+  const PRICE = ethers.parseUnits("1000", 6);
+
+  async function deployVault(floorBps: number): Promise<Contract> {
+    const SSFReserveVaultV2 = await ethers.getContractFactory("SSFReserveVaultV2");
+    return SSFReserveVaultV2.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      floorBps,
+      0
+    );
+  }
+
+  async function deploySale(config: any): Promise<Contract> {
+    const saleStart = (await time.latest()) + 60;
+    return saleFactory.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      await vault.getAddress(),
+      treasury.address,
+      owner.address,
+      saleStart,
+      saleStart + 30 * 24 * 60 * 60,
+      config,
+      [{ upToShares: config.maxShares, endsAt: 0, pricePerShareUsdc: PRICE }]
+    );
+  }
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    vault = await deployVault(4_000);
+    saleFactory = await ethers.getContractFactory("SSFShareSaleV2");
+  });
+
+  describe("SSFReserveVaultV2", function () {
+    it("should store FLOOR_BPS", async function () {
+      expect(await vault.FLOOR_BPS()).to.equal(4_000n);
+    });
+
+    it("should reject a zero or over-100% floor", async function () {
+      await expect(deployVault(0)).to.be.revertedWithCustomError(vault, "InvalidFloorBps");
+      await expect(deployVault(10_001)).to.be.revertedWithCustomError(vault, "InvalidFloorBps");
+    });
+  });
+
+  describe("SSFShareSaleV2", function () {
+    const config = { maxShares: 5_000, maxSharesPerWallet: 250, maxAllowlist: 20, reserveBps: 6_000 };
+
+    it("should store the parameters", async function () {
+      const sale = await deploySale(config);
+      expect(await sale.MAX_SHARES()).to.equal(5_000n);
+      expect(await sale.MAX_SHARES_PER_WALLET()).to.equal(250n);
+      expect(await sale.MAX_ALLOWLIST()).to.equal(20n);
+      expect(await sale.RESERVE_BPS()).to.equal(6_000n);
+      expect(await sale.remainingShares()).to.equal(5_000n);
+    });
+
+    it("should reject maxShares above the token's MAX_SUPPLY", async function () {
+      await expect(deploySale({ ...config, maxShares: 20_001 }))
+        .to.be.revertedWithCustomError(saleFactory, "InvalidSaleConfig");
+    });
+
+    it("should reject a zero or oversized wallet cap", async function () {
+      await expect(deploySale({ ...config, maxSharesPerWallet: 0 }))
+        .to.be.revertedWithCustomError(saleFactory, "InvalidSaleConfig");
+      await expect(deploySale({ ...config, maxSharesPerWallet: 5_001 }))
+        .to.be.revertedWithCustomError(saleFactory, "InvalidSaleConfig");
+    });
+
+    it("should reject a zero allowlist capacity", async function () {
+      await expect(deploySale({ ...config, maxAllowlist: 0 }))
+        .to.be.revertedWithCustomError(saleFactory, "InvalidSaleConfig");
+    });
+
+    it("should reject a reserve split below the vault floor or above 100%", async function () {
+      await expect(deploySale({ ...config, reserveBps: 3_999 }))
+        .to.be.revertedWithCustomError(saleFactory, "InvalidSaleConfig");
+      await expect(deploySale({ ...config, reserveBps: 10_001 }))
+        .to.be.revertedWithCustomError(saleFactory, "InvalidSaleConfig");
+    });
+
+    it("should enforce the configured caps and split", async function () {
+      const sale = await deploySale({ maxShares: 10, maxSharesPerWallet: 4, maxAllowlist: 1, reserveBps: 6_000 });
+      const saleAddress = await sale.getAddress();
+      await shareToken.grantRole(await shareToken.MINTER_ROLE(), saleAddress);
+      await vault.setShareSale(saleAddress);
+
+      await sale.setAllowlist([alice.address], true);
+      await expect(sale.setAllowlist([treasury.address], true))
+        .to.be.revertedWithCustomError(sale, "AllowlistCapExceeded");
+
+      await usdc.mint(alice.address, 10n * PRICE);
+      await usdc.connect(alice).approve(saleAddress, ethers.MaxUint256);
+      await time.increaseTo(await sale.saleStart());
+      await sale.unpause();
+
+      await expect(sale.connect(alice).buy(5, 5n * PRICE)).to.be.revertedWithCustomError(sale, "WalletCapExceeded");
+      await sale.connect(alice).buy(4, 4n * PRICE);
+
+      expect(await usdc.balanceOf(await vault.getAddress())).to.equal((4n * PRICE * 6_000n) / 10_000n);
+      expect(await usdc.balanceOf(treasury.address)).to.equal((4n * PRICE * 4_000n) / 10_000n);
+      // Vault holds more than its 40% floor requires
+      expect(await vault.excessReserveUSDC()).to.equal((4n * PRICE * 2_000n) / 10_000n);
+    });
+
+    it("should report no remaining capacity when migration pushes a wallet over the cap", async function () {
+      const sale = await deploySale({ maxShares: 10, maxSharesPerWallet: 4, maxAllowlist: 2, reserveBps: 6_000 });
+      const saleAddress = await sale.getAddress();
+      await shareToken.grantRole(await shareToken.MINTER_ROLE(), saleAddress);
+      await shareToken.grantRole(await shareToken.RECOVERY_ROLE(), owner.address);
+      await vault.setShareSale(saleAddress);
+      await sale.setAllowlist([alice.address, bob.address], true);
+
+      for (const buyer of [alice, bob]) {
+        await usdc.mint(buyer.address, 4n * PRICE);
+        await usdc.connect(buyer).approve(saleAddress, ethers.MaxUint256);
+      }
+      await time.increaseTo(await sale.saleStart());
+      await sale.unpause();
+      await sale.connect(alice).buy(4, 4n * PRICE);
+      await sale.connect(bob).buy(3, 3n * PRICE);
+
+      // bob empties his wallet and becomes alice's replacement
+      await shareToken.connect(bob).transfer(owner.address, 3);
+      await shareToken.recoverWallet(alice.address, bob.address);
+      await sale.migratePurchases(alice.address);
+
+      expect(await sale.purchasedShares(bob.address)).to.equal(7n);
+      expect(await sale.remainingSharesForWallet(bob.address)).to.equal(0n);
+      await expect(sale.connect(bob).buy(1, PRICE)).to.be.revertedWithCustomError(sale, "WalletCapExceeded");
+    });
+  });
+});
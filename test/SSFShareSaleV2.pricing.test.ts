@@ -0,0 +1,242 @@
+/**
+ * SSFShareSaleV2 pricing schedule tests
+ *
+ * Covers tiered and time-stepped pricing, quote() across tier boundaries, and
+ * SSFReserveVaultV2's floor tracking the weighted issue price actually paid.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFShareSaleV2 - pricing schedule", function () {
+  let usdc: Contract;
+  let shareToken: Contract;
+  let vault: Contract;
+  let shareSale: Contract;
+  let owner: any;
+  let treasury: any;
+  let alice: any;
+  let bob: any;
+  let saleStart: number;
+  let earlyBirdEnds: number;
+
+  const usdcAmount = (n: string) => ethers.parseUnits(n, 6);
+  const EARLY_PRICE = usdcAmount("800");
+  const MID_PRICE = usdcAmount("900");
+  const FULL_PRICE = usdcAmount("1000");
+  const SALE_CONFIG = { maxShares: 20_000, maxSharesPerWallet: 1_000, maxAllowlist: 100, reserveBps: 5_000 };
+
+  async function deploySale(tiers: any[]): Promise<Contract> {
+    const SSFShareSaleV2 = await ethers.getContractFactory("SSFShareSaleV2");
+    return SSFShareSaleV2.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      await vault.getAddress(),
+      treasury.address,
+      owner.address,
+      saleStart,
+      saleStart + 90 * 24 * 60 * 60,
+      SALE_CONFIG,
+      tiers
+    );
+  }
+
+  beforeEach(async function () {
+    [owner, treasury, alice, bob] = await ethers.getSigners();
+
+    const MockUSDC = await ethers.getContractFactory("MockUSDC");
+    usdc = await MockUSDC.deploy(owner.address);
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", owner.address);
+
+    const SSFReserveVaultV2 = await ethers.getContractFactory("SSFReserveVaultV2");
+    vault = await SSFReserveVaultV2.deploy(
+      await usdc.getAddress(),
+      await shareToken.getAddress(),
+      treasury.address,
+      owner.address,
+      5_000,
+      0
+    );
+
+    saleStart = (await time.latest()) + 60;
+    earlyBirdEnds = saleStart + 7 * 24 * 60 * 60;
+
+    // Early bird: first 10 shares at 800 for a week, next 20 at 900, rest at 1,000
+    shareSale = await deploySale([
+      { upToShares: 10, endsAt: earlyBirdEnds, pricePerShareUsdc: EARLY_PRICE },
+      { upToShares: 30, endsAt: 0, pricePerShareUsdc: MID_PRICE },
+      { upToShares: 20_000, endsAt: 0, pricePerShareUsdc: FULL_PRICE },
+    ]);
+    const saleAddress = await shareSale.getAddress();
+
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), saleAddress);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), await vault.getAddress());
+    await vault.setShareSale(saleAddress);
+    await shareSale.setAllowlist([alice.address, bob.address], true);
+
+    for (const buyer of [alice, bob]) {
+      await usdc.mint(buyer.address, usdcAmount("1000000"));
+      await usdc.connect(buyer).approve(saleAddress, ethers.MaxUint256);
+    }
+
+    await time.increaseTo(saleStart);
+    await shareSale.unpause();
+  });
+
+  describe("Schedule validation", function () {
+    it("should reject an empty schedule", async function () {
+      await expect(deploySale([])).to.be.revertedWithCustomError(shareSale, "InvalidPriceSchedule");
+    });
+
+    it("should reject non-increasing tier bounds", async function () {
+      await expect(deploySale([
+        { upToShares: 10, endsAt: 0, pricePerShareUsdc: EARLY_PRICE },
+        { upToShares: 10, endsAt: 0, pricePerShareUsdc: FULL_PRICE },
+        { upToShares: 20_000, endsAt: 0, pricePerShareUsdc: FULL_PRICE },
+      ])).to.be.revertedWithCustomError(shareSale, "InvalidPriceSchedule");
+    });
+
+    it("should require the last tier to cover MAX_SHARES without expiry", async function () {
+      await expect(deploySale([
+        { upToShares: 19_999, endsAt: 0, pricePerShareUsdc: FULL_PRICE },
+      ])).to.be.revertedWithCustomError(shareSale, "InvalidPriceSchedule");
+      await expect(deploySale([
+        { upToShares: 20_000, endsAt: earlyBirdEnds, pricePerShareUsdc: FULL_PRICE },
+      ])).to.be.revertedWithCustomError(shareSale, "InvalidPriceSchedule");
+    });
+
+    it("should reject decreasing tier prices", async function () {
+      await expect(deploySale([
+        { upToShares: 10, endsAt: 0, pricePerShareUsdc: FULL_PRICE },
+        { upToShares: 20_000, endsAt: 0, pricePerShareUsdc: EARLY_PRICE },
+      ])).to.be.revertedWithCustomError(shareSale, "InvalidPriceSchedule");
+    });
+
+    it("should reject a zero price", async function () {
+      await expect(deploySale([
+        { upToShares: 20_000, endsAt: 0, pricePerShareUsdc: 0 },
+      ])).to.be.revertedWithCustomError(shareSale, "InvalidPriceSchedule");
+    });
+
+    it("should expose the stored schedule", async function () {
+      expect(await shareSale.priceTierCount()).to.equal(3n);
+      const tier = await shareSale.priceTiers(0);
+      expect(tier.upToShares).to.equal(10n);
+      expect(tier.endsAt).to.equal(BigInt(earlyBirdEnds));
+      expect(tier.pricePerShareUsdc).to.equal(EARLY_PRICE);
+    });
+  });
+
+  describe("quote()", function () {
+    it("should price within a single tier", async function () {
+      expect(await shareSale.quote(4)).to.equal(4n * EARLY_PRICE);
+      expect(await shareSale.currentPrice()).to.equal(EARLY_PRICE);
+    });
+
+    it("should price purchases spanning tier boundaries", async function () {
+      // 10 @ 800 + 20 @ 900 + 5 @ 1,000
+      expect(await shareSale.quote(35)).to.equal(10n * EARLY_PRICE + 20n * MID_PRICE + 5n * FULL_PRICE);
+    });
+
+    it("should price from the current sharesSold", async function () {
+      await shareSale.connect(alice).buy(8, 8n * EARLY_PRICE);
+      expect(await shareSale.quote(4)).to.equal(2n * EARLY_PRICE + 2n * MID_PRICE);
+    });
+
+    it("should roll an expired tier's unsold capacity into the next tier", async function () {
+      await shareSale.connect(alice).buy(3, 3n * EARLY_PRICE);
+      await time.increaseTo(earlyBirdEnds);
+
+      expect(await shareSale.currentPrice()).to.equal(MID_PRICE);
+      // Shares #3..#29 now all sell at 900
+      expect(await shareSale.quote(27)).to.equal(27n * MID_PRICE);
+      expect(await shareSale.quote(28)).to.equal(27n * MID_PRICE + FULL_PRICE);
+    });
+
+    it("should revert when the quote exceeds remaining shares", async function () {
+      await expect(shareSale.quote(20_001)).to.be.revertedWithCustomError(shareSale, "SaleCapExceeded");
+    });
+  });
+
+  describe("buy()", function () {
+    it("should charge the quoted cost and split it", async function () {
+      const cost = 10n * EARLY_PRICE + 2n * MID_PRICE;
+
+      await expect(shareSale.connect(alice).buy(12, cost))
+        .to.emit(shareSale, "Purchased")
+        .withArgs(alice.address, 12n, cost);
+
+      expect(await usdc.balanceOf(treasury.address)).to.equal(cost / 2n);
+      expect(await usdc.balanceOf(await vault.getAddress())).to.equal(cost / 2n);
+      expect(await shareToken.balanceOf(alice.address)).to.equal(12n);
+    });
+
+    it("should revert when the cost exceeds maxCost", async function () {
+      await shareSale.connect(bob).buy(10, 10n * EARLY_PRICE);
+
+      // Alice's quote was taken before Bob took the early-bird tier
+      await expect(shareSale.connect(alice).buy(1, EARLY_PRICE))
+        .to.be.revertedWithCustomError(shareSale, "CostExceedsMax")
+        .withArgs(MID_PRICE, EARLY_PRICE);
+    });
+  });
+
+  describe("Reserve floor", function () {
+    it("should record issuance only from the registered sale", async function () {
+      await expect(vault.recordIssuance(1, FULL_PRICE)).to.be.revertedWithCustomError(vault, "NotShareSale");
+      await expect(vault.setShareSale(bob.address)).to.be.revertedWithCustomError(vault, "ShareSaleAlreadySet");
+    });
+
+    it("should track the weighted issue price actually paid", async function () {
+      await shareSale.connect(alice).buy(10, 10n * EARLY_PRICE);
+      await shareSale.connect(bob).buy(30, 20n * MID_PRICE + 10n * FULL_PRICE);
+
+      const proceeds = 10n * EARLY_PRICE + 20n * MID_PRICE + 10n * FULL_PRICE;
+      expect(await vault.issuedShares()).to.equal(40n);
+      expect(await vault.issueProceeds()).to.equal(proceeds);
+      expect(await vault.weightedIssuePrice()).to.equal(proceeds / 40n);
+      expect(await vault.floorPrice()).to.equal(proceeds / 80n);
+
+      // Vault holds exactly what the floor requires
+      expect(await vault.requiredReserveUSDC()).to.equal(proceeds / 2n);
+      expect(await vault.excessReserveUSDC()).to.equal(0n);
+    });
+
+    it("should pay redemptions at the weighted floor", async function () {
+      await shareSale.connect(alice).buy(10, 10n * EARLY_PRICE);
+      await shareSale.connect(bob).buy(10, 10n * MID_PRICE);
+
+      const floor = (10n * EARLY_PRICE + 10n * MID_PRICE) / 40n; // 425 USDC
+      expect(await vault.floorPrice()).to.equal(floor);
+
+      await shareToken.connect(alice).approve(await vault.getAddress(), 10);
+      const before = await usdc.balanceOf(alice.address);
+      await vault.connect(alice).redeem(10);
+      expect(await usdc.balanceOf(alice.address)).to.equal(before + 10n * floor);
+
+      // Remaining supply stays fully backed and the floor does not move
+      expect(await vault.floorPrice()).to.equal(floor);
+      expect(await usdc.balanceOf(await vault.getAddress())).to.equal(await vault.requiredReserveUSDC());
+    });
+
+    it("should stay fully backed when shares are redeemed between tiers", async function () {
+      await shareSale.connect(alice).buy(10, 10n * EARLY_PRICE);
+      await shareToken.connect(alice).approve(await vault.getAddress(), 9);
+      await vault.connect(alice).redeem(9);
+
+      // Later buyers pay more, lifting the floor for the share alice kept
+      await shareSale.connect(bob).buy(90, 20n * MID_PRICE + 70n * FULL_PRICE);
+
+      expect(await vault.floorPrice()).to.be.greaterThan(EARLY_PRICE / 2n);
+      expect(await usdc.balanceOf(await vault.getAddress())).to.be.at.least(await vault.requiredReserveUSDC());
+    });
+
+    it("should not redeem before any issuance", async function () {
+      await expect(vault.connect(alice).redeem(1)).to.be.revertedWithCustomError(vault, "NoIssuance");
+    });
+  });
+});
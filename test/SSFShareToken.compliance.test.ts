@@ -0,0 +1,199 @@
+/**
+ * SSFShareToken compliance tests
+ *
+ * Transfers are checked by SSFComplianceModule against the SSFIdentityRegistry
+ * (verified wallets + jurisdiction), allowed countries, max holder count and
+ * a lockup date. Failures revert with TransferRestricted(code).
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFShareToken - compliance", function () {
+  let shareToken: Contract;
+  let registry: Contract;
+  let compliance: Contract;
+  let admin: any;
+  let minter: any;
+  let alice: any;
+  let bob: any;
+  let carol: any;
+  let outsider: any;
+
+  const US = 840;
+  const GB = 826;
+  const KP = 408;
+
+  const SENDER_NOT_VERIFIED = 1;
+  const RECIPIENT_NOT_VERIFIED = 2;
+  const COUNTRY_NOT_ALLOWED = 3;
+  const MAX_HOLDERS_EXCEEDED = 4;
+  const LOCKUP_ACTIVE = 5;
+
+  beforeEach(async function () {
+    [admin, minter, alice, bob, carol, outsider] = await ethers.getSigners();
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", admin.address);
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), minter.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), minter.address);
+
+    const SSFIdentityRegistry = await ethers.getContractFactory("SSFIdentityRegistry");
+    registry = await SSFIdentityRegistry.deploy(admin.address);
+    await registry.grantRole(await registry.REGISTRAR_ROLE(), admin.address);
+    await registry.registerIdentities([alice.address, bob.address, carol.address], [US, GB, KP]);
+
+    const SSFComplianceModule = await ethers.getContractFactory("SSFComplianceModule");
+    compliance = await SSFComplianceModule.deploy(
+      await shareToken.getAddress(),
+      await registry.getAddress(),
+      admin.address
+    );
+    await compliance.setAllowedCountries([US, GB], true);
+    await shareToken.setCompliance(await compliance.getAddress());
+  });
+
+  describe("Setup", function () {
+    it("should be unrestricted without a module", async function () {
+      const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+      const plain = await SSFShareToken.deploy("Plain", "P", admin.address);
+      await plain.grantRole(await plain.MINTER_ROLE(), minter.address);
+
+      await plain.connect(minter).mint(outsider.address, 1);
+      expect(await plain.balanceOf(outsider.address)).to.equal(1n);
+    });
+
+    it("should only let the admin set the module", async function () {
+      await expect(shareToken.connect(alice).setCompliance(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(shareToken, "AccessControlUnauthorizedAccount");
+      await expect(shareToken.setCompliance(ethers.ZeroAddress))
+        .to.emit(shareToken, "ComplianceUpdated")
+        .withArgs(await compliance.getAddress(), ethers.ZeroAddress);
+    });
+
+    it("should only accept hooks from the token", async function () {
+      await expect(compliance.transferred(alice.address, bob.address, 1))
+        .to.be.revertedWithCustomError(compliance, "OnlyToken");
+    });
+  });
+
+  describe("Identity and jurisdiction", function () {
+    it("should block mints to unverified wallets", async function () {
+      await expect(shareToken.connect(minter).mint(outsider.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(RECIPIENT_NOT_VERIFIED);
+    });
+
+    it("should block recipients in disallowed countries", async function () {
+      await expect(shareToken.connect(minter).mint(carol.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(COUNTRY_NOT_ALLOWED);
+    });
+
+    it("should allow transfers between verified wallets in allowed countries", async function () {
+      await shareToken.connect(minter).mint(alice.address, 5);
+      await shareToken.connect(alice).transfer(bob.address, 2);
+
+      expect(await shareToken.balanceOf(bob.address)).to.equal(2n);
+      expect(await compliance.canTransfer(alice.address, bob.address, 1)).to.equal(true);
+    });
+
+    it("should block transfers to unverified wallets", async function () {
+      await shareToken.connect(minter).mint(alice.address, 5);
+
+      await expect(shareToken.connect(alice).transfer(outsider.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(RECIPIENT_NOT_VERIFIED);
+    });
+
+    it("should freeze a wallet whose identity is removed", async function () {
+      await shareToken.connect(minter).mint(alice.address, 5);
+      await registry.removeIdentity(alice.address);
+
+      expect(await compliance.detectTransferRestriction(alice.address, bob.address, 1)).to.equal(SENDER_NOT_VERIFIED);
+      await expect(shareToken.connect(alice).transfer(bob.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(SENDER_NOT_VERIFIED);
+    });
+
+    it("should follow country updates", async function () {
+      await registry.updateCountry(carol.address, US);
+      await shareToken.connect(minter).mint(carol.address, 1);
+      expect(await shareToken.balanceOf(carol.address)).to.equal(1n);
+    });
+  });
+
+  describe("Lockup", function () {
+    it("should block holder transfers until the lockup date but allow mints and burns", async function () {
+      const until = (await time.latest()) + 365 * 24 * 60 * 60;
+      await compliance.setLockupUntil(until);
+
+      await shareToken.connect(minter).mint(alice.address, 5);
+      await expect(shareToken.connect(alice).transfer(bob.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(LOCKUP_ACTIVE);
+      await shareToken.connect(minter).burnFrom(alice.address, 1);
+
+      await time.increaseTo(until);
+      await shareToken.connect(alice).transfer(bob.address, 1);
+      expect(await shareToken.balanceOf(bob.address)).to.equal(1n);
+    });
+  });
+
+  describe("Max holders", function () {
+    beforeEach(async function () {
+      await compliance.setMaxHolders(1);
+      await shareToken.connect(minter).mint(alice.address, 5);
+    });
+
+    it("should track holder count through mint, transfer and burn", async function () {
+      await compliance.setMaxHolders(0);
+      expect(await compliance.holderCount()).to.equal(1n);
+
+      await shareToken.connect(alice).transfer(bob.address, 2);
+      expect(await compliance.holderCount()).to.equal(2n);
+
+      await shareToken.connect(minter).burnFrom(bob.address, 2);
+      expect(await compliance.holderCount()).to.equal(1n);
+    });
+
+    it("should block a new holder beyond the limit", async function () {
+      await expect(shareToken.connect(minter).mint(bob.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(MAX_HOLDERS_EXCEEDED);
+      await expect(shareToken.connect(alice).transfer(bob.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "TransferRestricted")
+        .withArgs(MAX_HOLDERS_EXCEEDED);
+    });
+
+    it("should allow a full transfer that replaces the holder", async function () {
+      await shareToken.connect(alice).transfer(bob.address, 5);
+      expect(await compliance.holderCount()).to.equal(1n);
+      expect(await shareToken.balanceOf(bob.address)).to.equal(5n);
+    });
+  });
+
+  describe("Identity registry", function () {
+    it("should restrict registration to registrars", async function () {
+      await expect(registry.connect(alice).registerIdentities([outsider.address], [US]))
+        .to.be.revertedWithCustomError(registry, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should reject duplicates and zero country codes", async function () {
+      await expect(registry.registerIdentities([alice.address], [US]))
+        .to.be.revertedWithCustomError(registry, "AlreadyRegistered")
+        .withArgs(alice.address);
+      await expect(registry.registerIdentities([outsider.address], [0]))
+        .to.be.revertedWithCustomError(registry, "InvalidCountry");
+    });
+
+    it("should track verified wallet count", async function () {
+      expect(await registry.verifiedCount()).to.equal(3n);
+      await registry.removeIdentity(carol.address);
+      expect(await registry.verifiedCount()).to.equal(2n);
+      expect(await registry.investorCountry(carol.address)).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * SSFShareToken enforcement tests
+ *
+ * FREEZER_ROLE freezes wallets; RECOVERY_ROLE moves shares without the holder's
+ * signature (forcedTransfer) or reissues a lost wallet's balance to a replacement
+ * (recoverWallet). Sales carry purchase accounting over via migratePurchases().
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFShareToken - enforcement", function () {
+  let shareToken: Contract;
+  let admin: any;
+  let agent: any;
+  let minter: any;
+  let alice: any;
+  let bob: any;
+  let carol: any;
+
+  const REASON = ethers.id("case-2026-001");
+
+  beforeEach(async function () {
+    [admin, agent, minter, alice, bob, carol] = await ethers.getSigners();
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", admin.address);
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), minter.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), minter.address);
+    await shareToken.grantRole(await shareToken.FREEZER_ROLE(), agent.address);
+    await shareToken.grantRole(await shareToken.RECOVERY_ROLE(), agent.address);
+
+    await shareToken.connect(minter).mint(alice.address, 10);
+  });
+
+  describe("Freeze", function () {
+    it("should restrict freezing to FREEZER_ROLE", async function () {
+      await expect(shareToken.connect(alice).freeze(bob.address))
+        .to.be.revertedWithCustomError(shareToken, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should block sending, receiving, minting and burning for a frozen wallet", async function () {
+      await expect(shareToken.connect(agent).freeze(alice.address))
+        .to.emit(shareToken, "WalletFrozen")
+        .withArgs(alice.address, agent.address);
+
+      await expect(shareToken.connect(alice).transfer(bob.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "WalletIsFrozen")
+        .withArgs(alice.address);
+      await expect(shareToken.connect(minter).burnFrom(alice.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "WalletIsFrozen")
+        .withArgs(alice.address);
+      await expect(shareToken.connect(minter).mint(alice.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "WalletIsFrozen")
+        .withArgs(alice.address);
+
+      await shareToken.connect(minter).mint(bob.address, 1);
+      await expect(shareToken.connect(bob).transfer(alice.address, 1))
+        .to.be.revertedWithCustomError(shareToken, "WalletIsFrozen")
+        .withArgs(alice.address);
+    });
+
+    it("should restore transfers after unfreeze", async function () {
+      await shareToken.connect(agent).freeze(alice.address);
+      await expect(shareToken.connect(agent).unfreeze(alice.address))
+        .to.emit(shareToken, "WalletUnfrozen")
+        .withArgs(alice.address, agent.address);
+
+      await shareToken.connect(alice).transfer(bob.address, 1);
+      expect(await shareToken.balanceOf(bob.address)).to.equal(1n);
+    });
+  });
+
+  describe("Forced transfer", function () {
+    it("should restrict forced transfers to RECOVERY_ROLE", async function () {
+      await expect(shareToken.connect(alice).forcedTransfer(alice.address, bob.address, 1, REASON))
+        .to.be.revertedWithCustomError(shareToken, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should move shares out of a frozen wallet and record the reason", async function () {
+      await shareToken.connect(agent).freeze(alice.address);
+
+      await expect(shareToken.connect(agent).forcedTransfer(alice.address, bob.address, 4, REASON))
+        .to.emit(shareToken, "ForcedTransfer")
+        .withArgs(alice.address, bob.address, 4n, REASON, agent.address);
+
+      expect(await shareToken.balanceOf(alice.address)).to.equal(6n);
+      expect(await shareToken.balanceOf(bob.address)).to.equal(4n);
+      expect(await shareToken.frozen(alice.address)).to.equal(true);
+    });
+
+    it("should bypass compliance rules but keep the holder count in sync", async function () {
+      const SSFIdentityRegistry = await ethers.getContractFactory("SSFIdentityRegistry");
+      const registry = await SSFIdentityRegistry.deploy(admin.address);
+      const SSFComplianceModule = await ethers.getContractFactory("SSFComplianceModule");
+      const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+      const token = await SSFShareToken.deploy("SSF Share Token", "SSF", admin.address);
+      const compliance = await SSFComplianceModule.deploy(
+        await token.getAddress(),
+        await registry.getAddress(),
+        admin.address
+      );
+      await token.setCompliance(await compliance.getAddress());
+      await token.grantRole(await token.RECOVERY_ROLE(), agent.address);
+      await token.grantRole(await token.MINTER_ROLE(), minter.address);
+
+      await registry.grantRole(await registry.REGISTRAR_ROLE(), admin.address);
+      await registry.registerIdentities([alice.address], [840]);
+      await compliance.setAllowedCountries([840], true);
+      await token.connect(minter).mint(alice.address, 3);
+
+      // bob is not verified: a regular transfer is restricted, a forced one is not
+      await expect(token.connect(alice).transfer(bob.address, 3))
+        .to.be.revertedWithCustomError(token, "TransferRestricted");
+      await token.connect(agent).forcedTransfer(alice.address, bob.address, 3, REASON);
+
+      expect(await token.balanceOf(bob.address)).to.equal(3n);
+      expect(await compliance.holderCount()).to.equal(1n);
+    });
+  });
+
+  describe("Wallet recovery", function () {
+    it("should move the full balance, freeze the lost wallet and record the replacement", async function () {
+      await expect(shareToken.connect(agent).recoverWallet(alice.address, carol.address))
+        .to.emit(shareToken, "WalletRecovered")
+        .withArgs(alice.address, carol.address, 10n, agent.address);
+
+      expect(await shareToken.balanceOf(alice.address)).to.equal(0n);
+      expect(await shareToken.balanceOf(carol.address)).to.equal(10n);
+      expect(await shareToken.frozen(alice.address)).to.equal(true);
+      expect(await shareToken.recoveredTo(alice.address)).to.equal(carol.address);
+    });
+
+    it("should reject invalid replacements", async function () {
+      await shareToken.connect(minter).mint(bob.address, 1);
+
+      for (const replacement of [ethers.ZeroAddress, alice.address, bob.address]) {
+        await expect(shareToken.connect(agent).recoverWallet(alice.address, replacement))
+          .to.be.revertedWithCustomError(shareToken, "InvalidRecovery");
+      }
+    });
+
+    it("should not recover onto a wallet that was itself recovered", async function () {
+      await shareToken.connect(agent).recoverWallet(alice.address, carol.address);
+      await shareToken.connect(minter).mint(bob.address, 1);
+
+      await expect(shareToken.connect(agent).recoverWallet(bob.address, alice.address))
+        .to.be.revertedWithCustomError(shareToken, "InvalidRecovery");
+    });
+  });
+
+  describe("Sale migration", function () {
+    let usdc: Contract;
+    let shareSale: Contract;
+    let treasury: any;
+    let reserve: any;
+    let saleEnd: number;
+
+    beforeEach(async function () {
+      [, , , , , , treasury, reserve] = await ethers.getSigners();
+
+      const MockUSDC = await ethers.getContractFactory("MockUSDC");
+      usdc = await MockUSDC.deploy(admin.address);
+
+      const saleStart = (await time.latest()) + 60;
+      saleEnd = saleStart + 30 * 24 * 60 * 60;
+      const SSFShareSale = await ethers.getContractFactory("SSFShareSale");
+      shareSale = await SSFShareSale.deploy(
+        await usdc.getAddress(),
+        await shareToken.getAddress(),
+        reserve.address,
+        treasury.address,
+        admin.address,
+        saleStart,
+        saleEnd
+      );
+      const saleAddress = await shareSale.getAddress();
+      await shareToken.grantRole(await shareToken.MINTER_ROLE(), saleAddress);
+      await shareToken.grantRole(await shareToken.BURNER_ROLE(), saleAddress);
+      await shareSale.setAllowlist([bob.address], true);
+      await shareSale.setSoftCap(100n);
+
+      await usdc.mint(bob.address, ethers.parseUnits("100000", 6));
+      await usdc.connect(bob).approve(saleAddress, ethers.MaxUint256);
+
+      await time.increaseTo(saleStart);
+      await shareSale.unpause();
+      await shareSale.connect(bob).buy(5n);
+    });
+
+    it("should reject wallets that were not recovered", async function () {
+      await expect(shareSale.migratePurchases(bob.address))
+        .to.be.revertedWithCustomError(shareSale, "NotRecovered");
+    });
+
+    it("should move purchased shares and escrow to the replacement", async function () {
+      const escrowed = await shareSale.escrowedUsdcOf(bob.address);
+      await shareToken.connect(agent).recoverWallet(bob.address, carol.address);
+
+      await expect(shareSale.connect(alice).migratePurchases(bob.address))
+        .to.emit(shareSale, "PurchasesMigrated")
+        .withArgs(bob.address, carol.address, 5n);
+
+      expect(await shareSale.purchasedShares(bob.address)).to.equal(0n);
+      expect(await shareSale.purchasedShares(carol.address)).to.equal(5n);
+      expect(await shareSale.escrowedUsdcOf(bob.address)).to.equal(0n);
+      expect(await shareSale.escrowedUsdcOf(carol.address)).to.equal(escrowed);
+      expect(await shareSale.lastPurchaseAt(carol.address)).to.equal(await shareSale.lastPurchaseAt(bob.address));
+    });
+
+    it("should report no remaining capacity when migration pushes the replacement over the cap", async function () {
+      // carol buys close to the cap, then moves her shares out so she can be a replacement
+      await shareSale.setAllowlist([carol.address], true);
+      await usdc.mint(carol.address, ethers.parseUnits("1000000", 6));
+      await usdc.connect(carol).approve(await shareSale.getAddress(), ethers.MaxUint256);
+      await shareSale.connect(carol).buy(998n);
+      await shareToken.connect(carol).transfer(alice.address, 998n);
+
+      await shareToken.connect(agent).recoverWallet(bob.address, carol.address);
+      await shareSale.migratePurchases(bob.address);
+
+      expect(await shareSale.purchasedShares(carol.address)).to.equal(1_003n);
+      expect(await shareSale.remainingSharesForWallet(carol.address)).to.equal(0n);
+      await expect(shareSale.connect(carol).buy(1n))
+        .to.be.revertedWithCustomError(shareSale, "WalletCapExceeded");
+    });
+
+    it("should let the replacement claim the refund when the soft cap is missed", async function () {
+      const escrowed = await shareSale.escrowedUsdcOf(bob.address);
+      await shareToken.connect(agent).recoverWallet(bob.address, carol.address);
+      await shareSale.migratePurchases(bob.address);
+      await time.increaseTo(saleEnd + 1);
+
+      await expect(shareSale.connect(carol).refund())
+        .to.emit(shareSale, "Refunded")
+        .withArgs(carol.address, 5n, escrowed);
+      expect(await usdc.balanceOf(carol.address)).to.equal(escrowed);
+      expect(await shareToken.balanceOf(carol.address)).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * SSFShareToken holder enumeration tests
+ *
+ * holderCount() and holders(offset, limit) track every wallet with a non-zero
+ * balance through mint, transfer, burn and forced moves.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+
+describe("SSFShareToken - holders", function () {
+  let shareToken: Contract;
+  let admin: any;
+  let minter: any;
+  let alice: any;
+  let bob: any;
+  let carol: any;
+
+  async function allHolders(): Promise<string[]> {
+    return [...(await shareToken.holders(0, ethers.MaxUint256))];
+  }
+
+  beforeEach(async function () {
+    [admin, minter, alice, bob, carol] = await ethers.getSigners();
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", admin.address);
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), minter.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), minter.address);
+    await shareToken.grantRole(await shareToken.RECOVERY_ROLE(), admin.address);
+  });
+
+  it("should start with no holders", async function () {
+    expect(await shareToken.holderCount()).to.equal(0n);
+    expect(await allHolders()).to.deep.equal([]);
+  });
+
+  it("should add holders on mint and transfer", async function () {
+    await shareToken.connect(minter).mint(alice.address, 10);
+    await shareToken.connect(minter).mint(alice.address, 5);
+    await shareToken.connect(alice).transfer(bob.address, 3);
+
+    expect(await shareToken.holderCount()).to.equal(2n);
+    expect(await allHolders()).to.have.members([alice.address, bob.address]);
+  });
+
+  it("should remove holders whose balance reaches zero", async function () {
+    await shareToken.connect(minter).mint(alice.address, 10);
+    await shareToken.connect(minter).mint(bob.address, 2);
+
+    await shareToken.connect(alice).transfer(carol.address, 10);
+    await shareToken.connect(minter).burnFrom(bob.address, 2);
+
+    expect(await shareToken.holderCount()).to.equal(1n);
+    expect(await allHolders()).to.deep.equal([carol.address]);
+  });
+
+  it("should ignore zero-value transfers", async function () {
+    await shareToken.connect(minter).mint(alice.address, 1);
+    await shareToken.connect(alice).transfer(bob.address, 0);
+
+    expect(await allHolders()).to.deep.equal([alice.address]);
+  });
+
+  it("should follow wallet recovery", async function () {
+    await shareToken.connect(minter).mint(alice.address, 4);
+    await shareToken.recoverWallet(alice.address, carol.address);
+
+    expect(await allHolders()).to.deep.equal([carol.address]);
+  });
+
+  it("should paginate", async function () {
+    await shareToken.connect(minter).mint(alice.address, 1);
+    await shareToken.connect(minter).mint(bob.address, 1);
+    await shareToken.connect(minter).mint(carol.address, 1);
+
+    expect(await shareToken.holders(0, 2)).to.deep.equal([alice.address, bob.address]);
+    expect(await shareToken.holders(2, 2)).to.deep.equal([carol.address]);
+    expect(await shareToken.holders(3, 2)).to.deep.equal([]);
+  });
+});
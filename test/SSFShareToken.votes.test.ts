@@ -0,0 +1,154 @@
+/**
+ * SSFShareToken permit and votes tests
+ *
+ * EIP-2612 permit() approves by signature. ERC20Votes checkpoints give
+ * getPastVotes for investor votes; holders are self-delegated on first receipt
+ * and share a block-number clock with getPastBalance / getPastTotalSupply.
+ * Escrow agents hold shares for others and are never delegated.
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signature } from "ethers";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SSFShareToken - permit and votes", function () {
+  let shareToken: Contract;
+  let admin: any;
+  let minter: any;
+  let alice: any;
+  let bob: any;
+  let carol: any;
+
+  async function signPermit(holder: any, spender: string, value: bigint, deadline: bigint): Promise<Signature> {
+    const domain = {
+      name: await shareToken.name(),
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await shareToken.getAddress(),
+    };
+    const types = {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+    const message = {
+      owner: holder.address,
+      spender,
+      value,
+      nonce: await shareToken.nonces(holder.address),
+      deadline,
+    };
+    return Signature.from(await holder.signTypedData(domain, types, message));
+  }
+
+  beforeEach(async function () {
+    [admin, minter, alice, bob, carol] = await ethers.getSigners();
+
+    const SSFShareToken = await ethers.getContractFactory("SSFShareToken");
+    shareToken = await SSFShareToken.deploy("SSF Share Token", "SSF", admin.address);
+    await shareToken.grantRole(await shareToken.MINTER_ROLE(), minter.address);
+    await shareToken.grantRole(await shareToken.BURNER_ROLE(), minter.address);
+    await shareToken.grantRole(await shareToken.RECOVERY_ROLE(), admin.address);
+
+    await shareToken.connect(minter).mint(alice.address, 10);
+  });
+
+  describe("Permit", function () {
+    it("should approve by signature and bump the nonce", async function () {
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const sig = await signPermit(alice, bob.address, 4n, deadline);
+
+      await shareToken.connect(carol).permit(alice.address, bob.address, 4n, deadline, sig.v, sig.r, sig.s);
+
+      expect(await shareToken.allowance(alice.address, bob.address)).to.equal(4n);
+      expect(await shareToken.nonces(alice.address)).to.equal(1n);
+      await shareToken.connect(bob).transferFrom(alice.address, bob.address, 4n);
+      expect(await shareToken.balanceOf(bob.address)).to.equal(4n);
+    });
+
+    it("should reject expired and replayed signatures", async function () {
+      const expired = BigInt(await time.latest()) - 1n;
+      let sig = await signPermit(alice, bob.address, 1n, expired);
+      await expect(shareToken.permit(alice.address, bob.address, 1n, expired, sig.v, sig.r, sig.s))
+        .to.be.revertedWithCustomError(shareToken, "ERC2612ExpiredSignature");
+
+      const deadline = BigInt(await time.latest()) + 3600n;
+      sig = await signPermit(alice, bob.address, 1n, deadline);
+      await shareToken.permit(alice.address, bob.address, 1n, deadline, sig.v, sig.r, sig.s);
+      await expect(shareToken.permit(alice.address, bob.address, 1n, deadline, sig.v, sig.r, sig.s))
+        .to.be.revertedWithCustomError(shareToken, "ERC2612InvalidSigner");
+    });
+  });
+
+  describe("Votes", function () {
+    it("should self-delegate holders on first receipt", async function () {
+      expect(await shareToken.delegates(alice.address)).to.equal(alice.address);
+      expect(await shareToken.getVotes(alice.address)).to.equal(10n);
+
+      await shareToken.connect(alice).transfer(bob.address, 3);
+      expect(await shareToken.getVotes(alice.address)).to.equal(7n);
+      expect(await shareToken.getVotes(bob.address)).to.equal(3n);
+    });
+
+    it("should respect an explicit delegation", async function () {
+      await shareToken.connect(alice).delegate(carol.address);
+      await shareToken.connect(minter).mint(alice.address, 5);
+
+      expect(await shareToken.getVotes(alice.address)).to.equal(0n);
+      expect(await shareToken.getVotes(carol.address)).to.equal(15n);
+      expect(await shareToken.delegates(alice.address)).to.equal(carol.address);
+    });
+
+    it("should expose past votes, balances and supply on the same clock", async function () {
+      const snapshot = await ethers.provider.getBlockNumber();
+      await shareToken.connect(alice).transfer(bob.address, 4);
+      await shareToken.connect(minter).burnFrom(alice.address, 2);
+      await mine();
+
+      expect(await shareToken.clock()).to.equal(BigInt(await ethers.provider.getBlockNumber()));
+      expect(await shareToken.CLOCK_MODE()).to.equal("mode=blocknumber&from=default");
+
+      expect(await shareToken.getPastVotes(alice.address, snapshot)).to.equal(10n);
+      expect(await shareToken.getPastBalance(alice.address, snapshot)).to.equal(10n);
+      expect(await shareToken.getPastTotalSupply(snapshot)).to.equal(10n);
+
+      const latest = (await ethers.provider.getBlockNumber()) - 1;
+      expect(await shareToken.getPastVotes(alice.address, latest)).to.equal(4n);
+      expect(await shareToken.getPastBalance(alice.address, latest)).to.equal(4n);
+      expect(await shareToken.getPastTotalSupply(latest)).to.equal(8n);
+    });
+
+    it("should not delegate escrow agents", async function () {
+      await expect(shareToken.setEscrowAgent(carol.address, true))
+        .to.emit(shareToken, "EscrowAgentUpdated")
+        .withArgs(carol.address, true);
+      await shareToken.connect(alice).transfer(carol.address, 3);
+
+      expect(await shareToken.delegates(carol.address)).to.equal(ethers.ZeroAddress);
+      expect(await shareToken.getVotes(carol.address)).to.equal(0n);
+      expect(await shareToken.getVotes(alice.address)).to.equal(7n);
+    });
+
+    it("should drop an existing delegation when registering an agent", async function () {
+      await shareToken.connect(alice).transfer(bob.address, 3);
+      expect(await shareToken.getVotes(bob.address)).to.equal(3n);
+
+      await shareToken.setEscrowAgent(bob.address, true);
+      expect(await shareToken.getVotes(bob.address)).to.equal(0n);
+      await expect(shareToken.connect(alice).setEscrowAgent(bob.address, false))
+        .to.be.revertedWithCustomError(shareToken, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should move votes with a wallet recovery", async function () {
+      await shareToken.recoverWallet(alice.address, carol.address);
+
+      expect(await shareToken.getVotes(alice.address)).to.equal(0n);
+      expect(await shareToken.getVotes(carol.address)).to.equal(10n);
+    });
+  });
+});